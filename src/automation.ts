@@ -4,10 +4,15 @@
  */
 
 import { EventEmitter } from 'events';
+import { z } from 'zod';
 import type { ProcessLauncher } from './launcher.js';
 import type { ConsoleManager } from './console-manager.js';
 import type { UIController } from './ui-controller.js';
 import type { ScreenCapture } from './screen-capture.js';
+import { CvarSnapshotManager, type CvarSnapshot } from './cvar-snapshots.js';
+import { CvarWatcher, type CvarComparison } from './cvar-watcher.js';
+import type { ReadinessConfig } from './readiness.js';
+import { lookMoveSchema, motionSchema, readLookScale, type MotionConfig } from './mouse-paths.js';
 import type {
   AutomationStep,
   AutomationScript,
@@ -18,10 +23,13 @@ import type {
 } from './types.js';
 
 export interface AutomationContext {
+  session?: string;
   launcher: ProcessLauncher;
   console: ConsoleManager;
   ui: UIController;
   screen: ScreenCapture;
+  snapshots?: CvarSnapshotManager;
+  watcher?: CvarWatcher;
 }
 
 export class AutomationFramework extends EventEmitter {
@@ -31,10 +39,15 @@ export class AutomationFramework extends EventEmitter {
   private currentScript: AutomationScript | null = null;
   private stepResults: StepResult[] = [];
   private variables: Map<string, unknown> = new Map();
+  private snapshots: CvarSnapshotManager;
+  private watcher: CvarWatcher;
+  private openTransactions: string[] = [];
 
   constructor(context: AutomationContext) {
     super();
     this.context = context;
+    this.snapshots = context.snapshots ?? new CvarSnapshotManager();
+    this.watcher = context.watcher ?? new CvarWatcher();
   }
 
   /**
@@ -45,6 +58,7 @@ export class AutomationFramework extends EventEmitter {
     this.aborted = false;
     this.currentScript = script;
     this.stepResults = [];
+    this.openTransactions = [];
     const startTime = Date.now();
 
     this.emit('scriptStart', { name: script.name });
@@ -61,6 +75,11 @@ export class AutomationFramework extends EventEmitter {
 
       // Run main steps
       if (!this.aborted) {
+        // Snapshot once setup has started the game, so the values it set up are kept
+        if (script.cvarTransaction) {
+          await this.executeStep({ action: 'begin_transaction', params: {} });
+        }
+
         this.emit('phase', 'main');
         for (const step of script.steps) {
           if (this.aborted) break;
@@ -75,6 +94,16 @@ export class AutomationFramework extends EventEmitter {
         error: String(error),
       });
     } finally {
+      // Undo cvar changes of transactions the script did not commit, while teardown
+      // has not yet quit the game
+      for (const id of [...this.openTransactions].reverse()) {
+        try {
+          await this.executeStep({ action: 'rollback_transaction', params: { transaction: id } });
+        } catch {
+          // Recorded in the step results
+        }
+      }
+
       // Run teardown steps regardless of success
       if (script.teardown && script.teardown.length > 0) {
         this.emit('phase', 'teardown');
@@ -166,6 +195,7 @@ export class AutomationFramework extends EventEmitter {
             params.width && params.height
               ? { width: params.width as number, height: params.height as number }
               : undefined,
+          readiness: params.readiness as ReadinessConfig | undefined,
         });
         break;
 
@@ -206,23 +236,103 @@ export class AutomationFramework extends EventEmitter {
         await this.context.console.execConfig(params.path as string);
         break;
 
+      // Cvar snapshots and transactions
+      case 'cvar_snapshot': {
+        const snapshot = await this.snapshots.capture(this.context.console, params.name as string | undefined);
+        if (params.storeAs) {
+          this.variables.set(params.storeAs as string, snapshot.id);
+        }
+        break;
+      }
+
+      case 'cvar_diff': {
+        const from = this.getSnapshot(params.from);
+        const to = params.to !== undefined
+          ? this.getSnapshot(params.to)
+          : await this.snapshots.capture(this.context.console);
+        const diff = this.snapshots.diff(from, to);
+        if (params.storeAs) {
+          this.variables.set(params.storeAs as string, diff);
+        }
+        break;
+      }
+
+      case 'cvar_restore': {
+        const restored = await this.snapshots.restore(this.context.console, this.getSnapshot(params.snapshot));
+        if (!restored.success) {
+          throw new Error(`Failed to restore cvars: ${restored.failed.map((f) => f.name).join(', ')}`);
+        }
+        break;
+      }
+
+      case 'begin_transaction': {
+        const transaction = await this.snapshots.begin(this.context.console, params.name as string | undefined);
+        this.openTransactions.push(transaction.id);
+        if (params.storeAs) {
+          this.variables.set(params.storeAs as string, transaction.id);
+        }
+        break;
+      }
+
+      case 'commit_transaction': {
+        const id = this.takeTransaction(params.transaction);
+        this.snapshots.commit(id);
+        break;
+      }
+
+      case 'rollback_transaction': {
+        const id = this.takeTransaction(params.transaction);
+        const restored = await this.snapshots.rollback(id);
+        if (!restored.success) {
+          throw new Error(`Failed to restore cvars: ${restored.failed.map((f) => f.name).join(', ')}`);
+        }
+        break;
+      }
+
       // UI actions
-      case 'mouse_move':
-        if (params.relative) {
+      case 'mouse_move': {
+        const motion = this.motion(params);
+        if (params.relative && motion) {
+          await this.context.ui.mouseLook([{ dx: params.x as number, dy: params.y as number }], motion);
+        } else if (params.relative) {
           await this.context.ui.moveMouseRelative(params.x as number, params.y as number);
         } else if (params.window) {
-          await this.context.ui.moveMouseToWindow(params.x as number, params.y as number);
+          await this.context.ui.moveMouseToWindow(params.x as number, params.y as number, motion);
         } else {
-          await this.context.ui.moveMouse(params.x as number, params.y as number);
+          await this.context.ui.moveMouse(params.x as number, params.y as number, motion);
         }
         break;
+      }
+
+      case 'mouse_look': {
+        const moves = z.array(lookMoveSchema).min(1).parse(params.moves);
+        const scale = params.units === 'counts' ? { yaw: 1, pitch: 1 } : await readLookScale(this.context.console);
+        await this.context.ui.mouseLook(
+          moves.map((move) => ({
+            dx: Math.round(move.yaw / scale.yaw),
+            dy: Math.round(move.pitch / scale.pitch),
+            durationMs: move.durationMs,
+            pauseMs: move.pauseMs,
+          })),
+          this.motion(params) ?? {}
+        );
+        break;
+      }
 
       case 'mouse_click':
-        if (params.x !== undefined && params.y !== undefined) {
+        if (params.x !== undefined && params.y !== undefined && params.window) {
+          await this.context.ui.clickAtWindow(
+            params.x as number,
+            params.y as number,
+            (params.button as 'left' | 'right' | 'middle') || 'left',
+            this.motion(params)
+          );
+        } else if (params.x !== undefined && params.y !== undefined) {
           await this.context.ui.clickAt(
             params.x as number,
             params.y as number,
-            (params.button as 'left' | 'right' | 'middle') || 'left'
+            (params.button as 'left' | 'right' | 'middle') || 'left',
+            this.motion(params)
           );
         } else {
           await this.context.ui.clickMouse(
@@ -231,6 +341,24 @@ export class AutomationFramework extends EventEmitter {
         }
         break;
 
+      case 'mouse_down':
+      case 'mouse_up':
+        if (params.x !== undefined && params.y !== undefined) {
+          if (params.window) {
+            await this.context.ui.moveMouseToWindow(params.x as number, params.y as number, this.motion(params));
+          } else {
+            await this.context.ui.moveMouse(params.x as number, params.y as number, this.motion(params));
+          }
+        }
+        if (action === 'mouse_down' && params.holdMs !== undefined) {
+          await this.context.ui.holdMouse((params.button as 'left' | 'right' | 'middle') || 'left', params.holdMs as number);
+        } else if (action === 'mouse_down') {
+          await this.context.ui.mouseDown((params.button as 'left' | 'right' | 'middle') || 'left');
+        } else {
+          await this.context.ui.mouseUp((params.button as 'left' | 'right' | 'middle') || 'left');
+        }
+        break;
+
       case 'double_click':
         await this.context.ui.doubleClick(
           (params.button as 'left' | 'right' | 'middle') || 'left'
@@ -243,7 +371,8 @@ export class AutomationFramework extends EventEmitter {
           params.startY as number,
           params.endX as number,
           params.endY as number,
-          (params.button as 'left' | 'right' | 'middle') || 'left'
+          (params.button as 'left' | 'right' | 'middle') || 'left',
+          this.motion(params)
         );
         break;
 
@@ -269,6 +398,18 @@ export class AutomationFramework extends EventEmitter {
         }
         break;
 
+      case 'key_down':
+        if (params.holdMs !== undefined) {
+          await this.context.ui.holdKey(params.key as string, params.holdMs as number);
+        } else {
+          await this.context.ui.keyDown(params.key as string);
+        }
+        break;
+
+      case 'key_up':
+        await this.context.ui.keyUp(params.key as string);
+        break;
+
       case 'key_combo':
         await this.context.ui.sendKeyCombo(params.combo as string);
         break;
@@ -333,6 +474,20 @@ export class AutomationFramework extends EventEmitter {
         );
         break;
 
+      case 'wait_for_cvar': {
+        const met = await this.watcher.waitFor(
+          this.context.console,
+          params.name as string,
+          this.toComparison(params),
+          (params.timeout as number) || 30000,
+          { session: this.context.session }
+        );
+        if (!met) {
+          throw new Error(`Cvar ${params.name} did not match ${JSON.stringify(this.toComparison(params))}`);
+        }
+        break;
+      }
+
       case 'wait_for_pixel':
         await this.context.screen.waitForPixelColor(
           params.x as number,
@@ -390,6 +545,46 @@ export class AutomationFramework extends EventEmitter {
     }
   }
 
+  /**
+   * Read a cvar comparison from params: `comparison`, or `expected` for equality
+   */
+  private toComparison(params: Record<string, unknown>): CvarComparison {
+    return (params.comparison as CvarComparison | undefined) ?? { op: 'equals', value: String(params.expected) };
+  }
+
+  /**
+   * Read the optional `motion` param of pointer actions
+   */
+  private motion(params: Record<string, unknown>): MotionConfig | undefined {
+    return params.motion === undefined ? undefined : motionSchema.parse(params.motion);
+  }
+
+  /**
+   * Resolve a snapshot ID given directly or through a variable
+   */
+  private getSnapshot(ref: unknown): CvarSnapshot {
+    const id = String(this.variables.get(ref as string) ?? ref);
+    const snapshot = this.snapshots.get(id);
+    if (!snapshot) {
+      throw new Error(`Unknown cvar snapshot: ${id}`);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Remove a transaction from the open list; defaults to the most recent one
+   */
+  private takeTransaction(ref: unknown): string {
+    const id = ref !== undefined
+      ? String(this.variables.get(ref as string) ?? ref)
+      : this.openTransactions[this.openTransactions.length - 1];
+    if (!id || !this.openTransactions.includes(id)) {
+      throw new Error(`No open cvar transaction${ref !== undefined ? `: ${ref}` : ''}`);
+    }
+    this.openTransactions = this.openTransactions.filter((open) => open !== id);
+    return id;
+  }
+
   /**
    * Wait for a condition to be met
    */
@@ -397,6 +592,17 @@ export class AutomationFramework extends EventEmitter {
     const startTime = Date.now();
     const timeout = condition.timeout || 30000;
 
+    // Cvars are watched through the console stream instead of being queried on every check
+    if (condition.type === 'cvar_value') {
+      return this.watcher.waitFor(
+        this.context.console,
+        condition.params.name as string,
+        this.toComparison(condition.params),
+        timeout,
+        { session: this.context.session }
+      );
+    }
+
     while (Date.now() - startTime < timeout) {
       const met = await this.checkCondition(condition);
       if (met) {
@@ -430,11 +636,6 @@ export class AutomationFramework extends EventEmitter {
         );
       }
 
-      case 'cvar_value': {
-        const cvar = await this.context.console.getCvar(condition.params.name as string);
-        return cvar?.value === condition.params.expected;
-      }
-
       case 'window_exists': {
         const window = await this.context.ui.findWindow(condition.params.title as string);
         return window !== null;
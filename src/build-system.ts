@@ -37,6 +37,7 @@ export class BuildSystem extends EventEmitter {
   private buildProcess: ReturnType<typeof spawn> | null = null;
   private outputBuffer: string[] = [];
   private isBuilding = false;
+  private lastBuildDir: string | null = null;
 
   constructor() {
     super();
@@ -91,6 +92,7 @@ export class BuildSystem extends EventEmitter {
   async configureBuild(config: BuildConfig): Promise<BuildResult> {
     const startTime = Date.now();
     this.outputBuffer = [];
+    this.lastBuildDir = config.buildDir;
 
     if (!existsSync(config.sourceDir)) {
       return {
@@ -179,6 +181,7 @@ export class BuildSystem extends EventEmitter {
   async build(config: BuildConfig): Promise<BuildResult> {
     const startTime = Date.now();
     this.outputBuffer = [];
+    this.lastBuildDir = config.buildDir;
     this.isBuilding = true;
 
     if (!existsSync(config.buildDir)) {
@@ -304,6 +307,26 @@ export class BuildSystem extends EventEmitter {
     };
   }
 
+  /**
+   * Get the build directory of the last configure or build
+   */
+  getLastBuildDir(): string | null {
+    return this.lastBuildDir;
+  }
+
+  /**
+   * Get the source directory a build directory was configured from
+   */
+  getSourceDir(buildDir: string): string | null {
+    const cachePath = join(buildDir, 'CMakeCache.txt');
+    if (!existsSync(cachePath)) {
+      return null;
+    }
+
+    const match = readFileSync(cachePath, 'utf-8').match(/^CMAKE_HOME_DIRECTORY:INTERNAL=(.+)$/m);
+    return match ? match[1].trim() : null;
+  }
+
   /**
    * Get CPU count for parallel builds
    */
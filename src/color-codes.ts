@@ -0,0 +1,131 @@
+/**
+ * OpenMOHAA MCP Server - Color Code Module
+ * Parses Quake color codes (^1red ^7white) into segments and renders them as plain text, ANSI or HTML
+ */
+
+export interface QuakeColor {
+  name: string;
+  ansi: number;
+  hex: string;
+}
+
+/**
+ * The eight engine colors, indexed like ColorIndex() in q_shared.h
+ */
+export const QUAKE_COLORS: QuakeColor[] = [
+  { name: 'black', ansi: 30, hex: '#000000' },
+  { name: 'red', ansi: 31, hex: '#ff0000' },
+  { name: 'green', ansi: 32, hex: '#00ff00' },
+  { name: 'yellow', ansi: 33, hex: '#ffff00' },
+  { name: 'blue', ansi: 34, hex: '#0000ff' },
+  { name: 'cyan', ansi: 36, hex: '#00ffff' },
+  { name: 'magenta', ansi: 35, hex: '#ff00ff' },
+  { name: 'white', ansi: 37, hex: '#ffffff' },
+];
+
+/**
+ * A run of text in one color; `color` is an index into QUAKE_COLORS, or null before any code
+ */
+export interface ColorSegment {
+  text: string;
+  color: number | null;
+}
+
+export type ColorFormat = 'plain' | 'ansi' | 'html';
+
+// A caret followed by a letter or digit, as Q_IsColorString accepts
+const COLOR_CODE_PATTERN = /\^([0-9A-Za-z])/g;
+
+/**
+ * Map a color code character to its color index
+ */
+function colorIndex(code: string): number {
+  return (code.charCodeAt(0) - '0'.charCodeAt(0)) & 7;
+}
+
+/**
+ * Split text into color segments, dropping the codes
+ */
+export function parseColorCodes(text: string): ColorSegment[] {
+  const segments: ColorSegment[] = [];
+  let color: number | null = null;
+  let last = 0;
+
+  const push = (chunk: string) => {
+    if (!chunk) {
+      return;
+    }
+    const previous = segments[segments.length - 1];
+    if (previous && previous.color === color) {
+      previous.text += chunk;
+    } else {
+      segments.push({ text: chunk, color });
+    }
+  };
+
+  for (const match of text.matchAll(COLOR_CODE_PATTERN)) {
+    push(text.slice(last, match.index));
+    color = colorIndex(match[1]);
+    last = match.index! + match[0].length;
+  }
+  push(text.slice(last));
+
+  return segments;
+}
+
+/**
+ * Remove color codes from text
+ */
+export function stripColorCodes(text: string): string {
+  return text.replace(COLOR_CODE_PATTERN, '');
+}
+
+/**
+ * Render segments with ANSI color escapes for terminals
+ */
+export function renderAnsi(segments: ColorSegment[]): string {
+  let colored = false;
+  const text = segments.map((segment) => {
+    if (segment.color === null) {
+      return segment.text;
+    }
+    colored = true;
+    return `\x1b[${QUAKE_COLORS[segment.color].ansi}m${segment.text}`;
+  }).join('');
+
+  return colored ? `${text}\x1b[0m` : text;
+}
+
+/**
+ * Render segments as escaped HTML with a colored span per segment
+ */
+export function renderHtml(segments: ColorSegment[]): string {
+  return segments.map((segment) => {
+    const text = escapeHtml(segment.text);
+    return segment.color === null
+      ? text
+      : `<span style="color:${QUAKE_COLORS[segment.color].hex}">${text}</span>`;
+  }).join('');
+}
+
+/**
+ * Render segments in the given format
+ */
+export function renderSegments(segments: ColorSegment[], format: ColorFormat): string {
+  switch (format) {
+    case 'ansi':
+      return renderAnsi(segments);
+    case 'html':
+      return renderHtml(segments);
+    default:
+      return segments.map((segment) => segment.text).join('');
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,222 @@
+/**
+ * OpenMOHAA MCP Server - Command Parser Module
+ * Splits and tokenizes console lines like the engine and expands aliases and vstr
+ */
+
+export interface CommandLine {
+  text: string;
+  line: number;
+}
+
+export interface ExpandedCommand {
+  /** The command as it would be executed */
+  text: string;
+  args: string[];
+  /** Line of the config the command came from */
+  line: number;
+  /** Aliases and vstr references it was expanded through, outermost first */
+  via: string[];
+}
+
+export interface ExpansionError {
+  line: number;
+  message: string;
+}
+
+export interface ExpansionResult {
+  commands: ExpandedCommand[];
+  /** Alias and cvar names are lower-cased, as the engine looks them up case-insensitively */
+  aliases: Record<string, string>;
+  cvars: Record<string, string>;
+  /** Cvars (lower-cased) read by `vstr` before the text set them, so from `options.cvars` or unknown */
+  inheritedReads: Array<{ name: string; line: number }>;
+  errors: ExpansionError[];
+}
+
+export interface ExpansionOptions {
+  cvars?: Record<string, string>;
+  aliases?: Record<string, string>;
+  maxDepth?: number;
+}
+
+const SET_COMMANDS = ['set', 'seta', 'sets', 'setu'];
+
+/**
+ * Copy a name-keyed map with lower-cased keys
+ */
+function lowerKeys(values: Record<string, string> = {}): Record<string, string> {
+  return Object.fromEntries(Object.entries(values).map(([name, value]) => [name.toLowerCase(), value]));
+}
+
+/**
+ * Split text into commands as the command buffer does: at `;` and line breaks
+ * outside quotes, skipping `//` and `/* *\/` comments
+ */
+export function splitCommandLines(text: string): CommandLine[] {
+  const commands: CommandLine[] = [];
+  let current = '';
+  let start = 1;
+  let line = 1;
+  let quoted = false;
+
+  const push = () => {
+    if (current.trim()) {
+      commands.push({ text: current.trim(), line: start });
+    }
+    current = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (!quoted && char === '/' && text[i + 1] === '/') {
+      while (i + 1 < text.length && text[i + 1] !== '\n') {
+        i++;
+      }
+      continue;
+    }
+    if (!quoted && char === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      line += comment.split('\n').length - 1;
+      i += comment.length - 1;
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = !quoted;
+    }
+
+    if (char === '\n' || char === '\r') {
+      // A quote never spans lines
+      quoted = false;
+      if (char === '\n') {
+        line++;
+      }
+      push();
+    } else if (char === ';' && !quoted) {
+      push();
+    } else {
+      if (!current.trim()) {
+        start = line;
+      }
+      current += char;
+    }
+  }
+  push();
+
+  return commands;
+}
+
+/**
+ * Split one command into arguments: whitespace separates, quotes group
+ * (without escapes), and comments end the command
+ */
+export function tokenizeCommand(command: string): string[] {
+  const tokens: string[] = [];
+  let i = 0;
+
+  while (i < command.length) {
+    while (i < command.length && command[i] <= ' ') {
+      i++;
+    }
+    if (i >= command.length || command.startsWith('//', i)) {
+      break;
+    }
+    if (command.startsWith('/*', i)) {
+      const end = command.indexOf('*/', i + 2);
+      if (end === -1) {
+        break;
+      }
+      i = end + 2;
+      continue;
+    }
+
+    if (command[i] === '"') {
+      const end = command.indexOf('"', i + 1);
+      tokens.push(command.slice(i + 1, end === -1 ? command.length : end));
+      i = end === -1 ? command.length : end + 1;
+      continue;
+    }
+
+    let token = '';
+    while (i < command.length && command[i] > ' ' && command[i] !== '"'
+      && !command.startsWith('//', i) && !command.startsWith('/*', i)) {
+      token += command[i++];
+    }
+    tokens.push(token);
+  }
+
+  return tokens;
+}
+
+/**
+ * Expand a config or command line into the commands the engine would run.
+ * `alias` and `set` definitions are tracked as they appear, alias uses and
+ * `vstr` references are replaced by their contents, and cycles are reported.
+ * Alias and cvar names match case-insensitively, like the engine.
+ */
+export function expandCommands(text: string, options: ExpansionOptions = {}): ExpansionResult {
+  const result: ExpansionResult = {
+    commands: [],
+    aliases: lowerKeys(options.aliases),
+    cvars: lowerKeys(options.cvars),
+    inheritedReads: [],
+    errors: [],
+  };
+  const maxDepth = options.maxDepth ?? 64;
+  const setByText = new Set<string>();
+
+  const run = (source: string, line: number | null, via: string[]) => {
+    for (const command of splitCommandLines(source)) {
+      const commandLine = line ?? command.line;
+      const args = tokenizeCommand(command.text);
+      if (args.length === 0) {
+        continue;
+      }
+
+      const name = args[0].replace(/^[/\\]/, '').toLowerCase();
+      let reference: string | null = null;
+      let body: string | undefined;
+
+      if (name === 'vstr' && args[1] !== undefined) {
+        const cvar = args[1].toLowerCase();
+        reference = `vstr ${cvar}`;
+        body = Object.hasOwn(result.cvars, cvar) ? result.cvars[cvar] : undefined;
+        if (!setByText.has(cvar)) {
+          result.inheritedReads.push({ name: cvar, line: commandLine });
+        }
+        if (body === undefined) {
+          result.errors.push({ line: commandLine, message: `vstr of unknown cvar "${args[1]}"; sent unexpanded` });
+        }
+      } else if (Object.hasOwn(result.aliases, name)) {
+        reference = name;
+        body = result.aliases[name];
+      }
+
+      if (reference !== null && body !== undefined) {
+        if (via.includes(reference)) {
+          result.errors.push({ line: commandLine, message: `Cycle: ${[...via, reference].join(' -> ')}` });
+        } else if (via.length >= maxDepth) {
+          result.errors.push({ line: commandLine, message: `Expansion deeper than ${maxDepth} levels at ${reference}` });
+        } else {
+          run(body, commandLine, [...via, reference]);
+        }
+        continue;
+      }
+
+      if (name === 'alias' && args.length >= 3) {
+        result.aliases[args[1].toLowerCase()] = args.slice(2).join(' ');
+      } else if (SET_COMMANDS.includes(name) && args.length >= 3) {
+        const cvar = args[1].toLowerCase();
+        result.cvars[cvar] = args.slice(2).join(' ');
+        setByText.add(cvar);
+      }
+
+      result.commands.push({ text: command.text, args, line: commandLine, via });
+    }
+  };
+
+  run(text, null, []);
+  return result;
+}
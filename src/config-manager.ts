@@ -5,6 +5,7 @@
 
 import { existsSync, readFileSync, writeFileSync, mkdirSync, readdirSync, statSync, copyFileSync } from 'fs';
 import { join, dirname, basename } from 'path';
+import { homedir } from 'os';
 
 export interface ConfigFile {
   name: string;
@@ -522,6 +523,42 @@ export class ConfigManager {
 
     return { success: true, message: `Applied ${preset} graphics preset` };
   }
+
+  /**
+   * Find the key bound to toggleconsole in the game's configs: the config directory
+   * and the engine's home path (~/.moh/<mod>), player configs first and autoexec.cfg
+   * last, so later binds win as they do in game
+   */
+  findConsoleKey(home = homedir()): { key: string; file: string } | null {
+    const dirs = [this.getConfigDir(), join(home, '.moh', this.modDir)];
+    const files: string[] = [];
+    for (const dir of dirs) {
+      const cfgs = (path: string) => existsSync(path)
+        ? readdirSync(path).filter((f) => f.endsWith('.cfg')).sort().map((f) => join(path, f))
+        : [];
+      const topLevel = cfgs(dir);
+      files.push(
+        ...cfgs(join(dir, 'configs')),
+        ...topLevel.filter((f) => basename(f) !== 'autoexec.cfg'),
+        ...topLevel.filter((f) => basename(f) === 'autoexec.cfg'),
+      );
+    }
+
+    let found: { key: string; file: string } | null = null;
+    for (const file of files) {
+      try {
+        const { binds } = this.parseConfig(readFileSync(file, 'utf-8'));
+        for (const [key, command] of Object.entries(binds)) {
+          if (command.trim().toLowerCase() === 'toggleconsole') {
+            found = { key, file };
+          }
+        }
+      } catch {
+        // Unreadable configs are skipped
+      }
+    }
+    return found;
+  }
 }
 
 export default ConfigManager;
@@ -0,0 +1,309 @@
+/**
+ * OpenMOHAA MCP Server - Console Completion Module
+ * Completes partial console lines and checks commands against the build's inventory
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { EventEmitter } from 'events';
+import { splitCommandLines } from './command-parser.js';
+import type { ConsoleInventory, ConsoleInventoryData } from './console-inventory.js';
+import type { ScriptValidator } from './script-validator.js';
+import type { GameSession } from './session-manager.js';
+import type { CvarInfo, LogLevel } from './types.js';
+
+export interface CommandSignature {
+  name: string;
+  usage: string;
+  description?: string;
+  source: 'engine' | 'commands_list';
+}
+
+export interface Completion {
+  /** The completed token */
+  text: string;
+  /** The whole line with the token completed */
+  line: string;
+  kind: 'command' | 'cvar';
+  value?: string;
+}
+
+export interface CompletionResult {
+  line: string;
+  token: string;
+  argumentIndex: number;
+  completions: Completion[];
+  signature?: CommandSignature;
+  cvar?: CvarInfo;
+  inventoryAvailable: boolean;
+}
+
+/**
+ * Usage of engine commands whose arguments cmdlist does not describe
+ */
+export const ENGINE_SIGNATURES: Record<string, { usage: string; description: string }> = {
+  set: { usage: 'set <cvar> <value>', description: 'Set a cvar, creating it if needed' },
+  seta: { usage: 'seta <cvar> <value>', description: 'Set a cvar and mark it for archiving' },
+  sets: { usage: 'sets <cvar> <value>', description: 'Set a cvar and mark it serverinfo' },
+  setu: { usage: 'setu <cvar> <value>', description: 'Set a cvar and mark it userinfo' },
+  reset: { usage: 'reset <cvar>', description: 'Reset a cvar to its default' },
+  toggle: { usage: 'toggle <cvar> [value...]', description: 'Toggle a cvar between 0 and 1, or cycle through values' },
+  vstr: { usage: 'vstr <cvar>', description: 'Execute the contents of a cvar' },
+  exec: { usage: 'exec <file.cfg>', description: 'Execute a config file' },
+  map: { usage: 'map <map name>', description: 'Load a map, e.g. dm/mohdm1' },
+  devmap: { usage: 'devmap <map name>', description: 'Load a map with cheats enabled' },
+  connect: { usage: 'connect <address[:port]>', description: 'Connect to a server' },
+  bind: { usage: 'bind <key> [command]', description: 'Bind a key to a command, or show its binding' },
+  unbind: { usage: 'unbind <key>', description: 'Remove a key binding' },
+  kick: { usage: 'kick <player name>', description: 'Kick a player by name' },
+  clientkick: { usage: 'clientkick <client number>', description: 'Kick a player by client number' },
+  echo: { usage: 'echo <text>', description: 'Print text to the console' },
+  wait: { usage: 'wait [frames]', description: 'Delay the rest of the command buffer' },
+  condump: { usage: 'condump <file>', description: 'Write the console buffer to a file' },
+  record: { usage: 'record [demo name]', description: 'Start recording a demo' },
+  demo: { usage: 'demo <demo name>', description: 'Play a demo' },
+  cvarlist: { usage: 'cvarlist [match]', description: 'List cvars' },
+  cmdlist: { usage: 'cmdlist [match]', description: 'List commands' },
+};
+
+// Commands whose first argument is a cvar name
+const CVAR_ARGUMENT_COMMANDS = ['set', 'seta', 'sets', 'setu', 'reset', 'toggle', 'vstr'];
+
+/**
+ * Parse a commands.txt event list: `name( type arg, ... )` lines, each optionally
+ * followed by indented description lines; bare names are accepted too
+ */
+export function parseCommandsList(text: string): CommandSignature[] {
+  const signatures: CommandSignature[] = [];
+  let current: CommandSignature | null = null;
+
+  for (const line of text.split('\n')) {
+    const match = line.match(/^\s*([\w+\-.]+)\s*(?:\((.*)\))?\s*$/);
+    const indented = /^\s/.test(line);
+
+    if (match && !(indented && current)) {
+      current = {
+        name: match[1],
+        usage: match[2] !== undefined ? `${match[1]}(${match[2].trim() ? ` ${match[2].trim()} ` : ''})` : match[1],
+        source: 'commands_list',
+      };
+      signatures.push(current);
+    } else if (current && line.trim()) {
+      current.description = current.description ? `${current.description} ${line.trim()}` : line.trim();
+    }
+  }
+
+  return signatures;
+}
+
+/**
+ * The command being typed at the end of a line
+ */
+function lastCommand(line: string): string {
+  let start = 0;
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') {
+      quoted = !quoted;
+    } else if (line[i] === ';' && !quoted) {
+      start = i + 1;
+    }
+  }
+
+  return line.slice(start);
+}
+
+/**
+ * Levenshtein distance, for "did you mean" suggestions
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+export class ConsoleCompleter extends EventEmitter {
+  private inventory: ConsoleInventory;
+  private scriptValidator: ScriptValidator;
+  private commandsList: { path: string; signatures: Map<string, CommandSignature> } | null = null;
+
+  constructor(inventory: ConsoleInventory, scriptValidator: ScriptValidator) {
+    super();
+    this.inventory = inventory;
+    this.scriptValidator = scriptValidator;
+  }
+
+  /**
+   * Check sessions' commands against the inventory before they are sent
+   */
+  attach(session: GameSession): void {
+    session.consoleManager.setCommandCheck((command) => this.check(session, command));
+  }
+
+  /**
+   * Complete the last token of a partial line and describe the command being typed
+   */
+  async complete(session: GameSession, line: string, limit = 20): Promise<CompletionResult> {
+    const inventory = await this.getInventory(session);
+    const command = lastCommand(line);
+    const tokens = command.trim().replace(/^[/\\]/, '').split(/\s+/).filter(Boolean);
+    const endsWithSpace = /\s$/.test(command) || tokens.length === 0;
+    const token = endsWithSpace ? '' : tokens[tokens.length - 1] ?? '';
+    const argumentIndex = endsWithSpace ? tokens.length : tokens.length - 1;
+    const name = argumentIndex > 0 ? tokens[0].toLowerCase() : '';
+
+    const result: CompletionResult = {
+      line,
+      token,
+      argumentIndex,
+      completions: [],
+      inventoryAvailable: inventory !== null,
+    };
+
+    const prefix = line.slice(0, line.length - token.length);
+    const cvars = inventory?.cvars ?? [];
+    const lowerToken = token.toLowerCase();
+
+    if (argumentIndex === 0) {
+      const names = new Set([...(inventory?.commands ?? []), ...Object.keys(ENGINE_SIGNATURES)]);
+      for (const candidate of Array.from(names).sort()) {
+        if (candidate.toLowerCase().startsWith(lowerToken)) {
+          result.completions.push({ text: candidate, line: `${prefix}${candidate}`, kind: 'command' });
+        }
+      }
+      for (const cvar of cvars) {
+        if (cvar.name.toLowerCase().startsWith(lowerToken)) {
+          result.completions.push({ text: cvar.name, line: `${prefix}${cvar.name}`, kind: 'cvar', value: cvar.value });
+        }
+      }
+    } else if (argumentIndex === 1 && CVAR_ARGUMENT_COMMANDS.includes(name)) {
+      for (const cvar of cvars) {
+        if (cvar.name.toLowerCase().startsWith(lowerToken)) {
+          result.completions.push({ text: cvar.name, line: `${prefix}${cvar.name}`, kind: 'cvar', value: cvar.value });
+        }
+      }
+    }
+    result.completions = result.completions.slice(0, limit);
+
+    const typed = (argumentIndex === 0 ? token : tokens[0] ?? '').toLowerCase();
+    result.signature = this.getSignature(typed);
+    const cvarName = CVAR_ARGUMENT_COMMANDS.includes(name) && argumentIndex >= 2 ? tokens[1] : typed;
+    result.cvar = cvars.find((cvar) => cvar.name.toLowerCase() === cvarName?.toLowerCase());
+
+    return result;
+  }
+
+  /**
+   * Warn about the first token of each command in a line that the build does not know.
+   * Returns null when every command is known or no inventory is cached for the build.
+   */
+  check(session: GameSession, line: string): string | null {
+    const inventory = this.inventory.getCached(session.launcher);
+    if (!inventory) {
+      return null;
+    }
+
+    const unknown: string[] = [];
+    for (const { text: command } of splitCommandLines(line)) {
+      const name = command.replace(/^[/\\]/, '').split(/\s+/)[0];
+      if (name && !this.isKnown(inventory, name)) {
+        const suggestions = this.suggest(inventory, name);
+        unknown.push(`Unknown command "${name}"${suggestions.length ? ` (did you mean: ${suggestions.join(', ')}?)` : ''}`);
+      }
+    }
+
+    return unknown.length ? unknown.join('; ') : null;
+  }
+
+  /**
+   * Look up the usage of a command from the engine table or commands.txt
+   */
+  getSignature(name: string): CommandSignature | undefined {
+    const lower = name.toLowerCase();
+    if (Object.hasOwn(ENGINE_SIGNATURES, lower)) {
+      return { name: lower, ...ENGINE_SIGNATURES[lower], source: 'engine' };
+    }
+    return this.getCommandsList().get(name.toLowerCase());
+  }
+
+  private async getInventory(session: GameSession): Promise<ConsoleInventoryData | null> {
+    const cached = this.inventory.getCached(session.launcher);
+    if (cached || !session.launcher.isRunning()) {
+      return cached;
+    }
+
+    try {
+      return await this.inventory.get(session.launcher, session.consoleManager);
+    } catch (error) {
+      this.log('warn', `Failed to list the console inventory: ${error}`);
+      return null;
+    }
+  }
+
+  private isKnown(inventory: ConsoleInventoryData, name: string): boolean {
+    const lower = name.toLowerCase();
+    return Object.hasOwn(ENGINE_SIGNATURES, lower)
+      || inventory.commands.some((command) => command.toLowerCase() === lower)
+      || inventory.cvars.some((cvar) => cvar.name.toLowerCase() === lower);
+  }
+
+  /**
+   * Closest command and cvar names to a mistyped one
+   */
+  private suggest(inventory: ConsoleInventoryData, name: string, count = 3): string[] {
+    const lower = name.toLowerCase();
+    const candidates = [...inventory.commands, ...inventory.cvars.map((cvar) => cvar.name)];
+
+    return candidates
+      .map((candidate) => ({ candidate, distance: editDistance(lower, candidate.toLowerCase()) }))
+      .filter(({ distance }) => distance <= Math.max(2, Math.floor(lower.length / 3)))
+      .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+      .slice(0, count)
+      .map(({ candidate }) => candidate);
+  }
+
+  /**
+   * Signatures from the commands.txt configured for script validation, reloaded when the path changes
+   */
+  private getCommandsList(): Map<string, CommandSignature> {
+    const path = this.scriptValidator.getCommandsListPath();
+    if (this.commandsList?.path === path) {
+      return this.commandsList.signatures;
+    }
+
+    const signatures = new Map<string, CommandSignature>();
+    if (path && existsSync(path)) {
+      try {
+        for (const signature of parseCommandsList(readFileSync(path, 'utf-8'))) {
+          signatures.set(signature.name.toLowerCase(), signature);
+        }
+      } catch (error) {
+        this.log('warn', `Failed to read ${path}: ${error}`);
+      }
+    }
+
+    this.commandsList = { path, signatures };
+    return signatures;
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default ConsoleCompleter;
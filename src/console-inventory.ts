@@ -0,0 +1,220 @@
+/**
+ * OpenMOHAA MCP Server - Console Inventory Module
+ * Lists every cvar and command of a game build via cvarlist/cmdlist
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync, statSync } from 'fs';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import { EventEmitter } from 'events';
+import type { ConsoleManager } from './console-manager.js';
+import type { ProcessLauncher } from './launcher.js';
+import type { CvarInfo, LogLevel } from './types.js';
+
+/**
+ * Flag columns printed by cvarlist, in order
+ */
+export const CVAR_FLAGS: Record<string, string> = {
+  S: 'serverinfo',
+  U: 'userinfo',
+  R: 'rom',
+  I: 'init',
+  A: 'archive',
+  L: 'latched',
+  C: 'cheat',
+  '?': 'user_created',
+};
+
+export interface ConsoleInventoryData {
+  /** Null when the build could not be identified; such inventories are never cached */
+  buildKey: string | null;
+  executablePath: string | null;
+  capturedAt: string;
+  cvars: CvarInfo[];
+  commands: string[];
+}
+
+export interface InventorySearch {
+  query?: string;
+  flags?: string[];
+  limit?: number;
+}
+
+/**
+ * Parse cvarlist output: a column of flag letters, then `name "value"`
+ */
+export function parseCvarList(output: string): CvarInfo[] {
+  const cvars: CvarInfo[] = [];
+
+  for (const line of output.split('\n')) {
+    const match = line.match(/^(.*?)\s*(\S+) "(.*)"\s*$/);
+    if (!match || !/^[A-Z?\s]*$/.test(match[1])) {
+      continue;
+    }
+
+    const [, flagColumn, name, value] = match;
+    cvars.push({
+      name,
+      value,
+      flags: flagColumn.replace(/\s/g, '').split('').map((flag) => CVAR_FLAGS[flag] ?? flag),
+    });
+  }
+
+  return cvars;
+}
+
+/**
+ * Parse cmdlist output: one command per line, then a "N commands" total
+ */
+export function parseCmdList(output: string): string[] {
+  return output
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => /^[\w+\-.]+$/.test(line))
+    .sort();
+}
+
+export class ConsoleInventory extends EventEmitter {
+  private cacheDir: string;
+  private inventories: Map<string, ConsoleInventoryData> = new Map();
+  private listTimeout: number;
+
+  constructor(cacheDir: string, listTimeout = 15000) {
+    super();
+    this.cacheDir = cacheDir;
+    this.listTimeout = listTimeout;
+  }
+
+  /**
+   * Get the inventory for the build a session is running, listing it from the game if not cached
+   */
+  async get(launcher: ProcessLauncher, consoleManager: ConsoleManager, refresh = false): Promise<ConsoleInventoryData> {
+    const executablePath = launcher.getConfig()?.executablePath ?? null;
+    const buildKey = this.getBuildKey(executablePath);
+
+    if (!refresh && buildKey) {
+      const cached = this.inventories.get(buildKey) ?? this.load(buildKey);
+      if (cached) {
+        consoleManager.updateCache(cached.cvars);
+        return cached;
+      }
+    }
+
+    if (!launcher.isRunning()) {
+      throw new Error('Game is not running and no inventory is cached for this build');
+    }
+
+    const cvarList = await consoleManager.sendCommand('cvarlist', true, this.listTimeout);
+    if (!cvarList.success) {
+      throw new Error(`cvarlist failed: ${cvarList.error}`);
+    }
+    const cmdList = await consoleManager.sendCommand('cmdlist', true, this.listTimeout);
+    if (!cmdList.success) {
+      throw new Error(`cmdlist failed: ${cmdList.error}`);
+    }
+
+    const inventory: ConsoleInventoryData = {
+      buildKey,
+      executablePath,
+      capturedAt: new Date().toISOString(),
+      cvars: parseCvarList(cvarList.output),
+      commands: parseCmdList(cmdList.output),
+    };
+
+    if (buildKey) {
+      this.inventories.set(buildKey, inventory);
+      this.save(buildKey, inventory);
+    }
+    consoleManager.updateCache(inventory.cvars);
+    this.log('info', `Inventory for ${executablePath ?? 'unknown build'}: ${inventory.cvars.length} cvars, ${inventory.commands.length} commands`);
+
+    return inventory;
+  }
+
+  /**
+   * Get the cached inventory for the build a session runs, without querying the game
+   */
+  getCached(launcher: ProcessLauncher): ConsoleInventoryData | null {
+    const buildKey = this.getBuildKey(launcher.getConfig()?.executablePath ?? null);
+    return buildKey ? this.inventories.get(buildKey) ?? this.load(buildKey) : null;
+  }
+
+  /**
+   * Find cvars by name or value substring and required flags
+   */
+  searchCvars(inventory: ConsoleInventoryData, search: InventorySearch = {}): CvarInfo[] {
+    const query = search.query?.toLowerCase();
+    const flags = search.flags ?? [];
+
+    return inventory.cvars
+      .filter((cvar) => !query || cvar.name.toLowerCase().includes(query) || cvar.value.toLowerCase().includes(query))
+      .filter((cvar) => flags.every((flag) => cvar.flags?.includes(flag)))
+      .slice(0, search.limit);
+  }
+
+  /**
+   * Find commands by name substring
+   */
+  searchCommands(inventory: ConsoleInventoryData, search: InventorySearch = {}): string[] {
+    const query = search.query?.toLowerCase();
+
+    return inventory.commands
+      .filter((command) => !query || command.toLowerCase().includes(query))
+      .slice(0, search.limit);
+  }
+
+  /**
+   * Identify a build by its executable's path, size and modification time, or return
+   * null when there is no executable to identify it by
+   */
+  private getBuildKey(executablePath: string | null): string | null {
+    if (!executablePath || !existsSync(executablePath)) {
+      return null;
+    }
+
+    const stats = statSync(executablePath);
+    return createHash('sha1')
+      .update(`${executablePath}:${stats.size}:${stats.mtime.getTime()}`)
+      .digest('hex')
+      .slice(0, 16);
+  }
+
+  /**
+   * Load a cached inventory from disk
+   */
+  private load(buildKey: string): ConsoleInventoryData | null {
+    const path = join(this.cacheDir, `${buildKey}.json`);
+    if (!existsSync(path)) {
+      return null;
+    }
+
+    try {
+      const inventory = JSON.parse(readFileSync(path, 'utf-8')) as ConsoleInventoryData;
+      this.inventories.set(buildKey, inventory);
+      return inventory;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Persist an inventory so later server runs can reuse it
+   */
+  private save(buildKey: string, inventory: ConsoleInventoryData): void {
+    try {
+      mkdirSync(this.cacheDir, { recursive: true });
+      writeFileSync(join(this.cacheDir, `${buildKey}.json`), JSON.stringify(inventory));
+    } catch (error) {
+      this.log('warn', `Failed to cache inventory: ${error}`);
+    }
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default ConsoleInventory;
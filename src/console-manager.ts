@@ -5,15 +5,34 @@
 
 import { EventEmitter } from 'events';
 import { existsSync, readFileSync } from 'fs';
+import { expandCommands, type ExpansionResult } from './command-parser.js';
 import type { ProcessLauncher } from './launcher.js';
 import type { CvarInfo, CommandResult, ConsoleOutput } from './types.js';
 
+const SENTINEL_PREFIX = '__MCP_CMD_';
+const UNKNOWN_COMMAND_PATTERN = /^Unknown (?:command|cmd)\b/i;
+
+// Cvar values printed by the game: `"name" is:"value" default:"..."` and `name changed to value`
+const CVAR_VALUE_PATTERNS = [
+  /^"?([\w.]+)"? is:\s*"([^"]*)"/,
+  /^([\w.]+) changed to "?([^"]*?)"?$/,
+];
+
+interface QueuedCommand {
+  command: string;
+  waitForResponse: boolean;
+  timeout: number;
+  resolve: (result: CommandResult) => void;
+}
+
 export class ConsoleManager extends EventEmitter {
   private launcher: ProcessLauncher;
   private cvarCache: Map<string, CvarInfo> = new Map();
-  private commandQueue: Array<{ command: string; resolve: (result: CommandResult) => void }> = [];
+  private commandQueue: QueuedCommand[] = [];
   private processingCommand = false;
+  private nextCommandId = 1;
   private commandTimeout = 5000;
+  private commandCheck: ((command: string) => string | null) | null = null;
 
   // Key bindings for console toggle
   private consoleKey = '`'; // Default console key
@@ -30,84 +49,167 @@ export class ConsoleManager extends EventEmitter {
   }
 
   /**
-   * Send a command to the game console
-   * Uses multiple methods: stdin, FIFO, or key simulation
+   * Send a command to the game console.
+   * Commands are queued and run one at a time. The reply is the output printed
+   * between two echoed sentinels sent before and after the command.
    */
-  async sendCommand(command: string, waitForResponse = true): Promise<CommandResult> {
+  async sendCommand(command: string, waitForResponse = true, timeout = this.commandTimeout): Promise<CommandResult> {
     if (!this.launcher.isRunning()) {
       return {
         success: false,
+        status: 'error',
         output: '',
         error: 'Game is not running',
       };
     }
 
-    return new Promise((resolve) => {
-      // Add marker for tracking response
-      const marker = `__CMD_${Date.now()}_${Math.random().toString(36).slice(2)}__`;
-      const markedCommand = command;
+    // Unknown commands are still sent (aliases and new commands may be missing from
+    // the inventory), but the result carries the warning
+    const warning = this.commandCheck?.(command) ?? null;
+    if (warning) {
+      this.emit('commandWarning', { command, warning });
+    }
 
-      // Try stdin first
-      const stdinSuccess = this.launcher.sendInput(markedCommand);
+    const result = await new Promise<CommandResult>((resolve) => {
+      this.commandQueue.push({ command, waitForResponse, timeout, resolve });
+      this.processQueue();
+    });
+    return warning ? { ...result, warning: result.warning ? `${warning}; ${result.warning}` : warning } : result;
+  }
 
-      if (!stdinSuccess) {
-        // Fall back to key simulation (will be handled by UI controller)
-        this.emit('needKeySimulation', { command: markedCommand, marker });
-      }
+  /**
+   * Set the check run on commands before they are sent; it returns a warning or null
+   */
+  setCommandCheck(check: ((command: string) => string | null) | null): void {
+    this.commandCheck = check;
+  }
 
-      if (!waitForResponse) {
-        resolve({ success: true, output: '', error: undefined });
-        return;
+  /**
+   * Run queued commands in order
+   */
+  private async processQueue(): Promise<void> {
+    if (this.processingCommand) {
+      return;
+    }
+
+    this.processingCommand = true;
+    try {
+      let entry: QueuedCommand | undefined;
+      while ((entry = this.commandQueue.shift())) {
+        entry.resolve(await this.executeCommand(entry.command, entry.waitForResponse, entry.timeout));
       }
+    } finally {
+      this.processingCommand = false;
+    }
+  }
+
+  /**
+   * Send one command and collect its reply between sentinels
+   */
+  private executeCommand(command: string, waitForResponse: boolean, timeout: number): Promise<CommandResult> {
+    if (!this.launcher.isRunning()) {
+      return Promise.resolve({ success: false, status: 'error', output: '', error: 'Game is not running' });
+    }
+
+    if (!waitForResponse) {
+      return Promise.resolve(this.launcher.sendInput(command)
+        ? { success: true, status: 'sent', output: '' }
+        : this.handOffToKeySimulation(command));
+    }
 
-      // Wait for response
-      const startTime = Date.now();
-      const outputBuffer: string[] = [];
-      let commandOutputStarted = false;
+    const id = `${Date.now().toString(36)}${(this.nextCommandId++).toString(36)}`;
+    const beginMarker = `${SENTINEL_PREFIX}${id}_BEGIN__`;
+    const endMarker = `${SENTINEL_PREFIX}${id}_END__`;
+
+    return new Promise((resolve) => {
+      const lines: string[] = [];
+      let started = false;
+
+      const finish = (result: CommandResult) => {
+        clearTimeout(timer);
+        this.launcher.off('output', outputHandler);
+        resolve(result);
+      };
 
       const outputHandler = (output: ConsoleOutput) => {
-        // Collect output after command is sent
-        if (commandOutputStarted || output.text.includes(command.split(' ')[0])) {
-          commandOutputStarted = true;
-          outputBuffer.push(output.text);
+        const text = output.text;
+        if (text.includes(beginMarker)) {
+          started = true;
+          return;
+        }
+        if (!started) {
+          return;
+        }
+        if (text.includes(endMarker)) {
+          finish(this.buildResult(command, lines));
+          return;
+        }
+        // Skip the console's echo of what was typed
+        const typed = text.trim().replace(/^\]/, '');
+        if (typed !== command.trim() && !typed.includes(SENTINEL_PREFIX)) {
+          lines.push(text);
         }
       };
 
+      const timer = setTimeout(() => {
+        finish({
+          success: false,
+          status: 'timeout',
+          output: lines.join('\n'),
+          error: `No response within ${timeout}ms`,
+        });
+      }, timeout);
+
       this.launcher.on('output', outputHandler);
 
-      // Timeout handler
-      const timeout = setTimeout(() => {
-        this.launcher.off('output', outputHandler);
-        resolve({
+      // Only a command that never reached stdin may be typed instead, or it would run twice
+      if (!this.launcher.sendInput(`echo ${beginMarker}`) || !this.launcher.sendInput(command)) {
+        finish(this.handOffToKeySimulation(command));
+      } else if (!this.launcher.sendInput(`echo ${endMarker}`)) {
+        finish({
           success: true,
-          output: outputBuffer.join('\n'),
-          error: outputBuffer.length === 0 ? 'No response received' : undefined,
+          status: 'sent',
+          output: '',
+          warning: 'The command was sent but the end sentinel could not be written, so its reply was not captured',
         });
-      }, this.commandTimeout);
-
-      // Check for command completion (new prompt or specific patterns)
-      const checkComplete = () => {
-        const lastLine = outputBuffer[outputBuffer.length - 1] || '';
-        if (
-          lastLine.includes('>') ||
-          lastLine.includes(']') ||
-          Date.now() - startTime > this.commandTimeout
-        ) {
-          clearTimeout(timeout);
-          this.launcher.off('output', outputHandler);
-          resolve({
-            success: true,
-            output: outputBuffer.join('\n'),
-          });
-        } else {
-          setTimeout(checkComplete, 100);
-        }
-      };
-
-      setTimeout(checkComplete, 500);
+      }
     });
   }
 
+  /**
+   * Pass a command that could not be written to stdin to whoever types into the game
+   * window (the session's UI controller); its reply cannot be captured that way
+   */
+  private handOffToKeySimulation(command: string): CommandResult {
+    if (this.listenerCount('needKeySimulation') === 0) {
+      return { success: false, status: 'error', output: '', error: 'Failed to write to game stdin and no key simulation is available' };
+    }
+
+    this.emit('needKeySimulation', { command });
+    return {
+      success: true,
+      status: 'sent',
+      output: '',
+      warning: 'Game stdin could not be written, so the command is typed into the console by key simulation and its reply is not captured',
+    };
+  }
+
+  /**
+   * Classify the output collected for a command
+   */
+  private buildResult(command: string, lines: string[]): CommandResult {
+    const output = lines.join('\n');
+    if (lines.some((line) => UNKNOWN_COMMAND_PATTERN.test(line.trim()))) {
+      return {
+        success: false,
+        status: 'unknown_command',
+        output,
+        error: `Unknown command: ${command.trim().split(/\s+/)[0]}`,
+      };
+    }
+    return { success: true, status: 'ok', output };
+  }
+
   /**
    * Set a console variable (cvar)
    */
@@ -116,11 +218,7 @@ export class ConsoleManager extends EventEmitter {
     const result = await this.sendCommand(command);
 
     if (result.success) {
-      // Update cache
-      this.cvarCache.set(name, {
-        name,
-        value,
-      });
+      this.updateCvar(name, value);
     }
 
     return result;
@@ -144,24 +242,15 @@ export class ConsoleManager extends EventEmitter {
     const defaultMatch = output.match(/default:\s*"([^"]*)"/i);
 
     if (valueMatch) {
-      const info: CvarInfo = {
-        name,
-        value: valueMatch[1],
-        defaultValue: defaultMatch ? defaultMatch[1] : undefined,
-      };
-      this.cvarCache.set(name, info);
-      return info;
+      const info = this.updateCvar(name, valueMatch[1]);
+      info.defaultValue = defaultMatch ? defaultMatch[1] : undefined;
+      return { ...info };
     }
 
     // Try parsing as simple output
     const lines = output.split('\n').filter((l) => l.trim());
     if (lines.length > 0) {
-      const info: CvarInfo = {
-        name,
-        value: lines[0].trim(),
-      };
-      this.cvarCache.set(name, info);
-      return info;
+      return { ...this.updateCvar(name, lines[0].trim()) };
     }
 
     return null;
@@ -182,6 +271,7 @@ export class ConsoleManager extends EventEmitter {
     if (!existsSync(configPath)) {
       return {
         success: false,
+        status: 'error',
         output: '',
         error: `Config file not found: ${configPath}`,
       };
@@ -191,26 +281,65 @@ export class ConsoleManager extends EventEmitter {
   }
 
   /**
-   * Run a batch of commands from a config file
+   * Run the commands of a config file one at a time, with aliases and vstr expanded
    */
   async runConfigFile(configPath: string): Promise<CommandResult[]> {
+    const expansion = await this.expandConfigFile(configPath);
+
+    const results: CommandResult[] = [];
+    for (const command of expansion.commands) {
+      const result = await this.sendCommand(command.text);
+      results.push(result);
+    }
+
+    return results;
+  }
+
+  /**
+   * Dry-run a config file: the commands it would execute. Cvars that vstr reads before
+   * the file sets them are queried from the game, since cached values may be stale;
+   * ones the game does not answer for are expanded from the cache and reported.
+   */
+  async expandConfigFile(configPath: string): Promise<ExpansionResult> {
     if (!existsSync(configPath)) {
       throw new Error(`Config file not found: ${configPath}`);
     }
 
-    const content = readFileSync(configPath, 'utf-8');
-    const commands = content
-      .split('\n')
-      .map((line) => line.trim())
-      .filter((line) => line && !line.startsWith('//') && !line.startsWith('#'));
+    const text = readFileSync(configPath, 'utf-8');
+    const cvars: Record<string, string> = {};
+    // Keyed like the expansion, which lower-cases cvar names
+    for (const [name, cvar] of this.cvarCache) {
+      cvars[name.toLowerCase()] = cvar.value;
+    }
 
-    const results: CommandResult[] = [];
-    for (const command of commands) {
-      const result = await this.sendCommand(command);
-      results.push(result);
+    // A live value can expand into further vstr reads, so repeat until nothing new is read
+    const queried = new Set<string>();
+    const cached = new Set<string>();
+    let expansion = expandCommands(text, { cvars });
+    let pending = expansion.inheritedReads.filter((read) => !queried.has(read.name));
+    while (pending.length > 0) {
+      for (const { name } of pending) {
+        if (queried.has(name)) {
+          continue;
+        }
+        queried.add(name);
+        const live = await this.getCvar(name);
+        if (live) {
+          cvars[name] = live.value;
+        } else if (cvars[name] !== undefined) {
+          cached.add(name);
+        }
+      }
+      expansion = expandCommands(text, { cvars });
+      pending = expansion.inheritedReads.filter((read) => !queried.has(read.name));
     }
 
-    return results;
+    for (const { name, line } of expansion.inheritedReads) {
+      if (cached.has(name)) {
+        expansion.errors.push({ line, message: `vstr of "${name}" used the cached value; the game did not report a live one` });
+      }
+    }
+    return expansion;
   }
 
   /**
@@ -239,6 +368,20 @@ export class ConsoleManager extends EventEmitter {
     this.consoleOpen = !this.consoleOpen;
   }
 
+  /**
+   * Set the key bound to toggleconsole, as named in the game's config
+   */
+  setConsoleKey(key: string): void {
+    this.consoleKey = key;
+  }
+
+  /**
+   * Get the console key
+   */
+  getConsoleKey(): string {
+    return this.consoleKey;
+  }
+
   /**
    * Open the console (if not already open)
    */
@@ -271,12 +414,13 @@ export class ConsoleManager extends EventEmitter {
       }
     }
 
-    // Detect cvar changes
-    const cvarMatch = text.match(/^(\w+)\s+(?:is:|changed to|=)\s*"?([^"]*)"?/);
-    if (cvarMatch) {
-      const [, name, value] = cvarMatch;
-      this.cvarCache.set(name, { name, value });
-      this.emit('cvarChange', { name, value });
+    // Detect cvar values
+    for (const pattern of CVAR_VALUE_PATTERNS) {
+      const cvarMatch = text.trim().match(pattern);
+      if (cvarMatch) {
+        this.updateCvar(cvarMatch[1], cvarMatch[2]);
+        break;
+      }
     }
 
     // Detect errors
@@ -421,6 +565,29 @@ export class ConsoleManager extends EventEmitter {
     this.cvarCache.clear();
   }
 
+  /**
+   * Cache a cvar value, emitting cvarChange when it differs from the cached one
+   */
+  private updateCvar(name: string, value: string): CvarInfo {
+    const cached = this.cvarCache.get(name);
+    const info: CvarInfo = { ...cached, name, value };
+    this.cvarCache.set(name, info);
+
+    if (cached?.value !== value) {
+      this.emit('cvarChange', { name, value, previous: cached?.value ?? null });
+    }
+    return info;
+  }
+
+  /**
+   * Fill the cvar cache from a full listing
+   */
+  updateCache(cvars: CvarInfo[]): void {
+    for (const cvar of cvars) {
+      this.cvarCache.set(cvar.name, { ...cvar });
+    }
+  }
+
   /**
    * Get all cached cvars
    */
@@ -0,0 +1,426 @@
+/**
+ * OpenMOHAA MCP Server - Console Transcript Module
+ * Tees each session's console stream to rotated transcript files and searches them
+ */
+
+import {
+  appendFileSync,
+  createReadStream,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  readdirSync,
+  statSync,
+  unlinkSync,
+  writeFileSync,
+} from 'fs';
+import { join } from 'path';
+import { createInterface } from 'readline';
+import { EventEmitter } from 'events';
+import type { GameSession } from './session-manager.js';
+import type { ConsoleOutput, LogLevel } from './types.js';
+
+export interface TranscriptLine {
+  session: string;
+  timestamp: string;
+  type: ConsoleOutput['type'];
+  text: string;
+  raw: string;
+}
+
+export interface TranscriptFile {
+  path: string;
+  session: string;
+  first: string;
+  last: string;
+  lines: number;
+  bytes: number;
+}
+
+export interface TranscriptQuery {
+  session?: string;
+  pattern?: string;
+  ignoreCase?: boolean;
+  type?: ConsoleOutput['type'];
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
+export interface TranscriptSearchResult {
+  matches: TranscriptLine[];
+  total: number;
+  filesSearched: number;
+}
+
+interface SessionTranscript {
+  runId: string;
+  part: number;
+  pending: TranscriptLine[];
+  listener: (output: ConsoleOutput) => void;
+  launcher: GameSession['launcher'];
+}
+
+const INDEX_FILE = 'index.json';
+
+/**
+ * Sort lines chronologically in place and keep only the newest `limit`
+ */
+function newest(lines: TranscriptLine[], limit: number): void {
+  lines.sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  lines.splice(0, Math.max(0, lines.length - limit));
+}
+
+export class ConsoleTranscript extends EventEmitter {
+  private dir: string;
+  private maxBytes: number;
+  private maxFiles: number;
+  private flushMs: number;
+  private sessions: Map<string, SessionTranscript> = new Map();
+  private index: Map<string, TranscriptFile> | null = null;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(dir: string, maxBytes = 10 * 1024 * 1024, maxFiles = 10, flushMs = 1000) {
+    super();
+    this.dir = dir;
+    this.maxBytes = maxBytes;
+    this.maxFiles = maxFiles;
+    this.flushMs = flushMs;
+  }
+
+  /**
+   * Start recording a session's console output
+   */
+  attach(session: GameSession): void {
+    if (this.sessions.has(session.id)) {
+      return;
+    }
+
+    const transcript: SessionTranscript = {
+      runId: new Date().toISOString().replace(/[:.]/g, '-'),
+      part: 1,
+      pending: [],
+      launcher: session.launcher,
+      listener: (output) => {
+        transcript.pending.push({
+          session: session.id,
+          timestamp: output.timestamp.toISOString(),
+          type: output.type,
+          text: output.text,
+          raw: output.raw ?? output.text,
+        });
+        this.scheduleFlush();
+      },
+    };
+
+    session.launcher.on('output', transcript.listener);
+    this.sessions.set(session.id, transcript);
+  }
+
+  /**
+   * Stop recording a session, writing out what is still pending
+   */
+  detach(sessionId: string): void {
+    const transcript = this.sessions.get(sessionId);
+    if (!transcript) {
+      return;
+    }
+
+    this.flushSession(sessionId, transcript);
+    transcript.launcher.off('output', transcript.listener);
+    this.sessions.delete(sessionId);
+  }
+
+  /**
+   * Write pending lines of every session to disk
+   */
+  flush(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    for (const [id, transcript] of this.sessions) {
+      this.flushSession(id, transcript);
+    }
+  }
+
+  /**
+   * List transcript files, oldest first
+   */
+  list(session?: string): TranscriptFile[] {
+    return Array.from(this.getIndex().values())
+      .filter((file) => !session || file.session === session)
+      .sort((a, b) => a.first.localeCompare(b.first));
+  }
+
+  /**
+   * Search transcripts by session, time range, stream type and regex.
+   * Pending lines are flushed first, so the live stream is included.
+   * Files are streamed line by line, so large histories do not block the server.
+   * Returns the newest `limit` matches in chronological order.
+   */
+  async search(query: TranscriptQuery = {}): Promise<TranscriptSearchResult> {
+    this.flush();
+
+    const regex = query.pattern ? new RegExp(query.pattern, query.ignoreCase ? 'i' : '') : null;
+    const from = query.from?.toISOString();
+    const to = query.to?.toISOString();
+    const limit = query.limit ?? 100;
+
+    // The index lets files outside the time range be skipped without reading them
+    const files = this.list(query.session)
+      .filter((file) => (!from || file.last >= from) && (!to || file.first <= to));
+
+    const matches: TranscriptLine[] = [];
+    let total = 0;
+
+    for (const file of files) {
+      for await (const line of this.streamFile(file.path)) {
+        if ((from && line.timestamp < from) || (to && line.timestamp > to)) {
+          continue;
+        }
+        if ((query.type && line.type !== query.type) || (regex && !regex.test(line.text))) {
+          continue;
+        }
+
+        total++;
+        matches.push(line);
+        // Files of different sessions overlap in time, so trim by timestamp rather than read order
+        if (matches.length >= limit * 2) {
+          newest(matches, limit);
+        }
+      }
+    }
+
+    newest(matches, limit);
+    return { matches, total, filesSearched: files.length };
+  }
+
+  /**
+   * Get the transcript directory
+   */
+  getDir(): string {
+    return this.dir;
+  }
+
+  /**
+   * Flush and stop recording all sessions
+   */
+  dispose(): void {
+    for (const id of Array.from(this.sessions.keys())) {
+      this.detach(id);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.flush();
+      }, this.flushMs);
+    }
+  }
+
+  /**
+   * Append a session's pending lines to its current file, rotating when it is full
+   */
+  private flushSession(id: string, transcript: SessionTranscript): void {
+    if (transcript.pending.length === 0) {
+      return;
+    }
+
+    const lines = transcript.pending;
+    transcript.pending = [];
+    const index = this.getIndex();
+
+    // Lines are grouped per file so a burst costs one write per file
+    const chunks = new Map<string, string>();
+
+    try {
+      mkdirSync(join(this.dir, id), { recursive: true });
+
+      for (const line of lines) {
+        const json = `${JSON.stringify(line)}\n`;
+        const bytes = Buffer.byteLength(json);
+        let path = this.partPath(id, transcript);
+        let file = index.get(path);
+
+        if (file && file.bytes + bytes > this.maxBytes) {
+          transcript.part++;
+          path = this.partPath(id, transcript);
+          file = undefined;
+          this.log('info', `Rotating transcript of session ${id} to part ${transcript.part}`);
+        }
+
+        if (!file) {
+          file = { path, session: id, first: line.timestamp, last: line.timestamp, lines: 0, bytes: 0 };
+          index.set(path, file);
+        }
+
+        chunks.set(path, (chunks.get(path) ?? '') + json);
+        file.last = line.timestamp;
+        file.lines++;
+        file.bytes += bytes;
+      }
+
+      for (const [path, chunk] of chunks) {
+        appendFileSync(join(this.dir, path), chunk);
+      }
+
+      this.prune(id);
+      writeFileSync(join(this.dir, INDEX_FILE), JSON.stringify(Array.from(index.values()), null, 2));
+    } catch (error) {
+      this.log('warn', `Failed to write transcript for session ${id}: ${error}`);
+    }
+  }
+
+  /**
+   * Delete a session's oldest files beyond the file limit
+   */
+  private prune(session: string): void {
+    const files = this.list(session);
+    const current = this.sessions.get(session);
+    const keep = current ? this.partPath(session, current) : null;
+
+    for (const file of files.slice(0, Math.max(0, files.length - this.maxFiles))) {
+      if (file.path === keep) {
+        continue;
+      }
+      try {
+        unlinkSync(join(this.dir, file.path));
+      } catch {
+        // Already gone
+      }
+      this.index!.delete(file.path);
+    }
+  }
+
+  /**
+   * Relative path of a session's current transcript file
+   */
+  private partPath(session: string, transcript: SessionTranscript): string {
+    return join(session, `${transcript.runId}.${String(transcript.part).padStart(3, '0')}.jsonl`);
+  }
+
+  /**
+   * Load the index, rebuilding entries for files it does not know
+   */
+  private getIndex(): Map<string, TranscriptFile> {
+    if (this.index) {
+      return this.index;
+    }
+
+    this.index = new Map();
+    const indexPath = join(this.dir, INDEX_FILE);
+
+    try {
+      if (existsSync(indexPath)) {
+        for (const file of JSON.parse(readFileSync(indexPath, 'utf-8')) as TranscriptFile[]) {
+          if (existsSync(join(this.dir, file.path))) {
+            this.index.set(file.path, file);
+          }
+        }
+      }
+
+      if (existsSync(this.dir)) {
+        for (const entry of readdirSync(this.dir, { withFileTypes: true })) {
+          if (!entry.isDirectory()) {
+            continue;
+          }
+          for (const name of readdirSync(join(this.dir, entry.name))) {
+            const path = join(entry.name, name);
+            if (name.endsWith('.jsonl') && !this.index.has(path)) {
+              this.indexFile(path, entry.name);
+            }
+          }
+        }
+      }
+    } catch (error) {
+      this.log('warn', `Failed to load transcript index: ${error}`);
+    }
+
+    return this.index;
+  }
+
+  /**
+   * Add an existing file to the index by reading it
+   */
+  private indexFile(path: string, session: string): void {
+    const lines = this.readFile(path);
+    if (lines.length === 0) {
+      return;
+    }
+
+    this.index!.set(path, {
+      path,
+      session,
+      first: lines[0].timestamp,
+      last: lines[lines.length - 1].timestamp,
+      lines: lines.length,
+      bytes: statSync(join(this.dir, path)).size,
+    });
+  }
+
+  /**
+   * Stream the lines of a transcript file, skipping any that are malformed
+   */
+  private async *streamFile(path: string): AsyncGenerator<TranscriptLine> {
+    const input = createReadStream(join(this.dir, path), { encoding: 'utf-8' });
+    const reader = createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const json of reader) {
+        if (!json) {
+          continue;
+        }
+        let line: TranscriptLine;
+        try {
+          line = JSON.parse(json) as TranscriptLine;
+        } catch {
+          // Partial line from an interrupted write
+          continue;
+        }
+        yield line;
+      }
+    } catch (error) {
+      this.log('warn', `Failed to read transcript ${path}: ${error}`);
+    } finally {
+      reader.close();
+      input.destroy();
+    }
+  }
+
+  /**
+   * Read the lines of a transcript file, skipping any that are malformed
+   */
+  private readFile(path: string): TranscriptLine[] {
+    const lines: TranscriptLine[] = [];
+
+    try {
+      for (const json of readFileSync(join(this.dir, path), 'utf-8').split('\n')) {
+        if (!json) {
+          continue;
+        }
+        try {
+          lines.push(JSON.parse(json) as TranscriptLine);
+        } catch {
+          // Partial line from an interrupted write
+        }
+      }
+    } catch (error) {
+      this.log('warn', `Failed to read transcript ${path}: ${error}`);
+    }
+
+    return lines;
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default ConsoleTranscript;
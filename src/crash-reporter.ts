@@ -0,0 +1,402 @@
+/**
+ * OpenMOHAA MCP Server - Crash Reporter Module
+ * Collects core dumps, backtraces and game state when the game crashes
+ */
+
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import {
+  existsSync,
+  readFileSync,
+  writeFileSync,
+  mkdirSync,
+  readdirSync,
+  statSync,
+  renameSync,
+  copyFileSync,
+  unlinkSync,
+} from 'fs';
+import { join, dirname, basename, isAbsolute } from 'path';
+import { EventEmitter } from 'events';
+import type { BuildSystem } from './build-system.js';
+import { SESSION_ID_MESSAGE, isValidSessionId, type GameSession } from './session-manager.js';
+import type { GameCrash, LogLevel } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+export interface CrashBundle {
+  id: string;
+  session: string;
+  timestamp: string;
+  pid: number | null;
+  exitCode: number | null;
+  signal: string | null;
+  executablePath: string;
+  arguments: string[];
+  workingDirectory: string;
+  corePath: string | null;
+  backtrace: string | null;
+  consoleLines: string[];
+  cvars: Record<string, string>;
+  gitInfo: Record<string, string>;
+  notes: string[];
+}
+
+export interface CrashSummary {
+  id: string;
+  session: string;
+  timestamp: string;
+  signal: string | null;
+  exitCode: number | null;
+  hasCore: boolean;
+  hasBacktrace: boolean;
+}
+
+/**
+ * Build a crash ID from the crash time and the session it happened in
+ */
+function crashId(timestamp: Date, session: string): string {
+  return `${timestamp.toISOString().replace(/[:.]/g, '-')}-${session}`;
+}
+
+/**
+ * Check that a crash ID has the form crashId() gives it, so it is safe as a directory name
+ */
+export function isValidCrashId(id: string): boolean {
+  const match = /^\d{4}-\d{2}-\d{2}T\d{2}-\d{2}-\d{2}-\d{3}Z-(.+)$/.exec(id);
+  return match !== null && isValidSessionId(match[1]);
+}
+
+export class CrashReporter extends EventEmitter {
+  private buildSystem: BuildSystem;
+  private crashDir: string;
+  private consoleLines: number;
+  private coreWaitMs: number;
+
+  constructor(buildSystem: BuildSystem, crashDir: string, consoleLines = 200, coreWaitMs = 10000) {
+    super();
+    this.buildSystem = buildSystem;
+    this.crashDir = crashDir;
+    this.consoleLines = consoleLines;
+    this.coreWaitMs = coreWaitMs;
+  }
+
+  /**
+   * Capture a crash bundle whenever the session's game crashes
+   */
+  attach(session: GameSession): void {
+    session.launcher.on('crashed', (crash: GameCrash) => {
+      // Snapshot console and cvars now; a restart may reuse them before collection finishes
+      const consoleLines = session.consoleManager.getRecentOutput(this.consoleLines).map((line) => line.text);
+      const cvars = this.collectCvars(crash.arguments, session);
+
+      this.capture(session.id, crash, consoleLines, cvars).catch((error) => {
+        this.log('error', `Failed to capture crash in session ${session.id}: ${error.message}`);
+      });
+    });
+  }
+
+  /**
+   * Collect the core dump and backtrace for a crash and write the bundle to disk
+   */
+  async capture(
+    session: string,
+    crash: GameCrash,
+    consoleLines: string[],
+    cvars: Record<string, string>
+  ): Promise<CrashBundle> {
+    if (!isValidSessionId(session)) {
+      throw new Error(`Invalid session ID "${session}": ${SESSION_ID_MESSAGE}`);
+    }
+
+    const id = crashId(crash.timestamp, session);
+    const bundleDir = this.bundleDir(id)!;
+    mkdirSync(bundleDir, { recursive: true });
+    this.log('info', `Capturing crash bundle ${id}`);
+
+    const notes: string[] = [];
+    const corePath = await this.collectCore(crash, bundleDir, notes);
+
+    const buildDir = this.buildSystem.getLastBuildDir();
+    const sourceDir = (buildDir && this.buildSystem.getSourceDir(buildDir)) || dirname(crash.executablePath);
+
+    let backtrace: string | null = null;
+    if (corePath) {
+      backtrace = await this.runDebugger(crash.executablePath, corePath, sourceDir, notes);
+    }
+
+    const bundle: CrashBundle = {
+      id,
+      session,
+      timestamp: crash.timestamp.toISOString(),
+      pid: crash.pid,
+      exitCode: crash.exitCode,
+      signal: crash.signal,
+      executablePath: crash.executablePath,
+      arguments: crash.arguments,
+      workingDirectory: crash.workingDirectory,
+      corePath,
+      backtrace,
+      consoleLines,
+      cvars,
+      gitInfo: await this.buildSystem.getGitInfo(sourceDir),
+      notes,
+    };
+
+    writeFileSync(join(bundleDir, 'crash.json'), JSON.stringify(bundle, null, 2));
+    writeFileSync(join(bundleDir, 'console.log'), consoleLines.join('\n') + '\n');
+    if (backtrace) {
+      writeFileSync(join(bundleDir, 'backtrace.txt'), backtrace);
+    }
+
+    this.log('info', `Crash bundle written to ${bundleDir}`);
+    this.emit('crashCaptured', this.summarize(bundle));
+    return bundle;
+  }
+
+  /**
+   * List crash bundles, newest first
+   */
+  list(): CrashSummary[] {
+    if (!existsSync(this.crashDir)) {
+      return [];
+    }
+
+    const summaries: CrashSummary[] = [];
+    for (const entry of readdirSync(this.crashDir)) {
+      const bundle = this.get(entry);
+      if (bundle) {
+        summaries.push(this.summarize(bundle));
+      }
+    }
+
+    return summaries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  /**
+   * Read a crash bundle
+   */
+  get(id: string): CrashBundle | null {
+    const bundleDir = this.bundleDir(id);
+    const bundlePath = bundleDir && join(bundleDir, 'crash.json');
+    if (!bundlePath || !existsSync(bundlePath)) {
+      return null;
+    }
+
+    try {
+      return JSON.parse(readFileSync(bundlePath, 'utf-8')) as CrashBundle;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Set the directory crash bundles are written to
+   */
+  setCrashDir(dir: string): void {
+    this.crashDir = dir;
+  }
+
+  /**
+   * Get the directory crash bundles are written to
+   */
+  getCrashDir(): string {
+    return this.crashDir;
+  }
+
+  /**
+   * Directory of a bundle, or null for an ID that capture() could not have made
+   */
+  private bundleDir(id: string): string | null {
+    return isValidCrashId(id) ? join(this.crashDir, id) : null;
+  }
+
+  /**
+   * Launch-time +set cvars, overridden by values seen in console output
+   */
+  private collectCvars(args: string[], session: GameSession): Record<string, string> {
+    const cvars: Record<string, string> = {};
+
+    for (let i = 0; i < args.length - 2; i++) {
+      if (['+set', '+seta'].includes(args[i])) {
+        cvars[args[i + 1]] = args[i + 2];
+      }
+    }
+    for (const [name, info] of session.consoleManager.getAllCachedCvars()) {
+      cvars[name] = info.value;
+    }
+
+    return cvars;
+  }
+
+  /**
+   * Find the core dump for a crash and move it into the bundle
+   */
+  private async collectCore(crash: GameCrash, bundleDir: string, notes: string[]): Promise<string | null> {
+    if (!crash.signal) {
+      notes.push('The game exited without a signal, so no core dump was written');
+      return null;
+    }
+
+    let pattern = 'core';
+    try {
+      pattern = readFileSync('/proc/sys/kernel/core_pattern', 'utf-8').trim();
+    } catch {
+      // Not Linux or /proc unavailable; assume the kernel default
+    }
+
+    const target = join(bundleDir, 'core');
+    const deadline = Date.now() + this.coreWaitMs;
+
+    // Cores piped to systemd-coredump are retrieved with coredumpctl
+    if (pattern.startsWith('|')) {
+      if (!pattern.includes('systemd-coredump')) {
+        notes.push(`Cores are piped to a handler this server cannot read: ${pattern}`);
+        return null;
+      }
+
+      while (Date.now() < deadline) {
+        try {
+          await execFileAsync('coredumpctl', ['dump', String(crash.pid), '-o', target], { timeout: 60000 });
+          if (existsSync(target)) {
+            return target;
+          }
+        } catch {
+          // The dump may still be being written
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+      }
+
+      notes.push(`coredumpctl has no core for PID ${crash.pid}`);
+      return null;
+    }
+
+    const coreDir = isAbsolute(pattern) ? dirname(pattern) : join(crash.workingDirectory, dirname(pattern));
+    const matcher = this.coreFileMatcher(basename(pattern), crash);
+
+    while (Date.now() < deadline) {
+      const core = this.findNewestCore(coreDir, matcher, crash.startTime);
+      if (core) {
+        try {
+          renameSync(core, target);
+        } catch {
+          // Different filesystem
+          copyFileSync(core, target);
+          unlinkSync(core);
+        }
+        return target;
+      }
+      await new Promise((resolve) => setTimeout(resolve, 500));
+    }
+
+    notes.push(`No core dump found in ${coreDir} (core_pattern: ${pattern}); check that the core size limit is not capped`);
+    return null;
+  }
+
+  /**
+   * Build a regex for core file names from the core_pattern template
+   */
+  private coreFileMatcher(template: string, crash: GameCrash): RegExp {
+    const comm = basename(crash.executablePath).slice(0, 15);
+    const escape = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+    let source = '';
+    for (let i = 0; i < template.length; i++) {
+      if (template[i] !== '%' || i === template.length - 1) {
+        source += escape(template[i]);
+        continue;
+      }
+
+      const specifier = template[++i];
+      if (specifier === 'p' || specifier === 'P') {
+        source += String(crash.pid);
+      } else if (specifier === 'e') {
+        source += escape(comm);
+      } else if (specifier === '%') {
+        source += '%';
+      } else {
+        source += '.*';
+      }
+    }
+
+    // kernel.core_uses_pid appends .PID to templates without %p
+    return new RegExp(`^${source}(\\.${crash.pid})?$`);
+  }
+
+  /**
+   * Find the newest matching file written after the game started
+   */
+  private findNewestCore(dir: string, matcher: RegExp, since: Date | null): string | null {
+    if (!existsSync(dir)) {
+      return null;
+    }
+
+    let newest: { path: string; mtime: number } | null = null;
+    for (const entry of readdirSync(dir)) {
+      if (!matcher.test(entry)) {
+        continue;
+      }
+      const path = join(dir, entry);
+      const mtime = statSync(path).mtime.getTime();
+      if (since && mtime < since.getTime()) {
+        continue;
+      }
+      if (!newest || mtime > newest.mtime) {
+        newest = { path, mtime };
+      }
+    }
+
+    return newest?.path ?? null;
+  }
+
+  /**
+   * Produce a symbolized backtrace of all threads with gdb, falling back to lldb
+   */
+  private async runDebugger(executable: string, corePath: string, sourceDir: string, notes: string[]): Promise<string | null> {
+    const options = { timeout: 120000, maxBuffer: 32 * 1024 * 1024 };
+
+    try {
+      const { stdout } = await execFileAsync(
+        'gdb',
+        ['--batch', '-nx', '-ex', 'set pagination off', '-ex', `directory ${sourceDir}`, '-ex', 'thread apply all bt full', executable, corePath],
+        options
+      );
+      return stdout;
+    } catch (error) {
+      notes.push(`gdb failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    try {
+      const { stdout } = await execFileAsync('lldb', ['--batch', '-c', corePath, executable, '-o', 'thread backtrace all'], options);
+      return stdout;
+    } catch (error) {
+      notes.push(`lldb failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    return null;
+  }
+
+  /**
+   * Summarize a bundle for listings
+   */
+  private summarize(bundle: CrashBundle): CrashSummary {
+    return {
+      id: bundle.id,
+      session: bundle.session,
+      timestamp: bundle.timestamp,
+      signal: bundle.signal,
+      exitCode: bundle.exitCode,
+      hasCore: bundle.corePath !== null,
+      hasBacktrace: bundle.backtrace !== null,
+    };
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default CrashReporter;
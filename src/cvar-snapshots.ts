@@ -0,0 +1,224 @@
+/**
+ * OpenMOHAA MCP Server - Cvar Snapshot Module
+ * Snapshots all cvars, diffs snapshots and restores them, including transactions
+ */
+
+import { EventEmitter } from 'events';
+import { parseCvarList } from './console-inventory.js';
+import type { ConsoleManager } from './console-manager.js';
+import type { CvarInfo, LogLevel } from './types.js';
+
+export interface CvarSnapshot {
+  id: string;
+  name?: string;
+  capturedAt: string;
+  cvars: CvarInfo[];
+}
+
+export interface CvarDiff {
+  added: Array<{ name: string; value: string }>;
+  removed: Array<{ name: string; value: string }>;
+  changed: Array<{ name: string; from: string; to: string }>;
+}
+
+export interface CvarRestoreResult {
+  success: boolean;
+  restored: string[];
+  skipped: string[];
+  failed: Array<{ name: string; error: string }>;
+}
+
+export interface CvarTransaction {
+  id: string;
+  snapshotId: string;
+  startedAt: string;
+}
+
+// Cvars the game does not let the console change
+const READ_ONLY_FLAGS = ['rom', 'init'];
+
+export class CvarSnapshotManager extends EventEmitter {
+  private snapshots: Map<string, CvarSnapshot> = new Map();
+  private transactions: Map<string, { info: CvarTransaction; consoleManager: ConsoleManager }> = new Map();
+  private nextSnapshotId = 1;
+  private nextTransactionId = 1;
+  private listTimeout: number;
+
+  constructor(listTimeout = 15000) {
+    super();
+    this.listTimeout = listTimeout;
+  }
+
+  /**
+   * Snapshot every cvar by parsing cvarlist
+   */
+  async capture(consoleManager: ConsoleManager, name?: string): Promise<CvarSnapshot> {
+    const result = await consoleManager.sendCommand('cvarlist', true, this.listTimeout);
+    if (!result.success) {
+      throw new Error(`cvarlist failed: ${result.error}`);
+    }
+
+    const snapshot: CvarSnapshot = {
+      id: `snap-${this.nextSnapshotId++}`,
+      name,
+      capturedAt: new Date().toISOString(),
+      cvars: parseCvarList(result.output),
+    };
+    this.snapshots.set(snapshot.id, snapshot);
+    consoleManager.updateCache(snapshot.cvars);
+
+    this.log('info', `Captured cvar snapshot ${snapshot.id} (${snapshot.cvars.length} cvars)`);
+    return snapshot;
+  }
+
+  /**
+   * Get a snapshot by ID
+   */
+  get(id: string): CvarSnapshot | undefined {
+    return this.snapshots.get(id);
+  }
+
+  /**
+   * List snapshots without their cvar values
+   */
+  list(): Array<Omit<CvarSnapshot, 'cvars'> & { cvarCount: number }> {
+    return Array.from(this.snapshots.values()).map(({ cvars, ...snapshot }) => ({
+      ...snapshot,
+      cvarCount: cvars.length,
+    }));
+  }
+
+  /**
+   * Delete a snapshot
+   */
+  delete(id: string): boolean {
+    return this.snapshots.delete(id);
+  }
+
+  /**
+   * Compare two snapshots
+   */
+  diff(from: CvarSnapshot, to: CvarSnapshot): CvarDiff {
+    const before = new Map(from.cvars.map((cvar) => [cvar.name, cvar.value]));
+    const after = new Map(to.cvars.map((cvar) => [cvar.name, cvar.value]));
+    const diff: CvarDiff = { added: [], removed: [], changed: [] };
+
+    for (const [name, value] of after) {
+      if (!before.has(name)) {
+        diff.added.push({ name, value });
+      } else if (before.get(name) !== value) {
+        diff.changed.push({ name, from: before.get(name)!, to: value });
+      }
+    }
+    for (const [name, value] of before) {
+      if (!after.has(name)) {
+        diff.removed.push({ name, value });
+      }
+    }
+
+    return diff;
+  }
+
+  /**
+   * Set every cvar that differs from the snapshot back to its snapshot value
+   */
+  async restore(consoleManager: ConsoleManager, snapshot: CvarSnapshot): Promise<CvarRestoreResult> {
+    const current = await this.capture(consoleManager);
+    this.snapshots.delete(current.id);
+
+    const flags = new Map(snapshot.cvars.map((cvar) => [cvar.name, cvar.flags ?? []]));
+    const result: CvarRestoreResult = { success: true, restored: [], skipped: [], failed: [] };
+
+    for (const change of this.diff(snapshot, current).changed) {
+      if (flags.get(change.name)?.some((flag) => READ_ONLY_FLAGS.includes(flag))) {
+        result.skipped.push(change.name);
+        continue;
+      }
+
+      const set = await consoleManager.setCvar(change.name, change.from);
+      if (set.success) {
+        result.restored.push(change.name);
+      } else {
+        result.failed.push({ name: change.name, error: set.error || set.status });
+      }
+    }
+
+    result.success = result.failed.length === 0;
+    this.log('info', `Restored ${result.restored.length} cvars from ${snapshot.id}`);
+    return result;
+  }
+
+  /**
+   * Start a transaction: later changes are undone by rollback
+   */
+  async begin(consoleManager: ConsoleManager, name?: string): Promise<CvarTransaction> {
+    const snapshot = await this.capture(consoleManager, name);
+    const info: CvarTransaction = {
+      id: `tx-${this.nextTransactionId++}`,
+      snapshotId: snapshot.id,
+      startedAt: new Date().toISOString(),
+    };
+    this.transactions.set(info.id, { info, consoleManager });
+    return info;
+  }
+
+  /**
+   * Keep a transaction's changes
+   */
+  commit(id: string): boolean {
+    const transaction = this.transactions.get(id);
+    if (!transaction) {
+      return false;
+    }
+
+    this.transactions.delete(id);
+    this.snapshots.delete(transaction.info.snapshotId);
+    return true;
+  }
+
+  /**
+   * Undo a transaction's changes
+   */
+  async rollback(id: string): Promise<CvarRestoreResult> {
+    const transaction = this.transactions.get(id);
+    if (!transaction) {
+      throw new Error(`Unknown transaction: ${id}`);
+    }
+
+    this.transactions.delete(id);
+    const snapshot = this.snapshots.get(transaction.info.snapshotId);
+    if (!snapshot) {
+      throw new Error(`Snapshot ${transaction.info.snapshotId} of transaction ${id} no longer exists`);
+    }
+    this.snapshots.delete(snapshot.id);
+    return this.restore(transaction.consoleManager, snapshot);
+  }
+
+  /**
+   * Run a block of changes, restoring the original values afterwards whether or not it succeeds
+   */
+  async withTransaction<T>(consoleManager: ConsoleManager, block: () => Promise<T>): Promise<T> {
+    const transaction = await this.begin(consoleManager);
+    try {
+      return await block();
+    } finally {
+      await this.rollback(transaction.id);
+    }
+  }
+
+  /**
+   * List open transactions
+   */
+  listTransactions(): CvarTransaction[] {
+    return Array.from(this.transactions.values()).map(({ info }) => ({ ...info }));
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default CvarSnapshotManager;
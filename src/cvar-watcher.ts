@@ -0,0 +1,373 @@
+/**
+ * OpenMOHAA MCP Server - Cvar Watcher Module
+ * Watches cvars through the console stream and shared polling, with comparisons
+ */
+
+import { EventEmitter } from 'events';
+import type { ConsoleManager } from './console-manager.js';
+import type { LogLevel } from './types.js';
+
+export type CvarComparison =
+  | { op: 'equals'; value: string }
+  | { op: 'not_equals'; value: string }
+  | { op: 'matches'; pattern: string }
+  | { op: 'between'; min?: number; max?: number }
+  | { op: 'changed'; from?: string };
+
+export interface CvarWatchOptions {
+  session?: string;
+  comparison?: CvarComparison;
+  pollMs?: number;
+}
+
+export interface CvarWatchInfo {
+  id: string;
+  session: string;
+  name: string;
+  comparison: CvarComparison | null;
+  pollMs: number;
+  value: string | null;
+  matched: boolean;
+  lastChange: Date | null;
+}
+
+export interface CvarChangeEvent {
+  id: string;
+  session: string;
+  name: string;
+  from: string | null;
+  to: string;
+  matched: boolean;
+  timestamp: Date;
+}
+
+interface Watch {
+  info: CvarWatchInfo;
+  consoleManager: ConsoleManager;
+  initial: string | null;
+  pattern: RegExp | null;
+  listener: (change: { name: string; value: string }) => void;
+}
+
+/**
+ * Check a cvar value against a comparison; `initial` is the value when watching began
+ * and `pattern` the precompiled regex of a 'matches' comparison
+ */
+export function compareCvar(
+  value: string,
+  comparison: CvarComparison,
+  initial: string | null,
+  pattern?: RegExp | null
+): boolean {
+  switch (comparison.op) {
+    case 'equals':
+      return value === comparison.value;
+    case 'not_equals':
+      return value !== comparison.value;
+    case 'matches':
+      return (pattern ?? new RegExp(comparison.pattern)).test(value);
+    case 'between': {
+      const number = parseFloat(value);
+      return !isNaN(number)
+        && (comparison.min === undefined || number >= comparison.min)
+        && (comparison.max === undefined || number <= comparison.max);
+    }
+    case 'changed': {
+      const from = comparison.from ?? initial;
+      return from !== null && value !== from;
+    }
+  }
+}
+
+export class CvarWatcher extends EventEmitter {
+  private watches: Map<string, Watch> = new Map();
+  private lastPoll: Map<string, number> = new Map();
+  private polling: Set<string> = new Set();
+  private consoleIds: WeakMap<ConsoleManager, number> = new WeakMap();
+  private nextConsoleId = 1;
+  private recentEvents: CvarChangeEvent[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private nextId = 1;
+  private tickMs: number;
+  private maxEvents = 50;
+
+  constructor(tickMs = 250) {
+    super();
+    this.tickMs = tickMs;
+  }
+
+  /**
+   * Start watching a cvar. Changes printed to the console are picked up at once;
+   * polling fills the gaps, with one query per cvar no matter how many watches share it.
+   * Throws if a 'matches' pattern is not a valid regex.
+   */
+  watch(consoleManager: ConsoleManager, name: string, options: CvarWatchOptions = {}): CvarWatchInfo {
+    const pattern = options.comparison?.op === 'matches' ? new RegExp(options.comparison.pattern) : null;
+    const id = `watch-${this.nextId++}`;
+    const info: CvarWatchInfo = {
+      id,
+      session: options.session ?? 'default',
+      name,
+      comparison: options.comparison ?? null,
+      pollMs: options.pollMs ?? 1000,
+      value: null,
+      matched: false,
+      lastChange: null,
+    };
+
+    const watch: Watch = {
+      info,
+      consoleManager,
+      initial: null,
+      pattern,
+      listener: (change) => {
+        if (change.name === name) {
+          this.update(watch, change.value);
+        }
+      },
+    };
+
+    consoleManager.on('cvarChange', watch.listener);
+    this.watches.set(id, watch);
+
+    if (!this.timer) {
+      this.timer = setInterval(() => this.tick(), this.tickMs);
+    }
+    this.poll(this.groupKey(watch));
+
+    return { ...info };
+  }
+
+  /**
+   * Stop a watch
+   */
+  unwatch(id: string): boolean {
+    const watch = this.watches.get(id);
+    if (!watch) {
+      return false;
+    }
+
+    watch.consoleManager.off('cvarChange', watch.listener);
+    this.watches.delete(id);
+
+    const key = this.groupKey(watch);
+    if (!Array.from(this.watches.values()).some((other) => this.groupKey(other) === key)) {
+      this.lastPoll.delete(key);
+    }
+
+    if (this.watches.size === 0 && this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    return true;
+  }
+
+  /**
+   * Stop all watches of a session, or all watches
+   */
+  unwatchAll(session?: string): void {
+    for (const watch of Array.from(this.watches.values())) {
+      if (!session || watch.info.session === session) {
+        this.unwatch(watch.info.id);
+      }
+    }
+  }
+
+  /**
+   * Get a watch
+   */
+  get(id: string): CvarWatchInfo | undefined {
+    const watch = this.watches.get(id);
+    return watch ? { ...watch.info } : undefined;
+  }
+
+  /**
+   * List active watches
+   */
+  list(): CvarWatchInfo[] {
+    return Array.from(this.watches.values()).map((watch) => ({ ...watch.info }));
+  }
+
+  /**
+   * Recent change events, newest last
+   */
+  getRecentEvents(): CvarChangeEvent[] {
+    return [...this.recentEvents];
+  }
+
+  /**
+   * Wait until a cvar satisfies a comparison
+   */
+  async waitFor(
+    consoleManager: ConsoleManager,
+    name: string,
+    comparison: CvarComparison,
+    timeout = 30000,
+    options: { session?: string; pollMs?: number; signal?: AbortSignal } = {}
+  ): Promise<boolean> {
+    const info = this.watch(consoleManager, name, {
+      session: options.session,
+      comparison,
+      pollMs: options.pollMs ?? 500,
+    });
+
+    return new Promise((resolve) => {
+      const finish = (matched: boolean) => {
+        clearTimeout(timer);
+        this.off('match', onMatch);
+        options.signal?.removeEventListener('abort', onAbort);
+        this.unwatch(info.id);
+        resolve(matched);
+      };
+      const onMatch = (event: CvarChangeEvent) => {
+        if (event.id === info.id) {
+          finish(true);
+        }
+      };
+      const onAbort = () => finish(false);
+      const timer = setTimeout(() => finish(false), timeout);
+
+      this.on('match', onMatch);
+      options.signal?.addEventListener('abort', onAbort, { once: true });
+      if (this.watches.get(info.id)?.info.matched) {
+        finish(true);
+      }
+    });
+  }
+
+  /**
+   * Stop polling and remove all watches
+   */
+  dispose(): void {
+    this.unwatchAll();
+  }
+
+  /**
+   * Apply a new value to a watch; a watch that fails is logged and dropped so the
+   * console stream feeding it keeps running
+   */
+  private update(watch: Watch, value: string): void {
+    try {
+      this.applyValue(watch, value);
+    } catch (error) {
+      this.log('error', `Dropping ${watch.info.id} on ${watch.info.name}: ${error instanceof Error ? error.message : String(error)}`);
+      this.unwatch(watch.info.id);
+    }
+  }
+
+  /**
+   * Record a new value and emit change/match events
+   */
+  private applyValue(watch: Watch, value: string): void {
+    const { info } = watch;
+    if (info.value === value) {
+      return;
+    }
+
+    const from = info.value;
+    info.value = value;
+    if (watch.initial === null) {
+      watch.initial = value;
+    }
+
+    const wasMatched = info.matched;
+    info.matched = info.comparison ? compareCvar(value, info.comparison, watch.initial, watch.pattern) : false;
+
+    if (from !== null) {
+      info.lastChange = new Date();
+      const event: CvarChangeEvent = {
+        id: info.id,
+        session: info.session,
+        name: info.name,
+        from,
+        to: value,
+        matched: info.matched,
+        timestamp: info.lastChange,
+      };
+      this.recentEvents.push(event);
+      if (this.recentEvents.length > this.maxEvents) {
+        this.recentEvents.shift();
+      }
+      this.emit('change', event);
+    }
+
+    if (info.matched && !wasMatched) {
+      this.emit('match', {
+        id: info.id,
+        session: info.session,
+        name: info.name,
+        from,
+        to: value,
+        matched: true,
+        timestamp: new Date(),
+      } satisfies CvarChangeEvent);
+    }
+  }
+
+  /**
+   * Poll every cvar whose shortest watch interval has elapsed
+   */
+  private tick(): void {
+    const now = Date.now();
+    const due = new Map<string, number>();
+
+    for (const watch of this.watches.values()) {
+      const key = this.groupKey(watch);
+      due.set(key, Math.min(due.get(key) ?? Infinity, watch.info.pollMs));
+    }
+
+    for (const [key, interval] of due) {
+      if (now - (this.lastPoll.get(key) ?? 0) >= interval) {
+        this.poll(key);
+      }
+    }
+  }
+
+  /**
+   * Query a cvar once and feed the value to every watch on it
+   */
+  private poll(key: string): void {
+    const group = Array.from(this.watches.values()).filter((watch) => this.groupKey(watch) === key);
+    if (group.length === 0 || this.polling.has(key)) {
+      return;
+    }
+
+    this.polling.add(key);
+    this.lastPoll.set(key, Date.now());
+
+    group[0].consoleManager.getCvar(group[0].info.name)
+      .then((cvar) => {
+        if (cvar) {
+          for (const watch of group) {
+            if (this.watches.has(watch.info.id)) {
+              this.update(watch, cvar.value);
+            }
+          }
+        }
+      })
+      .catch((error) => this.log('warn', `Failed to poll ${group[0].info.name}: ${error}`))
+      .finally(() => this.polling.delete(key));
+  }
+
+  /**
+   * Watches share a poll when they read the same cvar through the same console,
+   * so a session label can never route one game's values to another
+   */
+  private groupKey(watch: Watch): string {
+    let consoleId = this.consoleIds.get(watch.consoleManager);
+    if (consoleId === undefined) {
+      consoleId = this.nextConsoleId++;
+      this.consoleIds.set(watch.consoleManager, consoleId);
+    }
+    return `${consoleId}:${watch.info.name}`;
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default CvarWatcher;
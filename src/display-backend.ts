@@ -0,0 +1,870 @@
+/**
+ * OpenMOHAA MCP Server - Display Backend Module
+ * Input, window and capture primitives for X11 (xdotool, ImageMagick) and
+ * Wayland (ydotool, wtype, grim and compositor IPC)
+ */
+
+import { execSync } from 'child_process';
+import type { MouseButton } from './input-macros.js';
+import { KeyboardLayout, layoutFromDescription, parseXkbQuery, type KeyStroke } from './keyboard-layout.js';
+import type { MonitorInfo, MousePosition, ScreenRegion, WindowInfo } from './types.js';
+
+export type DisplayServer = 'x11' | 'wayland' | 'unknown';
+
+export type ExecFn = (command: string) => Promise<{ stdout: string; stderr: string }>;
+
+/**
+ * What a backend can do on this system; unsupported operations throw
+ */
+export interface DisplayFeatures {
+  /** Moving the pointer to screen coordinates */
+  absolutePointer: boolean;
+  /** Reading the pointer position */
+  pointerPosition: boolean;
+  keyboard: boolean;
+  /** Typing characters the keyboard layout has no key for */
+  unicodeText: boolean;
+  /** Finding windows and reading their geometry */
+  windowGeometry: boolean;
+  windowFocus: boolean;
+  windowMinimize: boolean;
+  /** Moving and resizing windows */
+  windowPlacement: boolean;
+  /** Listing monitors and where they sit in screen coordinates */
+  monitorLayout: boolean;
+  screenCapture: boolean;
+  /** Capturing one window rather than the screen or a region */
+  windowCapture: boolean;
+  /** Seeing input sent to other clients, for macro recording */
+  inputRecording: boolean;
+}
+
+export interface DisplayBackendInfo {
+  server: 'x11' | 'wayland';
+  /** Compositor whose IPC is used for window geometry (Wayland only) */
+  compositor: 'sway' | 'hyprland' | null;
+  features: DisplayFeatures;
+  tools: { input: string[]; capture: string[] };
+  installCommand: string;
+}
+
+export type CaptureTarget =
+  | { type: 'screen' }
+  | { type: 'window'; window: WindowInfo }
+  | { type: 'region'; region: ScreenRegion };
+
+export interface CaptureOptions {
+  format?: 'png' | 'jpeg';
+  quality?: number;
+}
+
+export interface DisplayBackend {
+  readonly server: 'x11' | 'wayland';
+  getInfo(): DisplayBackendInfo;
+  /** Find a window by owning process, falling back to a title search */
+  findWindow(query: { pid?: number | null; title: string }): Promise<WindowInfo | null>;
+  getActiveWindowId(): Promise<string | null>;
+  focusWindow(id: string): Promise<void>;
+  minimizeWindow(id: string): Promise<void>;
+  /** Move and resize a window's client area; fields left out keep their current value */
+  setWindowGeometry(window: WindowInfo, geometry: Partial<ScreenRegion>): Promise<void>;
+  listMonitors(): Promise<MonitorInfo[]>;
+  moveMouse(x: number, y: number): Promise<void>;
+  moveMouseRelative(dx: number, dy: number): Promise<void>;
+  /** Move to coordinates relative to a window's top-left corner */
+  moveMouseInWindow(window: WindowInfo, x: number, y: number): Promise<void>;
+  getMousePosition(): Promise<MousePosition>;
+  click(button: MouseButton, repeat?: number): Promise<void>;
+  mouseDown(button: MouseButton): Promise<void>;
+  mouseUp(button: MouseButton): Promise<void>;
+  scroll(direction: 'up' | 'down', clicks: number): Promise<void>;
+  /** Keys are X keysym names (Return, grave, a), pressed where the active layout has them */
+  pressKey(key: string): Promise<void>;
+  keyDown(key: string): Promise<void>;
+  keyUp(key: string): Promise<void>;
+  /** Press keys together, modifiers first, e.g. ['ctrl', 'c'] */
+  pressCombo(keys: string[]): Promise<void>;
+  typeText(text: string, delay: number): Promise<void>;
+  /** Press a physical key, whatever the layout maps to it */
+  pressKeycode(stroke: KeyStroke): Promise<void>;
+  /** The layout keys and text are mapped through, read once per backend */
+  getKeyboardLayout(): Promise<KeyboardLayout>;
+  capture(target: CaptureTarget, path: string, options?: CaptureOptions): Promise<void>;
+  getScreenResolution(): Promise<{ width: number; height: number }>;
+}
+
+/**
+ * Detect the display server from the environment
+ */
+export function detectDisplayServer(env: NodeJS.ProcessEnv = process.env): DisplayServer {
+  const xdgSession = env.XDG_SESSION_TYPE?.toLowerCase();
+
+  if (xdgSession === 'wayland' || env.WAYLAND_DISPLAY) {
+    return 'wayland';
+  }
+  if (xdgSession === 'x11' || env.DISPLAY) {
+    return 'x11';
+  }
+  return 'unknown';
+}
+
+/**
+ * Create the backend for a display. A bound display (e.g. a headless Xvfb) is
+ * always X11; an unknown session gets the X11 backend, as before backends existed.
+ */
+export function createDisplayBackend(
+  exec: ExecFn,
+  display: string | null = null,
+  env: NodeJS.ProcessEnv = process.env
+): DisplayBackend {
+  if (!display && detectDisplayServer(env) === 'wayland') {
+    return new WaylandBackend(exec, env);
+  }
+  return new X11Backend(exec, env);
+}
+
+/**
+ * Quote a word for /bin/sh
+ */
+function quote(word: string): string {
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * The layout forced with OPENMOHAA_KEYBOARD_LAYOUT, if any
+ */
+function layoutOverride(env: NodeJS.ProcessEnv): KeyboardLayout | null {
+  const name = env.OPENMOHAA_KEYBOARD_LAYOUT;
+  if (!name) {
+    return null;
+  }
+  const layout = KeyboardLayout.builtin(name);
+  if (!layout) {
+    throw new Error(`Unknown OPENMOHAA_KEYBOARD_LAYOUT "${name}"; built-in layouts: ${KeyboardLayout.builtinNames().join(', ')}`);
+  }
+  return layout;
+}
+
+function hasCommand(tool: string): boolean {
+  try {
+    execSync(`which ${tool}`, { stdio: 'pipe' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const X11_BUTTONS: Record<MouseButton, number> = { left: 1, middle: 2, right: 3 };
+
+/**
+ * xdotool key argument for a stroke; xdotool takes a bare number as a keycode
+ */
+function xdotoolKey(stroke: KeyStroke): string {
+  return [...(stroke.shift ? ['shift'] : []), ...(stroke.altgr ? ['ISO_Level3_Shift'] : []), String(stroke.keycode)].join('+');
+}
+
+export class X11Backend implements DisplayBackend {
+  readonly server = 'x11';
+  private exec: ExecFn;
+  private env: NodeJS.ProcessEnv;
+  private layout: Promise<KeyboardLayout> | null = null;
+
+  constructor(exec: ExecFn, env: NodeJS.ProcessEnv = process.env) {
+    this.exec = exec;
+    this.env = env;
+  }
+
+  getInfo(): DisplayBackendInfo {
+    return {
+      server: 'x11',
+      compositor: null,
+      features: {
+        absolutePointer: true,
+        pointerPosition: true,
+        keyboard: true,
+        unicodeText: true,
+        windowGeometry: true,
+        windowFocus: true,
+        windowMinimize: true,
+        windowPlacement: true,
+        monitorLayout: true,
+        screenCapture: true,
+        windowCapture: true,
+        inputRecording: true,
+      },
+      tools: { input: ['xdotool', 'xwininfo', 'xprop', 'xrandr'], capture: ['import'] },
+      installCommand: 'sudo apt install xdotool imagemagick x11-utils x11-xserver-utils',
+    };
+  }
+
+  async findWindow(query: { pid?: number | null; title: string }): Promise<WindowInfo | null> {
+    let windowId = '';
+    if (query.pid) {
+      const { stdout } = await this.exec(`xdotool search --onlyvisible --pid ${query.pid} 2>/dev/null | head -1`);
+      windowId = stdout.trim();
+    }
+    if (!windowId) {
+      const { stdout } = await this.exec(`xdotool search --name ${quote(query.title)} 2>/dev/null | head -1`);
+      windowId = stdout.trim();
+    }
+    if (!windowId) {
+      return null;
+    }
+
+    // xwininfo gives the client area's position on the root window, inside any decorations
+    const { stdout: info } = await this.exec(`xwininfo -id ${windowId}`);
+    const field = (name: string) => parseInt(info.match(new RegExp(`${name}:\\s*(-?\\d+)`))?.[1] ?? '0');
+
+    return {
+      id: windowId,
+      title: query.title,
+      x: field('Absolute upper-left X'),
+      y: field('Absolute upper-left Y'),
+      width: field('Width'),
+      height: field('Height'),
+      focused: (await this.getActiveWindowId()) === windowId,
+    };
+  }
+
+  /**
+   * Without a window manager (a headless Xvfb) there is no active window and xdotool fails
+   */
+  async getActiveWindowId(): Promise<string | null> {
+    try {
+      const { stdout } = await this.exec('xdotool getactivewindow');
+      return stdout.trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * windowactivate goes through an EWMH window manager; without one (a headless Xvfb)
+   * the window is raised and given input focus directly
+   */
+  async focusWindow(id: string): Promise<void> {
+    try {
+      await this.exec(`xdotool windowactivate ${id}`);
+    } catch {
+      await this.exec(`xdotool windowraise ${id} windowfocus ${id}`);
+    }
+  }
+
+  async minimizeWindow(id: string): Promise<void> {
+    await this.exec(`xdotool windowminimize ${id}`);
+  }
+
+  async setWindowGeometry(window: WindowInfo, geometry: Partial<ScreenRegion>): Promise<void> {
+    if (geometry.width !== undefined || geometry.height !== undefined) {
+      await this.exec(`xdotool windowsize ${window.id} ${geometry.width ?? window.width} ${geometry.height ?? window.height}`);
+    }
+    if (geometry.x !== undefined || geometry.y !== undefined) {
+      // Window managers put the frame where the client asks to be, so step back by the decorations
+      const frame = await this.frameExtents(window.id);
+      await this.exec(`xdotool windowmove ${window.id} ${(geometry.x ?? window.x) - frame.left} ${(geometry.y ?? window.y) - frame.top}`);
+    }
+  }
+
+  async listMonitors(): Promise<MonitorInfo[]> {
+    // " 1: +*DP-1 1920/527x1080/296+1920+0  DP-1"
+    const { stdout } = await this.exec('xrandr --listmonitors');
+    return stdout.split('\n')
+      .map((line) => line.match(/^\s*\d+:\s+\+?(\*?)(\S+)\s+(\d+)\/\d+x(\d+)\/\d+([+-]\d+)([+-]\d+)/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => ({
+        name: match[2],
+        x: parseInt(match[5]),
+        y: parseInt(match[6]),
+        width: parseInt(match[3]),
+        height: parseInt(match[4]),
+        primary: match[1] === '*',
+      }));
+  }
+
+  async moveMouse(x: number, y: number): Promise<void> {
+    await this.exec(`xdotool mousemove ${x} ${y}`);
+  }
+
+  async moveMouseRelative(dx: number, dy: number): Promise<void> {
+    await this.exec(`xdotool mousemove_relative -- ${dx} ${dy}`);
+  }
+
+  async moveMouseInWindow(window: WindowInfo, x: number, y: number): Promise<void> {
+    await this.exec(`xdotool mousemove --window ${window.id} ${x} ${y}`);
+  }
+
+  async getMousePosition(): Promise<MousePosition> {
+    const { stdout } = await this.exec('xdotool getmouselocation');
+    const xMatch = stdout.match(/x:(\d+)/);
+    const yMatch = stdout.match(/y:(\d+)/);
+    return { x: xMatch ? parseInt(xMatch[1]) : 0, y: yMatch ? parseInt(yMatch[1]) : 0 };
+  }
+
+  async click(button: MouseButton, repeat = 1): Promise<void> {
+    await this.exec(repeat > 1
+      ? `xdotool click --repeat ${repeat} --delay 50 ${X11_BUTTONS[button]}`
+      : `xdotool click ${X11_BUTTONS[button]}`);
+  }
+
+  async mouseDown(button: MouseButton): Promise<void> {
+    await this.exec(`xdotool mousedown ${X11_BUTTONS[button]}`);
+  }
+
+  async mouseUp(button: MouseButton): Promise<void> {
+    await this.exec(`xdotool mouseup ${X11_BUTTONS[button]}`);
+  }
+
+  async scroll(direction: 'up' | 'down', clicks: number): Promise<void> {
+    await this.exec(`xdotool click --repeat ${clicks} ${direction === 'up' ? 4 : 5}`);
+  }
+
+  async pressKey(key: string): Promise<void> {
+    await this.exec(`xdotool key ${quote(await this.keyArgument(key))}`);
+  }
+
+  async keyDown(key: string): Promise<void> {
+    await this.exec(`xdotool keydown ${quote(await this.keyArgument(key))}`);
+  }
+
+  async keyUp(key: string): Promise<void> {
+    await this.exec(`xdotool keyup ${quote(await this.keyArgument(key))}`);
+  }
+
+  async pressCombo(keys: string[]): Promise<void> {
+    const key = await this.keyArgument(keys[keys.length - 1]);
+    await this.exec(`xdotool key ${quote([...keys.slice(0, -1), key].join('+'))}`);
+  }
+
+  /**
+   * Characters on the layout are typed by keycode. The rest go to `xdotool type`,
+   * which briefly maps a spare keycode to each of them.
+   */
+  async typeText(text: string, delay: number): Promise<void> {
+    for (const run of (await this.getKeyboardLayout()).splitText(text)) {
+      await this.exec(run.strokes
+        ? `xdotool key --delay ${delay} ${run.strokes.map(xdotoolKey).join(' ')}`
+        : `xdotool type --delay ${delay} -- ${quote(run.text)}`);
+    }
+  }
+
+  async pressKeycode(stroke: KeyStroke): Promise<void> {
+    await this.exec(`xdotool key ${xdotoolKey(stroke)}`);
+  }
+
+  getKeyboardLayout(): Promise<KeyboardLayout> {
+    this.layout ??= this.loadKeyboardLayout();
+    return this.layout;
+  }
+
+  async capture(target: CaptureTarget, path: string, options: CaptureOptions = {}): Promise<void> {
+    const quality = options.format === 'jpeg' ? ` -quality ${options.quality ?? 90}` : '';
+    switch (target.type) {
+      case 'screen':
+        await this.exec(`import -window root${quality} ${quote(path)}`);
+        break;
+      case 'window':
+        await this.exec(`import -window ${target.window.id}${quality} ${quote(path)}`);
+        break;
+      case 'region': {
+        const { x, y, width, height } = target.region;
+        await this.exec(`import -window root -crop ${width}x${height}+${x}+${y}${quality} ${quote(path)}`);
+        break;
+      }
+    }
+  }
+
+  async getScreenResolution(): Promise<{ width: number; height: number }> {
+    const { stdout } = await this.exec("xdpyinfo | grep dimensions | awk '{print $2}'");
+    const [width, height] = stdout.trim().split('x').map(Number);
+    return { width, height };
+  }
+
+  /**
+   * Left and top decoration sizes from _NET_FRAME_EXTENTS ("left, right, top, bottom")
+   */
+  private async frameExtents(id: string): Promise<{ left: number; top: number }> {
+    const { stdout } = await this.exec(`xprop -id ${id} _NET_FRAME_EXTENTS`).catch(() => ({ stdout: '' }));
+    const [left, , top] = (stdout.match(/=\s*(.*)$/m)?.[1] ?? '').split(',').map((n) => parseInt(n));
+    return { left: left || 0, top: top || 0 };
+  }
+
+  /**
+   * The keycode for a keysym on the layout, or the keysym for xdotool to resolve
+   */
+  private async keyArgument(key: string): Promise<string> {
+    const stroke = (await this.getKeyboardLayout()).lookup(key);
+    return stroke ? xdotoolKey(stroke) : key;
+  }
+
+  /**
+   * Read the server's keymap; the built-in table for the layout name is the fallback
+   */
+  private async loadKeyboardLayout(): Promise<KeyboardLayout> {
+    const override = layoutOverride(this.env);
+    if (override) {
+      return override;
+    }
+
+    const { stdout: query } = await this.exec('setxkbmap -query').catch(() => ({ stdout: '' }));
+    const name = parseXkbQuery(query).layout ?? 'us';
+    const { stdout: keymap } = await this.exec('xmodmap -pke').catch(() => ({ stdout: '' }));
+    if (keymap.trim()) {
+      return KeyboardLayout.fromXmodmap(name, keymap);
+    }
+    return KeyboardLayout.builtin(name) ?? KeyboardLayout.builtin('us')!;
+  }
+}
+
+/**
+ * Linux input event codes for keys that are the same on every layout, for ydotool;
+ * character keys come from the keyboard layout
+ */
+const EVDEV_KEYCODES: Record<string, number> = {
+  escape: 1, backspace: 14, tab: 15, return: 28, control_l: 29, ctrl: 29, shift_l: 42, shift: 42,
+  shift_r: 54, alt_l: 56, alt: 56, space: 57, caps_lock: 58, num_lock: 69, scroll_lock: 70, f11: 87, f12: 88,
+  control_r: 97, print: 99, alt_r: 100, iso_level3_shift: 100, home: 102, up: 103, prior: 104, page_up: 104,
+  left: 105, right: 106, end: 107, down: 108, next: 109, page_down: 109, insert: 110, delete: 111,
+  pause: 119, super_l: 125, super: 125,
+  ...Object.fromEntries(Array.from({ length: 10 }, (_, i) => [`f${i + 1}`, 59 + i])),
+};
+
+const EVDEV_SHIFT = 42;
+const EVDEV_ALTGR = 100;
+
+/**
+ * Evdev codes held for a stroke, modifiers first
+ */
+function evdevCodes(stroke: KeyStroke): number[] {
+  return [...(stroke.shift ? [EVDEV_SHIFT] : []), ...(stroke.altgr ? [EVDEV_ALTGR] : []), stroke.keycode - 8];
+}
+
+/**
+ * ydotool key events pressing codes in order and releasing them in reverse
+ */
+function ydotoolPress(codes: number[]): string {
+  return [...codes.map((code) => `${code}:1`), ...[...codes].reverse().map((code) => `${code}:0`)].join(' ');
+}
+
+/**
+ * Top-left corner of the area the monitors cover
+ */
+function layoutOrigin(monitors: MonitorInfo[]): { x: number; y: number } {
+  return monitors.length > 0
+    ? { x: Math.min(...monitors.map((m) => m.x)), y: Math.min(...monitors.map((m) => m.y)) }
+    : { x: 0, y: 0 };
+}
+
+/** ydotool click codes: button index, with 0x40 for press and 0x80 for release */
+const YDOTOOL_BUTTONS: Record<MouseButton, number> = { left: 0x00, right: 0x01, middle: 0x02 };
+
+const WTYPE_MODIFIERS: Record<string, string> = { ctrl: 'ctrl', alt: 'alt', shift: 'shift', super: 'logo' };
+
+interface CompositorWindow {
+  id: string;
+  title: string;
+  pid: number;
+  /** Client area, without borders and title bar */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  focused: boolean;
+  /** Offset of the client area inside the container the compositor positions */
+  offset: { x: number; y: number };
+}
+
+interface SwayNode {
+  id: number;
+  type: string;
+  name: string | null;
+  pid?: number;
+  focused: boolean;
+  visible?: boolean;
+  rect: { x: number; y: number; width: number; height: number };
+  /** Client area relative to rect */
+  window_rect?: { x: number; y: number; width: number; height: number };
+  nodes?: SwayNode[];
+  floating_nodes?: SwayNode[];
+}
+
+/**
+ * Wayland gives clients no access to other windows or global input, so input goes
+ * through ydotool (uinput) or wtype (virtual keyboard), capture through grim, and
+ * window geometry through the compositor's IPC where it has one (sway, Hyprland).
+ */
+export class WaylandBackend implements DisplayBackend {
+  readonly server = 'wayland';
+  private exec: ExecFn;
+  private compositor: 'sway' | 'hyprland' | null;
+  private env: NodeJS.ProcessEnv;
+  private tools: Record<'ydotool' | 'wtype' | 'grim', boolean> | null = null;
+  private layout: Promise<KeyboardLayout> | null = null;
+  /** Top-left corner of the output layout, where ydotool's absolute moves start */
+  private origin: Promise<{ x: number; y: number }> | null = null;
+
+  constructor(exec: ExecFn, env: NodeJS.ProcessEnv = process.env) {
+    this.exec = exec;
+    this.env = env;
+    this.compositor = env.SWAYSOCK ? 'sway' : env.HYPRLAND_INSTANCE_SIGNATURE ? 'hyprland' : null;
+  }
+
+  getInfo(): DisplayBackendInfo {
+    const tools = this.availableTools();
+    const ipc = this.compositor !== null;
+    return {
+      server: 'wayland',
+      compositor: this.compositor,
+      features: {
+        absolutePointer: tools.ydotool,
+        pointerPosition: this.compositor === 'hyprland',
+        keyboard: tools.wtype || tools.ydotool,
+        unicodeText: tools.wtype,
+        windowGeometry: ipc,
+        windowFocus: ipc,
+        windowMinimize: false,
+        windowPlacement: ipc,
+        monitorLayout: ipc,
+        screenCapture: tools.grim,
+        windowCapture: tools.grim && ipc,
+        inputRecording: false,
+      },
+      tools: {
+        input: ['ydotool', ...(this.compositor === 'sway' ? ['swaymsg'] : this.compositor === 'hyprland' ? ['hyprctl'] : [])],
+        capture: ['grim'],
+      },
+      installCommand: 'sudo apt install ydotool wtype grim imagemagick',
+    };
+  }
+
+  async findWindow(query: { pid?: number | null; title: string }): Promise<WindowInfo | null> {
+    const windows = await this.listWindows();
+    const window = (query.pid ? windows.find((w) => w.pid === query.pid) : undefined)
+      ?? windows.find((w) => w.title.includes(query.title));
+    if (!window) {
+      return null;
+    }
+
+    return { id: window.id, title: window.title, x: window.x, y: window.y, width: window.width, height: window.height, focused: window.focused };
+  }
+
+  async getActiveWindowId(): Promise<string | null> {
+    return (await this.listWindows()).find((window) => window.focused)?.id ?? null;
+  }
+
+  async focusWindow(id: string): Promise<void> {
+    switch (this.requireCompositor('Focusing windows')) {
+      case 'sway':
+        await this.exec(`swaymsg ${quote(`[con_id=${id}] focus`)}`);
+        break;
+      case 'hyprland':
+        await this.exec(`hyprctl dispatch focuswindow ${quote(`address:${id}`)}`);
+        break;
+    }
+  }
+
+  async minimizeWindow(): Promise<void> {
+    throw new Error('Minimizing windows is not supported on Wayland');
+  }
+
+  /**
+   * Tiled windows are made floating first, since only floating windows can be placed
+   */
+  async setWindowGeometry(window: WindowInfo, geometry: Partial<ScreenRegion>): Promise<void> {
+    const compositor = this.requireCompositor('Placing windows');
+    const current = (await this.listWindows()).find((w) => w.id === window.id);
+    if (!current) {
+      throw new Error(`Window ${window.id} is gone`);
+    }
+    const width = geometry.width ?? current.width;
+    const height = geometry.height ?? current.height;
+    const x = (geometry.x ?? current.x) - current.offset.x;
+    const y = (geometry.y ?? current.y) - current.offset.y;
+
+    switch (compositor) {
+      case 'sway':
+        await this.exec(`swaymsg ${quote(`[con_id=${window.id}] floating enable, resize set width ${width} px height ${height} px, move absolute position ${x} px ${y} px`)}`);
+        break;
+      case 'hyprland': {
+        const target = `address:${window.id}`;
+        await this.exec(`hyprctl --batch ${quote([
+          `dispatch setfloating ${target}`,
+          `dispatch resizewindowpixel exact ${width} ${height},${target}`,
+          `dispatch movewindowpixel exact ${x} ${y},${target}`,
+        ].join('; '))}`);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Wayland has no primary monitor; the focused output is reported as primary
+   */
+  async listMonitors(): Promise<MonitorInfo[]> {
+    let monitors: MonitorInfo[];
+    switch (this.requireCompositor('Listing monitors')) {
+      case 'sway': {
+        const { stdout } = await this.exec('swaymsg -r -t get_outputs');
+        const outputs = JSON.parse(stdout) as Array<{ name: string; active: boolean; focused: boolean; rect: ScreenRegion }>;
+        monitors = outputs.filter((o) => o.active).map((o) => ({ name: o.name, ...o.rect, primary: o.focused }));
+        break;
+      }
+      case 'hyprland': {
+        // Sizes are in mode pixels; the layout is in logical pixels
+        const { stdout } = await this.exec('hyprctl monitors -j');
+        const outputs = JSON.parse(stdout) as Array<ScreenRegion & { name: string; scale: number; focused: boolean }>;
+        monitors = outputs.map((o) => ({
+          name: o.name,
+          x: o.x,
+          y: o.y,
+          width: Math.round(o.width / o.scale),
+          height: Math.round(o.height / o.scale),
+          primary: o.focused,
+        }));
+        break;
+      }
+    }
+
+    this.origin = Promise.resolve(layoutOrigin(monitors));
+    return monitors;
+  }
+
+  /**
+   * Coordinates are in the compositor's layout; ydotool counts from its top-left corner
+   */
+  async moveMouse(x: number, y: number): Promise<void> {
+    const origin = await this.layoutOrigin();
+    await this.exec(`ydotool mousemove --absolute -x ${x - origin.x} -y ${y - origin.y}`);
+  }
+
+  async moveMouseRelative(dx: number, dy: number): Promise<void> {
+    await this.exec(`ydotool mousemove -x ${dx} -y ${dy}`);
+  }
+
+  async moveMouseInWindow(window: WindowInfo, x: number, y: number): Promise<void> {
+    await this.moveMouse(window.x + x, window.y + y);
+  }
+
+  async getMousePosition(): Promise<MousePosition> {
+    if (this.compositor !== 'hyprland') {
+      throw new Error(`Reading the pointer position is not supported on ${this.compositor ?? 'this Wayland compositor'}`);
+    }
+    const { stdout } = await this.exec('hyprctl cursorpos');
+    const [x, y] = stdout.split(',').map((n) => parseInt(n));
+    return { x, y };
+  }
+
+  async click(button: MouseButton, repeat = 1): Promise<void> {
+    await this.exec(`ydotool click --repeat ${repeat} --next-delay 50 0x${(YDOTOOL_BUTTONS[button] | 0xc0).toString(16)}`);
+  }
+
+  async mouseDown(button: MouseButton): Promise<void> {
+    await this.exec(`ydotool click 0x${(YDOTOOL_BUTTONS[button] | 0x40).toString(16)}`);
+  }
+
+  async mouseUp(button: MouseButton): Promise<void> {
+    await this.exec(`ydotool click 0x${(YDOTOOL_BUTTONS[button] | 0x80).toString(16)}`);
+  }
+
+  async scroll(direction: 'up' | 'down', clicks: number): Promise<void> {
+    await this.exec(`ydotool mousemove --wheel -x 0 -y ${direction === 'up' ? clicks : -clicks}`);
+  }
+
+  // wtype sends keysyms with a keymap of its own, so only ydotool needs the layout
+
+  async pressKey(key: string): Promise<void> {
+    await this.exec(this.availableTools().wtype
+      ? `wtype -k ${quote(key)}`
+      : `ydotool key ${ydotoolPress(await this.evdevCodes(key))}`);
+  }
+
+  async keyDown(key: string): Promise<void> {
+    await this.exec(this.availableTools().wtype
+      ? `wtype -P ${quote(key)}`
+      : `ydotool key ${(await this.evdevCodes(key)).map((code) => `${code}:1`).join(' ')}`);
+  }
+
+  async keyUp(key: string): Promise<void> {
+    await this.exec(this.availableTools().wtype
+      ? `wtype -p ${quote(key)}`
+      : `ydotool key ${(await this.evdevCodes(key)).reverse().map((code) => `${code}:0`).join(' ')}`);
+  }
+
+  async pressCombo(keys: string[]): Promise<void> {
+    const modifiers = keys.slice(0, -1);
+    const key = keys[keys.length - 1];
+
+    if (this.availableTools().wtype) {
+      const held = modifiers.map((m) => WTYPE_MODIFIERS[m.toLowerCase()] ?? m);
+      await this.exec(['wtype', ...held.map((m) => `-M ${m}`), `-k ${quote(key)}`, ...held.reverse().map((m) => `-m ${m}`)].join(' '));
+    } else {
+      const codes: number[] = [];
+      for (const k of keys) {
+        codes.push(...await this.evdevCodes(k));
+      }
+      await this.exec(`ydotool key ${ydotoolPress(codes)}`);
+    }
+  }
+
+  async typeText(text: string, delay: number): Promise<void> {
+    if (this.availableTools().wtype) {
+      await this.exec(`wtype -d ${delay} -- ${quote(text)}`);
+      return;
+    }
+
+    const layout = await this.getKeyboardLayout();
+    const runs = layout.splitText(text);
+    const missing = runs.find((run) => !run.strokes);
+    if (missing) {
+      throw new Error(`Cannot type "${missing.text}" with the ${layout.name} layout; install wtype to type any character`);
+    }
+    const events = runs.flatMap((run) => run.strokes!).map((stroke) => ydotoolPress(evdevCodes(stroke)));
+    await this.exec(`ydotool key --key-delay ${delay} ${events.join(' ')}`);
+  }
+
+  async pressKeycode(stroke: KeyStroke): Promise<void> {
+    await this.exec(`ydotool key ${ydotoolPress(evdevCodes(stroke))}`);
+  }
+
+  getKeyboardLayout(): Promise<KeyboardLayout> {
+    this.layout ??= this.loadKeyboardLayout();
+    return this.layout;
+  }
+
+  async capture(target: CaptureTarget, path: string, options: CaptureOptions = {}): Promise<void> {
+    const format = options.format === 'jpeg' ? ` -t jpeg -q ${options.quality ?? 90}` : '';
+    const region = target.type === 'window' ? target.window : target.type === 'region' ? target.region : null;
+    const geometry = region ? ` -g ${quote(`${region.x},${region.y} ${region.width}x${region.height}`)}` : '';
+    await this.exec(`grim${format}${geometry} ${quote(path)}`);
+  }
+
+  async getScreenResolution(): Promise<{ width: number; height: number }> {
+    const outputs = await this.listMonitors();
+    if (outputs.length === 0) {
+      throw new Error('No outputs reported by the compositor');
+    }
+    return {
+      width: Math.max(...outputs.map((o) => o.x + o.width)) - Math.min(...outputs.map((o) => o.x)),
+      height: Math.max(...outputs.map((o) => o.y + o.height)) - Math.min(...outputs.map((o) => o.y)),
+    };
+  }
+
+  /**
+   * Layout origin, read once; without compositor IPC the layout is assumed to start at 0,0
+   */
+  private layoutOrigin(): Promise<{ x: number; y: number }> {
+    this.origin ??= this.compositor
+      ? this.listMonitors().then(layoutOrigin, () => ({ x: 0, y: 0 }))
+      : Promise.resolve({ x: 0, y: 0 });
+    return this.origin;
+  }
+
+  /**
+   * Mapped windows with their owning PIDs, from the compositor
+   */
+  private async listWindows(): Promise<CompositorWindow[]> {
+    switch (this.requireCompositor('Finding windows')) {
+      case 'sway': {
+        const { stdout } = await this.exec('swaymsg -r -t get_tree');
+        const windows: CompositorWindow[] = [];
+        const walk = (node: SwayNode) => {
+          if ((node.type === 'con' || node.type === 'floating_con') && node.pid && node.visible !== false) {
+            const content = node.window_rect ?? { x: 0, y: 0, width: node.rect.width, height: node.rect.height };
+            windows.push({
+              id: String(node.id),
+              title: node.name ?? '',
+              pid: node.pid,
+              x: node.rect.x + content.x,
+              y: node.rect.y + content.y,
+              width: content.width,
+              height: content.height,
+              focused: node.focused,
+              offset: { x: content.x, y: content.y },
+            });
+          }
+          [...(node.nodes ?? []), ...(node.floating_nodes ?? [])].forEach(walk);
+        };
+        walk(JSON.parse(stdout) as SwayNode);
+        return windows;
+      }
+      case 'hyprland': {
+        const [{ stdout: clients }, { stdout: active }] = await Promise.all([
+          this.exec('hyprctl clients -j'),
+          this.exec('hyprctl activewindow -j'),
+        ]);
+        const activeAddress = (JSON.parse(active || '{}') as { address?: string }).address;
+        return (JSON.parse(clients) as Array<{ address: string; title: string; pid: number; mapped: boolean; hidden: boolean; at: [number, number]; size: [number, number] }>)
+          .filter((client) => client.mapped && !client.hidden)
+          .map((client) => ({
+            id: client.address,
+            title: client.title,
+            pid: client.pid,
+            x: client.at[0],
+            y: client.at[1],
+            width: client.size[0],
+            height: client.size[1],
+            focused: client.address === activeAddress,
+            // Hyprland draws borders outside at/size
+            offset: { x: 0, y: 0 },
+          }));
+      }
+    }
+  }
+
+  private requireCompositor(operation: string): 'sway' | 'hyprland' {
+    if (!this.compositor) {
+      throw new Error(`${operation} on Wayland needs compositor IPC; only sway and Hyprland are supported`);
+    }
+    return this.compositor;
+  }
+
+  /**
+   * Evdev codes for a keysym: its position on the layout, or a key every layout shares
+   */
+  private async evdevCodes(key: string): Promise<number[]> {
+    const layout = await this.getKeyboardLayout();
+    const stroke = layout.lookup(key);
+    if (stroke) {
+      return evdevCodes(stroke);
+    }
+    const code = EVDEV_KEYCODES[key.toLowerCase()];
+    if (code === undefined) {
+      throw new Error(`No key for "${key}" on the ${layout.name} layout; install wtype to press any keysym`);
+    }
+    return [code];
+  }
+
+  /**
+   * Compositors do not expose the keymap, so the layout name picks a built-in table
+   */
+  private async loadKeyboardLayout(): Promise<KeyboardLayout> {
+    const override = layoutOverride(this.env);
+    if (override) {
+      return override;
+    }
+
+    let name: string | null = null;
+    try {
+      if (this.compositor === 'sway') {
+        const { stdout } = await this.exec('swaymsg -r -t get_inputs');
+        const keyboard = (JSON.parse(stdout) as Array<{ type: string; xkb_active_layout_name?: string }>)
+          .find((input) => input.type === 'keyboard' && input.xkb_active_layout_name);
+        name = keyboard ? layoutFromDescription(keyboard.xkb_active_layout_name!) : null;
+      } else if (this.compositor === 'hyprland') {
+        const { stdout } = await this.exec('hyprctl devices -j');
+        const keyboards = (JSON.parse(stdout) as { keyboards: Array<{ main?: boolean; active_keymap: string }> }).keyboards;
+        const keyboard = keyboards.find((k) => k.main) ?? keyboards[0];
+        name = keyboard ? layoutFromDescription(keyboard.active_keymap) : null;
+      }
+    } catch {
+      // Fall back to the environment
+    }
+    name ??= this.env.XKB_DEFAULT_LAYOUT?.split(',')[0] || 'us';
+
+    return KeyboardLayout.builtin(name) ?? KeyboardLayout.builtin('us')!;
+  }
+
+  private availableTools(): Record<'ydotool' | 'wtype' | 'grim', boolean> {
+    this.tools ??= { ydotool: hasCommand('ydotool'), wtype: hasCommand('wtype'), grim: hasCommand('grim') };
+    return this.tools;
+  }
+}
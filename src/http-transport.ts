@@ -0,0 +1,264 @@
+/**
+ * OpenMOHAA MCP Server - HTTP Transport Module
+ * Serves MCP over streamable HTTP (SSE for server notifications) so several
+ * clients can attach to the same long-lived game components
+ */
+
+import { createServer, IncomingMessage, ServerResponse, Server as NodeHttpServer } from 'http';
+import { AddressInfo } from 'net';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { EventEmitter } from 'events';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import type { LogLevel } from './types.js';
+
+export interface HttpTransportConfig {
+  host: string;
+  port: number;
+  path?: string;
+  token?: string;
+  maxBodyBytes?: number;
+}
+
+const DEFAULT_MAX_BODY_BYTES = 4 * 1024 * 1024;
+const BODY_TOO_LARGE = Symbol('bodyTooLarge');
+
+interface HttpSession {
+  transport: StreamableHTTPServerTransport;
+  server: Server;
+}
+
+export class HttpTransport extends EventEmitter {
+  private config: HttpTransportConfig;
+  private createMcpServer: () => Server;
+  private httpServer: NodeHttpServer | null = null;
+  private sessions: Map<string, HttpSession> = new Map();
+
+  constructor(config: HttpTransportConfig, createMcpServer: () => Server) {
+    super();
+    this.config = { path: '/mcp', maxBodyBytes: DEFAULT_MAX_BODY_BYTES, ...config };
+    this.createMcpServer = createMcpServer;
+  }
+
+  /**
+   * Start listening for MCP clients
+   */
+  async start(): Promise<AddressInfo> {
+    if (this.httpServer) {
+      return this.httpServer.address() as AddressInfo;
+    }
+
+    if (!this.config.token && !this.isLoopback(this.config.host)) {
+      this.log('warn', `HTTP transport bound to ${this.config.host} without a bearer token`);
+    }
+
+    this.httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.log('error', `HTTP request failed: ${error instanceof Error ? error.message : String(error)}`);
+        if (!res.headersSent) {
+          this.sendJsonRpcError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    return new Promise((resolve, reject) => {
+      this.httpServer!.once('error', reject);
+      this.httpServer!.listen(this.config.port, this.config.host, () => {
+        this.httpServer!.off('error', reject);
+        const address = this.httpServer!.address() as AddressInfo;
+        this.log('info', `HTTP transport listening on http://${address.address}:${address.port}${this.config.path}`);
+        resolve(address);
+      });
+    });
+  }
+
+  /**
+   * Close all client sessions and stop listening
+   */
+  async stop(): Promise<void> {
+    for (const [sessionId, session] of this.sessions) {
+      try {
+        await session.transport.close();
+        await session.server.close();
+      } catch {
+        // Session may already be closed
+      }
+      this.sessions.delete(sessionId);
+    }
+
+    if (!this.httpServer) {
+      return;
+    }
+
+    const httpServer = this.httpServer;
+    this.httpServer = null;
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  }
+
+  /**
+   * Get the number of connected client sessions
+   */
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  /**
+   * Route an incoming HTTP request to the owning session transport
+   */
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== this.config.path) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    if (!this.isAuthorized(req)) {
+      res.writeHead(401, { 'WWW-Authenticate': 'Bearer' });
+      res.end();
+      return;
+    }
+
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+
+    if (req.method === 'POST') {
+      const body = await this.readBody(req);
+      if (body === BODY_TOO_LARGE) {
+        this.sendJsonRpcError(res, 413, -32600, 'Request body too large');
+        return;
+      }
+      if (body === undefined) {
+        this.sendJsonRpcError(res, 400, -32700, 'Parse error');
+        return;
+      }
+
+      if (session) {
+        await session.transport.handleRequest(req, res, body);
+        return;
+      }
+
+      if (!sessionId && isInitializeRequest(body)) {
+        await this.createSession(req, res, body);
+        return;
+      }
+
+      this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Unknown session' : 'No session ID provided');
+      return;
+    }
+
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      if (!session) {
+        this.sendJsonRpcError(res, sessionId ? 404 : 400, -32000, sessionId ? 'Unknown session' : 'No session ID provided');
+        return;
+      }
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    res.writeHead(405, { Allow: 'GET, POST, DELETE' }).end();
+  }
+
+  /**
+   * Create a transport and MCP server for a newly initializing client
+   */
+  private async createSession(req: IncomingMessage, res: ServerResponse, body: unknown): Promise<void> {
+    const server = this.createMcpServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (sessionId) => {
+        this.sessions.set(sessionId, { transport, server });
+        this.log('info', `HTTP client connected (session ${sessionId})`);
+        this.emit('sessionOpened', sessionId);
+      },
+    });
+
+    transport.onclose = () => {
+      const sessionId = transport.sessionId;
+      if (sessionId && this.sessions.delete(sessionId)) {
+        this.log('info', `HTTP client disconnected (session ${sessionId})`);
+        this.emit('sessionClosed', sessionId);
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  /**
+   * Check the bearer token if one is configured
+   */
+  private isAuthorized(req: IncomingMessage): boolean {
+    if (!this.config.token) {
+      return true;
+    }
+
+    const match = (req.headers.authorization || '').match(/^Bearer\s+(.+)$/i);
+    if (!match) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.config.token);
+    const provided = Buffer.from(match[1].trim());
+    return expected.length === provided.length && timingSafeEqual(expected, provided);
+  }
+
+  /**
+   * Read and parse a JSON request body; bodies over the size limit are drained and discarded
+   */
+  private async readBody(req: IncomingMessage): Promise<unknown> {
+    const limit = this.config.maxBodyBytes!;
+    if (Number(req.headers['content-length']) > limit) {
+      req.resume();
+      return BODY_TOO_LARGE;
+    }
+
+    const chunks: Buffer[] = [];
+    let size = 0;
+    const complete = await new Promise<boolean>((resolve, reject) => {
+      req.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > limit) {
+          chunks.length = 0;
+          resolve(false);
+        } else {
+          chunks.push(chunk);
+        }
+      });
+      req.on('end', () => resolve(true));
+      req.on('error', reject);
+    });
+
+    if (!complete) {
+      return BODY_TOO_LARGE;
+    }
+
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Send a JSON-RPC error response
+   */
+  private sendJsonRpcError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ jsonrpc: '2.0', error: { code, message }, id: null }));
+  }
+
+  private isLoopback(host: string): boolean {
+    return host === 'localhost' || host === '::1' || host.startsWith('127.');
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default HttpTransport;
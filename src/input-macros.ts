@@ -0,0 +1,321 @@
+/**
+ * OpenMOHAA MCP Server - Input Macro Module
+ * Recorded mouse and keyboard input: parsing, storage and export as automation scripts
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, writeFileSync } from 'fs';
+import { basename, join } from 'path';
+import { EventEmitter } from 'events';
+import type { AutomationScript, AutomationStep, LogLevel } from './types.js';
+
+export type MouseButton = 'left' | 'middle' | 'right';
+
+/**
+ * One recorded input event; `t` is milliseconds since the recording started and
+ * mouse coordinates are relative to the game window
+ */
+export type MacroEvent =
+  | { t: number; type: 'move'; x: number; y: number }
+  | { t: number; type: 'click' | 'mouse_down' | 'mouse_up'; button: MouseButton; x: number; y: number }
+  | { t: number; type: 'scroll'; direction: 'up' | 'down'; clicks: number }
+  | { t: number; type: 'key' | 'key_down' | 'key_up'; key: string };
+
+export interface InputMacro {
+  name: string;
+  createdAt: string;
+  /** Size of the game window when it was recorded */
+  window: { width: number; height: number } | null;
+  durationMs: number;
+  events: MacroEvent[];
+}
+
+/**
+ * A device event as printed by `xinput test-xi2`
+ */
+export interface RawInputEvent {
+  type: 'key_down' | 'key_up' | 'button_down' | 'button_up' | 'motion';
+  /** Keycode or button number */
+  detail: number;
+  /** X server time in milliseconds */
+  time: number;
+  /** Root window coordinates */
+  x: number;
+  y: number;
+}
+
+const XI_EVENT_TYPES: Record<number, RawInputEvent['type']> = {
+  2: 'key_down',
+  3: 'key_up',
+  4: 'button_down',
+  5: 'button_up',
+  6: 'motion',
+};
+
+const BUTTONS: Record<number, MouseButton> = { 1: 'left', 2: 'middle', 3: 'right' };
+
+/**
+ * Incremental parser for `xinput test-xi2 --root` output. Each event is an
+ * `EVENT type N (Name)` header followed by indented fields; raw and hierarchy
+ * events are skipped.
+ */
+export class XinputEventParser {
+  private buffer = '';
+  private current: (Partial<RawInputEvent> & { repeat?: boolean }) | null = null;
+
+  /**
+   * Feed output; returns the events completed by it
+   */
+  push(chunk: string): RawInputEvent[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    const events: RawInputEvent[] = [];
+    for (const line of lines) {
+      const header = line.match(/^EVENT type (\d+)/);
+      if (header) {
+        this.finish(events);
+        const type = XI_EVENT_TYPES[parseInt(header[1])];
+        this.current = type ? { type } : null;
+        continue;
+      }
+      if (!this.current) {
+        continue;
+      }
+
+      // Auto-repeat presses of a held key are not separate input
+      if (/^\s+flags:.*\brepeat\b/.test(line)) {
+        this.current.repeat = true;
+        continue;
+      }
+
+      const field = line.match(/^\s+(detail|time|root):\s*(\S+)/);
+      if (field?.[1] === 'root') {
+        const [x, y] = field[2].split('/').map(parseFloat);
+        this.current.x = Math.round(x);
+        this.current.y = Math.round(y);
+      } else if (field) {
+        this.current[field[1] as 'detail' | 'time'] = parseInt(field[2]);
+      }
+    }
+
+    return events;
+  }
+
+  /**
+   * Flush the event still being read
+   */
+  end(): RawInputEvent[] {
+    const events = this.push('\n');
+    this.finish(events);
+    return events;
+  }
+
+  private finish(events: RawInputEvent[]): void {
+    const event = this.current;
+    this.current = null;
+    if (event?.type && !event.repeat && event.detail !== undefined && event.time !== undefined && event.x !== undefined && event.y !== undefined) {
+      events.push({ type: event.type, detail: event.detail, time: event.time, x: event.x, y: event.y });
+    }
+  }
+}
+
+/**
+ * Parse `xmodmap -pke` into keycode -> keysym name
+ */
+export function parseKeymap(text: string): Map<number, string> {
+  const keymap = new Map<number, string>();
+  for (const line of text.split('\n')) {
+    const match = line.match(/^keycode\s+(\d+)\s*=\s*(\S+)/);
+    if (match) {
+      keymap.set(parseInt(match[1]), match[2]);
+    }
+  }
+  return keymap;
+}
+
+/**
+ * Turn a raw event into a macro event, or null for events that are not recorded
+ */
+export function toMacroEvent(
+  event: RawInputEvent,
+  t: number,
+  origin: { x: number; y: number },
+  keymap: Map<number, string>
+): MacroEvent | null {
+  const x = event.x - origin.x;
+  const y = event.y - origin.y;
+
+  switch (event.type) {
+    case 'motion':
+      return { t, type: 'move', x, y };
+    case 'button_down':
+    case 'button_up': {
+      if (event.detail === 4 || event.detail === 5) {
+        // Wheel steps arrive as press and release pairs; the press is enough
+        return event.type === 'button_down' ? { t, type: 'scroll', direction: event.detail === 4 ? 'up' : 'down', clicks: 1 } : null;
+      }
+      const button = BUTTONS[event.detail];
+      return button ? { t, type: event.type === 'button_down' ? 'mouse_down' : 'mouse_up', button, x, y } : null;
+    }
+    case 'key_down':
+    case 'key_up': {
+      const key = keymap.get(event.detail);
+      return key && key !== 'NoSymbol' ? { t, type: event.type, key } : null;
+    }
+  }
+}
+
+/**
+ * Merge quick press/release pairs into clicks and key presses, and consecutive
+ * wheel steps into one scroll. Holds longer than `tapMs` keep their down and up events.
+ */
+export function compactEvents(events: MacroEvent[], tapMs = 300): MacroEvent[] {
+  const result: MacroEvent[] = [];
+
+  for (let i = 0; i < events.length; i++) {
+    const event = events[i];
+    const next = events[i + 1];
+
+    if (event.type === 'key_down' && next?.type === 'key_up' && next.key === event.key && next.t - event.t <= tapMs) {
+      result.push({ t: event.t, type: 'key', key: event.key });
+      i++;
+    } else if (event.type === 'mouse_down' && next?.type === 'mouse_up' && next.button === event.button
+      && next.x === event.x && next.y === event.y && next.t - event.t <= tapMs) {
+      result.push({ t: event.t, type: 'click', button: event.button, x: event.x, y: event.y });
+      i++;
+    } else {
+      const last = result[result.length - 1];
+      if (event.type === 'scroll' && last?.type === 'scroll' && last.direction === event.direction && event.t - last.t <= tapMs) {
+        last.clicks += event.clicks;
+      } else {
+        result.push(event);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Convert a macro to an automation script: window-relative mouse steps and key
+ * steps, with the recorded gaps (divided by `speed`) as each step's waitAfter
+ */
+export function macroToAutomationScript(macro: InputMacro, speed = 1): AutomationScript {
+  const steps: AutomationStep[] = [];
+
+  macro.events.forEach((event, index) => {
+    const next = macro.events[index + 1];
+    const waitAfter = next ? Math.round((next.t - event.t) / speed) : undefined;
+    const step = (action: string, params: Record<string, unknown>) => {
+      steps.push(waitAfter ? { action, params, waitAfter } : { action, params });
+    };
+
+    switch (event.type) {
+      case 'move':
+        step('mouse_move', { x: event.x, y: event.y, window: true });
+        break;
+      case 'click':
+        step('mouse_click', { x: event.x, y: event.y, window: true, button: event.button });
+        break;
+      case 'mouse_down':
+      case 'mouse_up':
+        step(event.type, { x: event.x, y: event.y, window: true, button: event.button });
+        break;
+      case 'scroll':
+        step('scroll', { direction: event.direction, clicks: event.clicks });
+        break;
+      case 'key':
+        step('press_key', { key: event.key });
+        break;
+      case 'key_down':
+      case 'key_up':
+        step(event.type, { key: event.key });
+        break;
+    }
+  });
+
+  return {
+    name: macro.name,
+    description: `Replay of input recorded ${macro.createdAt}${macro.window ? ` in a ${macro.window.width}x${macro.window.height} window` : ''}`,
+    steps: [{ action: 'focus_window', params: {} }, ...steps],
+  };
+}
+
+/**
+ * Macro files on disk, one JSON file per macro
+ */
+export class MacroLibrary extends EventEmitter {
+  private dir: string;
+
+  constructor(dir: string) {
+    super();
+    this.dir = dir;
+  }
+
+  /**
+   * Save a macro, replacing one of the same name
+   */
+  save(macro: InputMacro): string {
+    if (!/^[\w.-]+$/.test(macro.name)) {
+      throw new Error('Macro names may only contain letters, digits, "_", "." and "-"');
+    }
+
+    mkdirSync(this.dir, { recursive: true });
+    const path = this.path(macro.name);
+    writeFileSync(path, `${JSON.stringify(macro, null, 2)}\n`);
+    this.log('info', `Saved macro ${macro.name} (${macro.events.length} events) to ${path}`);
+    return path;
+  }
+
+  /**
+   * Load a macro by name
+   */
+  load(name: string): InputMacro {
+    const path = this.path(name);
+    if (!existsSync(path)) {
+      throw new Error(`Macro not found: ${name}`);
+    }
+    return JSON.parse(readFileSync(path, 'utf-8')) as InputMacro;
+  }
+
+  /**
+   * List saved macros
+   */
+  list(): Array<{ name: string; createdAt: string; durationMs: number; events: number }> {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    const macros = [];
+    for (const file of readdirSync(this.dir).filter((f) => f.endsWith('.json')).sort()) {
+      try {
+        const macro = this.load(basename(file, '.json'));
+        macros.push({ name: macro.name, createdAt: macro.createdAt, durationMs: macro.durationMs, events: macro.events.length });
+      } catch (error) {
+        this.log('warn', `Skipping unreadable macro ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    return macros;
+  }
+
+  /**
+   * Get the macro directory
+   */
+  getDir(): string {
+    return this.dir;
+  }
+
+  private path(name: string): string {
+    return join(this.dir, `${basename(name)}.json`);
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default MacroLibrary;
@@ -0,0 +1,202 @@
+/**
+ * OpenMOHAA MCP Server - Job Manager Module
+ * Runs long operations as background jobs with progress and cancellation
+ */
+
+import { EventEmitter } from 'events';
+
+export type JobStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobProgress {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+export interface JobInfo {
+  id: string;
+  name: string;
+  status: JobStatus;
+  startedAt: Date;
+  finishedAt: Date | null;
+  progress: JobProgress | null;
+  error?: string;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  reportProgress(progress: number, total?: number, message?: string): void;
+}
+
+export type JobRunner<T> = (context: JobContext) => Promise<T>;
+
+interface JobRecord {
+  info: JobInfo;
+  controller: AbortController;
+  done: Promise<void>;
+  resolveDone: () => void;
+  result?: unknown;
+}
+
+export class JobManager extends EventEmitter {
+  private jobs: Map<string, JobRecord> = new Map();
+  private nextId = 1;
+  private maxFinishedJobs: number;
+
+  constructor(maxFinishedJobs = 50) {
+    super();
+    this.maxFinishedJobs = maxFinishedJobs;
+  }
+
+  /**
+   * Start a job; the runner should stop work when the signal aborts
+   */
+  start<T>(name: string, runner: JobRunner<T>, parentSignal?: AbortSignal): JobInfo {
+    const id = `job-${this.nextId++}`;
+    const controller = new AbortController();
+    const info: JobInfo = {
+      id,
+      name,
+      status: 'running',
+      startedAt: new Date(),
+      finishedAt: null,
+      progress: null,
+    };
+
+    const context: JobContext = {
+      signal: controller.signal,
+      reportProgress: (progress, total, message) => {
+        if (info.status !== 'running') {
+          return;
+        }
+        info.progress = { progress, total, message };
+        this.emit('progress', { id, ...info.progress });
+      },
+    };
+
+    let resolveDone = () => {};
+    const done = new Promise<void>((resolve) => {
+      resolveDone = resolve;
+    });
+    const record: JobRecord = { info, controller, done, resolveDone };
+    this.jobs.set(id, record);
+    this.emit('jobStarted', { ...info });
+
+    // Cancelling the originating request cancels the job
+    if (parentSignal?.aborted) {
+      this.cancel(id);
+    } else {
+      parentSignal?.addEventListener('abort', () => this.cancel(id), { once: true });
+    }
+
+    Promise.resolve()
+      .then(() => {
+        controller.signal.throwIfAborted();
+        return runner(context);
+      })
+      .then(
+        (result) => {
+          if (info.status === 'running') {
+            record.result = result;
+            this.finish(record, 'completed');
+          }
+        },
+        (error) => {
+          if (info.status === 'running') {
+            info.error = error instanceof Error ? error.message : String(error);
+            this.finish(record, 'failed');
+          }
+        }
+      );
+
+    this.prune();
+
+    return { ...info };
+  }
+
+  /**
+   * Get job info
+   */
+  get(id: string): JobInfo | undefined {
+    const record = this.jobs.get(id);
+    return record ? { ...record.info } : undefined;
+  }
+
+  /**
+   * List jobs, newest first
+   */
+  list(status?: JobStatus): JobInfo[] {
+    return Array.from(this.jobs.values())
+      .map((record) => ({ ...record.info }))
+      .filter((info) => !status || info.status === status)
+      .reverse();
+  }
+
+  /**
+   * Get the value returned by a completed job
+   */
+  getResult(id: string): unknown {
+    return this.jobs.get(id)?.result;
+  }
+
+  /**
+   * Wait for a job to finish, or until the timeout elapses
+   */
+  async wait(id: string, timeoutMs?: number): Promise<JobInfo> {
+    const record = this.jobs.get(id);
+    if (!record) {
+      throw new Error(`Job not found: ${id}`);
+    }
+
+    if (timeoutMs === undefined) {
+      await record.done;
+    } else {
+      let timer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        record.done,
+        new Promise<void>((resolve) => {
+          timer = setTimeout(resolve, timeoutMs);
+        }),
+      ]);
+      clearTimeout(timer);
+    }
+
+    return { ...record.info };
+  }
+
+  /**
+   * Cancel a running job
+   */
+  cancel(id: string): boolean {
+    const record = this.jobs.get(id);
+    if (!record || record.info.status !== 'running') {
+      return false;
+    }
+
+    this.finish(record, 'cancelled');
+    record.controller.abort();
+    return true;
+  }
+
+  /**
+   * Mark a job as finished
+   */
+  private finish(record: JobRecord, status: JobStatus): void {
+    record.info.status = status;
+    record.info.finishedAt = new Date();
+    record.resolveDone();
+    this.emit('jobFinished', { ...record.info });
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond the retention limit
+   */
+  private prune(): void {
+    const finished = Array.from(this.jobs.values()).filter((record) => record.info.status !== 'running');
+    for (const record of finished.slice(0, Math.max(0, finished.length - this.maxFinishedJobs))) {
+      this.jobs.delete(record.info.id);
+    }
+  }
+}
+
+export default JobManager;
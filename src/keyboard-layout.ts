@@ -0,0 +1,233 @@
+/**
+ * OpenMOHAA MCP Server - Keyboard Layout Module
+ * Maps keysyms and characters to the keys that produce them on the active layout
+ */
+
+/**
+ * A key press on the physical keyboard; keycodes are X keycodes (evdev code + 8)
+ */
+export interface KeyStroke {
+  keycode: number;
+  shift: boolean;
+  altgr: boolean;
+}
+
+/**
+ * The key left of 1 (TLDE), which opens the console whatever the layout prints on it
+ */
+export const CONSOLE_KEYCODE = 49;
+
+const CHAR_KEYSYMS: Record<string, string> = {
+  ' ': 'space', '!': 'exclam', '"': 'quotedbl', '#': 'numbersign', '$': 'dollar', '%': 'percent',
+  '&': 'ampersand', "'": 'apostrophe', '(': 'parenleft', ')': 'parenright', '*': 'asterisk', '+': 'plus',
+  ',': 'comma', '-': 'minus', '.': 'period', '/': 'slash', ':': 'colon', ';': 'semicolon', '<': 'less',
+  '=': 'equal', '>': 'greater', '?': 'question', '@': 'at', '[': 'bracketleft', '\\': 'backslash',
+  ']': 'bracketright', '^': 'asciicircum', '_': 'underscore', '`': 'grave', '{': 'braceleft', '|': 'bar',
+  '}': 'braceright', '~': 'asciitilde', '\n': 'Return', '\t': 'Tab',
+  '°': 'degree', '§': 'section', '²': 'twosuperior', '³': 'threesuperior', 'µ': 'mu', '£': 'sterling',
+  '¤': 'currency', 'ß': 'ssharp', 'ä': 'adiaeresis', 'ö': 'odiaeresis', 'ü': 'udiaeresis',
+  'Ä': 'Adiaeresis', 'Ö': 'Odiaeresis', 'Ü': 'Udiaeresis', 'é': 'eacute', 'è': 'egrave', 'à': 'agrave',
+  'ç': 'ccedilla', 'ù': 'ugrave', '€': 'EuroSign',
+};
+
+/**
+ * Keysym name for a character: ASCII letters and digits are their own names,
+ * characters without a name use the Unicode form (U20AC)
+ */
+export function charToKeysym(char: string): string {
+  if (CHAR_KEYSYMS[char]) {
+    return CHAR_KEYSYMS[char];
+  }
+  if (/^[a-zA-Z0-9]$/.test(char)) {
+    return char;
+  }
+  return `U${char.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`;
+}
+
+const GAME_KEY_KEYSYMS: Record<string, string> = {
+  tab: 'Tab', enter: 'Return', escape: 'Escape', space: 'space', backspace: 'BackSpace',
+  uparrow: 'Up', downarrow: 'Down', leftarrow: 'Left', rightarrow: 'Right',
+  alt: 'Alt_L', ctrl: 'Control_L', shift: 'Shift_L', ins: 'Insert', del: 'Delete',
+  pgdn: 'Next', pgup: 'Prior', home: 'Home', end: 'End', pause: 'Pause', semicolon: 'semicolon',
+};
+
+/**
+ * Keysym for a key name as the engine's bind command writes it (F12, TAB, `, c)
+ */
+export function gameKeyToKeysym(name: string): string {
+  const lower = name.toLowerCase();
+  if (GAME_KEY_KEYSYMS[lower]) {
+    return GAME_KEY_KEYSYMS[lower];
+  }
+  if (/^f\d{1,2}$/.test(lower)) {
+    return lower.toUpperCase();
+  }
+  return name.length === 1 ? charToKeysym(lower) : name;
+}
+
+// Keycodes of the character keys, row by row: TLDE and AE01-AE12; AD01-AD12; AC01-AC11 and
+// BKSL; LSGT and AB01-AB10
+const ROW_KEYCODES = [
+  [49, ...Array.from({ length: 12 }, (_, i) => 10 + i)],
+  Array.from({ length: 12 }, (_, i) => 24 + i),
+  [...Array.from({ length: 11 }, (_, i) => 38 + i), 51],
+  [94, ...Array.from({ length: 10 }, (_, i) => 52 + i)],
+];
+
+// Characters per row and level; a space means the key has nothing there (or a dead key)
+const BUILTIN_LAYOUTS: Record<string, { base: string[]; shift: string[]; altgr?: string[] }> = {
+  us: {
+    base: ['`1234567890-=', 'qwertyuiop[]', "asdfghjkl;'\\", ' zxcvbnm,./'],
+    shift: ['~!@#$%^&*()_+', 'QWERTYUIOP{}', 'ASDFGHJKL:"|', ' ZXCVBNM<>?'],
+  },
+  de: {
+    base: [' 1234567890ß ', 'qwertzuiopü+', 'asdfghjklöä#', '<yxcvbnm,.-'],
+    shift: ['°!"§$%&/()=? ', 'QWERTZUIOPÜ*', "ASDFGHJKLÖÄ'", '>YXCVBNM;:_'],
+    altgr: ['  ²³   {[]}\\ ', '@ €        ~', '            ', '|      µ   '],
+  },
+  fr: {
+    base: ['²&é"\'(-è_çà)=', 'azertyuiop $', 'qsdfghjklmù*', '<wxcvbn,;:!'],
+    shift: [' 1234567890°+', 'AZERTYUIOP £', 'QSDFGHJKLM%µ', '>WXCVBN?./§'],
+    altgr: ['   #{[| \\^@]}', '  €         ', '            ', '           '],
+  },
+};
+
+// Layout descriptions reported by compositors, to layout codes
+const LAYOUT_DESCRIPTIONS: Array<[string, string]> = [
+  ['English (US)', 'us'],
+  ['German', 'de'],
+  ['French', 'fr'],
+];
+
+/**
+ * Layout code for an XKB layout description such as "German (no dead keys)"
+ */
+export function layoutFromDescription(description: string): string | null {
+  return LAYOUT_DESCRIPTIONS.find(([prefix]) => description.startsWith(prefix))?.[1] ?? null;
+}
+
+/**
+ * Parse `setxkbmap -query`; only the first of several configured layouts is used
+ */
+export function parseXkbQuery(text: string): { layout: string | null; variant: string | null } {
+  const field = (name: string) => text.match(new RegExp(`^${name}:\\s*(\\S+)`, 'm'))?.[1].split(',')[0] || null;
+  return { layout: field('layout'), variant: field('variant') };
+}
+
+export class KeyboardLayout {
+  readonly name: string;
+  private keys = new Map<string, KeyStroke>();
+
+  constructor(name: string, keys: Iterable<[string, KeyStroke]> = []) {
+    this.name = name;
+    for (const [keysym, stroke] of keys) {
+      // Keep the first position, which needs the fewest modifiers
+      if (!this.keys.has(keysym)) {
+        this.keys.set(keysym, stroke);
+      }
+    }
+  }
+
+  /**
+   * Layout codes with a built-in table
+   */
+  static builtinNames(): string[] {
+    return Object.keys(BUILTIN_LAYOUTS);
+  }
+
+  /**
+   * A built-in layout (us, de, fr), for systems where the keymap cannot be read
+   */
+  static builtin(name: string): KeyboardLayout | null {
+    const table = BUILTIN_LAYOUTS[name];
+    if (!table) {
+      return null;
+    }
+
+    const keys: Array<[string, KeyStroke]> = [];
+    const levels = [
+      { rows: table.base, shift: false, altgr: false },
+      { rows: table.shift, shift: true, altgr: false },
+      { rows: table.altgr ?? [], shift: false, altgr: true },
+    ];
+    for (const { rows, shift, altgr } of levels) {
+      rows.forEach((row, r) => [...row].forEach((char, k) => {
+        if (char !== ' ') {
+          keys.push([charToKeysym(char), { keycode: ROW_KEYCODES[r][k], shift, altgr }]);
+        }
+      }));
+    }
+    keys.push(['space', { keycode: 65, shift: false, altgr: false }]);
+    keys.push(['Return', { keycode: 36, shift: false, altgr: false }]);
+    keys.push(['Tab', { keycode: 23, shift: false, altgr: false }]);
+
+    return new KeyboardLayout(name, keys);
+  }
+
+  /**
+   * Build a layout from the X server's keymap (`xmodmap -pke`). Columns are the
+   * plain and shifted keysyms, the second group, then the AltGr levels.
+   */
+  static fromXmodmap(name: string, text: string): KeyboardLayout {
+    const levels = [
+      { column: 0, shift: false, altgr: false },
+      { column: 1, shift: true, altgr: false },
+      { column: 4, shift: false, altgr: true },
+      { column: 5, shift: true, altgr: true },
+    ];
+    const rows = text.split('\n')
+      .map((line) => line.match(/^keycode\s+(\d+)\s*=\s*(.*)$/))
+      .filter((match): match is RegExpMatchArray => match !== null)
+      .map((match) => ({ keycode: parseInt(match[1]), keysyms: match[2].trim().split(/\s+/) }))
+      // Keycodes below 10 cannot be told apart from digit keysyms on an xdotool command line
+      .filter((row) => row.keycode >= 10);
+
+    const keys: Array<[string, KeyStroke]> = [];
+    for (const { column, shift, altgr } of levels) {
+      for (const { keycode, keysyms } of rows) {
+        const keysym = keysyms[column];
+        if (keysym && keysym !== 'NoSymbol') {
+          keys.push([keysym, { keycode, shift, altgr }]);
+        }
+      }
+    }
+
+    return new KeyboardLayout(name, keys);
+  }
+
+  /**
+   * Find the key that produces a keysym
+   */
+  lookup(keysym: string): KeyStroke | null {
+    return this.keys.get(keysym) ?? (keysym.length === 1 ? this.keys.get(charToKeysym(keysym)) : undefined) ?? null;
+  }
+
+  /**
+   * Find the key that types a character
+   */
+  strokeFor(char: string): KeyStroke | null {
+    return this.keys.get(charToKeysym(char)) ?? null;
+  }
+
+  /**
+   * Split text into runs the layout can type (with their strokes) and runs it cannot
+   */
+  splitText(text: string): Array<{ text: string; strokes: KeyStroke[] | null }> {
+    const runs: Array<{ text: string; strokes: KeyStroke[] | null }> = [];
+    for (const char of text) {
+      const stroke = this.strokeFor(char);
+      const last = runs[runs.length - 1];
+      if (last && (last.strokes !== null) === (stroke !== null)) {
+        last.text += char;
+        if (stroke) {
+          last.strokes!.push(stroke);
+        }
+      } else {
+        runs.push({ text: char, strokes: stroke ? [stroke] : null });
+      }
+    }
+    return runs;
+  }
+}
+
+export default KeyboardLayout;
@@ -0,0 +1,249 @@
+/**
+ * OpenMOHAA MCP Server - Launch Profile Module
+ * Named launch configurations stored as YAML or JSON files, with inheritance
+ */
+
+import { existsSync, mkdirSync, readFileSync, readdirSync, unlinkSync, writeFileSync } from 'fs';
+import { basename, extname, join } from 'path';
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import { readinessSchema } from './readiness.js';
+import { sandboxSchema } from './sandbox.js';
+import type { GameConfig, LogLevel } from './types.js';
+
+// Names become file names in the profile directory, so they cannot contain path separators
+const PROFILE_NAME = /^[\w.-]+$/;
+const PROFILE_NAME_MESSAGE = 'Profile names may only contain letters, digits, "_", "." and "-"';
+
+export const profileNameSchema = z.string().regex(PROFILE_NAME, PROFILE_NAME_MESSAGE);
+
+export const launchProfileSchema = z.object({
+  name: profileNameSchema,
+  extends: profileNameSchema.optional().describe('Profile to inherit from'),
+  description: z.string().optional(),
+  executablePath: z.string().optional(),
+  workingDirectory: z.string().optional(),
+  arguments: z.array(z.string()).optional().describe('Extra command line arguments, appended to inherited ones'),
+  env: z.record(z.string()).optional().describe('Environment variables, merged over inherited ones'),
+  mod: z.string().optional().describe('Mod directory, passed as fs_game'),
+  windowedMode: z.boolean().optional(),
+  resolution: z.object({ width: z.number(), height: z.number() }).optional(),
+  enableConsole: z.boolean().optional(),
+  enableCheats: z.boolean().optional(),
+  headless: z.boolean().optional(),
+  coreDumps: z.boolean().optional(),
+  execConfigs: z.array(z.string()).optional().describe('Configs executed at startup (+exec), after inherited ones'),
+  commands: z.array(z.string()).optional().describe('Console commands sent once the game is up, after inherited ones'),
+  readiness: readinessSchema.optional().describe('When startup counts as complete; fields override inherited ones'),
+  sandbox: sandboxSchema.optional().describe('Resource limits and environment isolation; fields override inherited ones'),
+});
+
+export type LaunchProfile = z.infer<typeof launchProfileSchema>;
+
+export type ProfileFormat = 'yaml' | 'json';
+
+export interface ProfileSummary {
+  name: string;
+  extends?: string;
+  description?: string;
+  path: string;
+}
+
+const EXTENSIONS: Record<string, ProfileFormat> = {
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+  '.json': 'json',
+};
+
+// Lists that accumulate down the inheritance chain instead of being replaced
+const APPENDED_FIELDS = ['arguments', 'execConfigs', 'commands'] as const;
+
+export class LaunchProfileManager extends EventEmitter {
+  private dir: string;
+
+  constructor(dir: string) {
+    super();
+    this.dir = dir;
+  }
+
+  /**
+   * List the profiles in the profile directory
+   */
+  list(): ProfileSummary[] {
+    if (!existsSync(this.dir)) {
+      return [];
+    }
+
+    const profiles: ProfileSummary[] = [];
+    for (const file of readdirSync(this.dir).sort()) {
+      if (!EXTENSIONS[extname(file)]) {
+        continue;
+      }
+      try {
+        const profile = this.read(join(this.dir, file));
+        profiles.push({ name: profile.name, extends: profile.extends, description: profile.description, path: join(this.dir, file) });
+      } catch (error) {
+        this.log('warn', `Skipping invalid profile ${file}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+
+    return profiles;
+  }
+
+  /**
+   * Get a profile as stored, without inheritance applied
+   */
+  get(name: string): LaunchProfile | null {
+    const path = this.findPath(name);
+    return path ? this.read(path) : null;
+  }
+
+  /**
+   * Get a profile with its ancestors merged in, root first
+   */
+  resolve(name: string): LaunchProfile {
+    const chain: LaunchProfile[] = [];
+    const seen: string[] = [];
+
+    for (let current: string | undefined = name; current; current = chain[0].extends) {
+      if (seen.includes(current)) {
+        throw new Error(`Profile inheritance cycle: ${[...seen, current].join(' -> ')}`);
+      }
+      seen.push(current);
+
+      const profile = this.get(current);
+      if (!profile) {
+        throw new Error(seen.length === 1 ? `Profile not found: ${current}` : `Profile ${seen[seen.length - 2]} extends missing profile ${current}`);
+      }
+      chain.unshift(profile);
+    }
+
+    return chain.reduce((merged, profile) => {
+      const next: LaunchProfile = {
+        ...merged,
+        ...profile,
+        env: { ...merged.env, ...profile.env },
+        readiness: merged.readiness || profile.readiness ? { ...merged.readiness, ...profile.readiness } : undefined,
+        sandbox: merged.sandbox || profile.sandbox ? { ...merged.sandbox, ...profile.sandbox } : undefined,
+      };
+      for (const field of APPENDED_FIELDS) {
+        next[field] = [...(merged[field] ?? []), ...(profile[field] ?? [])];
+      }
+      return next;
+    });
+  }
+
+  /**
+   * Write a profile, replacing any existing file of the same name
+   */
+  save(profile: LaunchProfile, format: ProfileFormat = 'yaml'): string {
+    const parsed = launchProfileSchema.parse(profile);
+
+    // Refuse a parent that is missing or would make the profile inherit from itself
+    const seen = [parsed.name];
+    for (let current = parsed.extends; current; current = this.get(current)?.extends) {
+      if (seen.includes(current)) {
+        throw new Error(`Profile inheritance cycle: ${[...seen, current].join(' -> ')}`);
+      }
+      if (!this.findPath(current)) {
+        throw new Error(`Profile ${seen[seen.length - 1]} extends missing profile ${current}`);
+      }
+      seen.push(current);
+    }
+
+    const existing = this.findPath(parsed.name);
+    if (existing) {
+      unlinkSync(existing);
+    }
+
+    mkdirSync(this.dir, { recursive: true });
+    const path = join(this.dir, `${parsed.name}.${format}`);
+    writeFileSync(path, format === 'json' ? `${JSON.stringify(parsed, null, 2)}\n` : stringifyYaml(parsed));
+
+    this.log('info', `Saved launch profile ${parsed.name} to ${path}`);
+    return path;
+  }
+
+  /**
+   * Delete a profile; profiles that extend it are left broken and reported
+   */
+  delete(name: string): { deleted: boolean; dependents: string[] } {
+    const path = this.findPath(name);
+    if (!path) {
+      return { deleted: false, dependents: [] };
+    }
+
+    unlinkSync(path);
+    const dependents = this.list().filter((profile) => profile.extends === name).map((profile) => profile.name);
+    this.log('info', `Deleted launch profile ${name}`);
+    return { deleted: true, dependents };
+  }
+
+  /**
+   * Turn a resolved profile into a game configuration
+   * Startup configs become +exec arguments ahead of the profile's own arguments.
+   */
+  toGameConfig(profile: LaunchProfile, executablePath = profile.executablePath): GameConfig {
+    if (!executablePath) {
+      throw new Error(`Profile ${profile.name} has no executablePath`);
+    }
+
+    return {
+      executablePath,
+      workingDirectory: profile.workingDirectory,
+      arguments: [
+        ...(profile.execConfigs ?? []).flatMap((config) => ['+exec', config]),
+        ...(profile.arguments ?? []),
+      ],
+      environmentVariables: profile.env,
+      gameDirectory: profile.mod,
+      windowedMode: profile.windowedMode,
+      resolution: profile.resolution,
+      enableConsole: profile.enableConsole,
+      enableCheats: profile.enableCheats,
+      headless: profile.headless,
+      coreDumps: profile.coreDumps,
+      readiness: profile.readiness,
+      sandbox: profile.sandbox,
+    };
+  }
+
+  /**
+   * Get the profile directory
+   */
+  getDir(): string {
+    return this.dir;
+  }
+
+  private findPath(name: string): string | null {
+    if (!PROFILE_NAME.test(name)) {
+      throw new Error(`Invalid profile name "${name}": ${PROFILE_NAME_MESSAGE}`);
+    }
+    for (const extension of Object.keys(EXTENSIONS)) {
+      const path = join(this.dir, `${name}${extension}`);
+      if (existsSync(path)) {
+        return path;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse and validate a profile file; the file name is the profile name
+   */
+  private read(path: string): LaunchProfile {
+    const content = readFileSync(path, 'utf-8');
+    const data = EXTENSIONS[extname(path)] === 'json' ? JSON.parse(content) : parseYaml(content);
+    return launchProfileSchema.parse({ ...data, name: basename(path, extname(path)) });
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default LaunchProfileManager;
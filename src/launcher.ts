@@ -4,11 +4,19 @@
  */
 
 import { spawn, ChildProcess } from 'child_process';
-import { existsSync, accessSync, constants } from 'fs';
+import { existsSync, accessSync, constants, rmSync } from 'fs';
 import { dirname } from 'path';
 import { EventEmitter } from 'events';
 import treeKill from 'tree-kill';
-import type { GameConfig, ProcessState, ConsoleOutput, LogLevel } from './types.js';
+import { VirtualDisplay } from './virtual-display.js';
+import { parseColorCodes } from './color-codes.js';
+import { waitUntilReady, type ReadinessConfig, type ReadinessTargets } from './readiness.js';
+import { Supervisor, type RestartPolicy } from './supervisor.js';
+import { buildCommand, buildEnvironment } from './sandbox.js';
+import type { GameConfig, GameCrash, ProcessState, ConsoleOutput, LogLevel } from './types.js';
+
+// Signals whose default action terminates the process with a core dump
+const CORE_SIGNALS = ['SIGQUIT', 'SIGILL', 'SIGTRAP', 'SIGABRT', 'SIGBUS', 'SIGFPE', 'SIGSEGV', 'SIGSYS'];
 
 export class ProcessLauncher extends EventEmitter {
   private process: ChildProcess | null = null;
@@ -22,12 +30,21 @@ export class ProcessLauncher extends EventEmitter {
   };
   private consoleBuffer: ConsoleOutput[] = [];
   private maxBufferLines = 10000;
-  private restartAttempts = 0;
-  private maxRestartAttempts = 3;
-  private autoRestart = false;
+  private virtualDisplay: VirtualDisplay | null = null;
+  private temporaryHome: string | null = null;
+  private launchArguments: string[] = [];
+  private stopRequested = false;
+  private supervisedLaunch = false;
+  private crashReported = false;
+  private readinessTargets: Omit<ReadinessTargets, 'launcher'> = {};
+  private supervisor: Supervisor;
+  private wallClockTimer: NodeJS.Timeout | null = null;
 
   constructor() {
     super();
+    this.supervisor = new Supervisor('game', () => this.relaunch());
+    this.supervisor.on('log', (entry) => this.emit('log', entry));
+    this.supervisor.on('crashLoop', (report) => this.emit('crashLoop', report));
   }
 
   /**
@@ -87,27 +104,53 @@ export class ProcessLauncher extends EventEmitter {
     // Validate executable
     this.validateExecutable(config.executablePath);
 
+    // A launch supersedes a pending automatic restart
+    this.supervisor.cancel();
+
     // Stop existing process if running
     if (this.state.running) {
       await this.stop();
     }
 
     this.config = config;
+    this.stopRequested = false;
+    this.crashReported = false;
     const args = this.buildArguments(config);
     const cwd = config.workingDirectory || dirname(config.executablePath);
+    this.launchArguments = args;
 
     this.log('info', `Launching OpenMOHAA: ${config.executablePath}`);
     this.log('debug', `Arguments: ${args.join(' ')}`);
     this.log('debug', `Working directory: ${cwd}`);
 
-    // Build environment
-    const env = {
-      ...process.env,
-      ...config.environmentVariables,
-    };
+    // Build environment: the server's, or its clean subset, with an optional private HOME
+    const { env, home, temporary } = buildEnvironment(process.env, config.sandbox);
+    Object.assign(env, config.environmentVariables);
+    if (home) {
+      this.log('info', `Using private HOME ${home}`);
+    }
+    this.temporaryHome = temporary && home ? home : null;
+
+    // Headless runs get a private X server; only the game sees its DISPLAY
+    let display: string | undefined;
+    if (config.headless) {
+      try {
+        display = await this.startVirtualDisplay(config.resolution);
+      } catch (err) {
+        this.removeTemporaryHome();
+        throw err;
+      }
+      env.DISPLAY = display;
+      delete env.WAYLAND_DISPLAY;
+    }
 
-    // Spawn the process
-    this.process = spawn(config.executablePath, args, {
+    // Spawn the process; with core dumps or limits a shell sets them up and then
+    // execs the game, so the game keeps the shell's PID
+    const [command, commandArgs] = buildCommand(config.executablePath, args, {
+      coreDumps: config.coreDumps,
+      sandbox: config.sandbox,
+    });
+    this.process = spawn(command, commandArgs, {
       cwd,
       env,
       stdio: ['pipe', 'pipe', 'pipe'],
@@ -120,7 +163,15 @@ export class ProcessLauncher extends EventEmitter {
       exitCode: null,
       startTime: new Date(),
       lastError: null,
+      display,
+      home,
     };
+    this.emit('spawned', this.getState());
+
+    const wallClockMs = config.sandbox?.wallClockMs;
+    if (wallClockMs) {
+      this.startWallClock(wallClockMs);
+    }
 
     // Handle stdout
     this.process.stdout?.on('data', (data: Buffer) => {
@@ -136,16 +187,31 @@ export class ProcessLauncher extends EventEmitter {
 
     // Handle process exit
     this.process.on('exit', (code, signal) => {
+      this.clearWallClock();
       this.log('info', `Process exited with code ${code}, signal ${signal}`);
       this.state.running = false;
       this.state.exitCode = code;
+      this.stopVirtualDisplay();
+      this.removeTemporaryHome();
       this.emit('exit', { code, signal });
 
-      if (this.autoRestart && this.restartAttempts < this.maxRestartAttempts) {
-        this.restartAttempts++;
-        this.log('info', `Auto-restarting (attempt ${this.restartAttempts})`);
-        setTimeout(() => this.launch(this.config!), 2000);
+      const killedBySignal = signal !== null && CORE_SIGNALS.includes(signal);
+      if (!this.stopRequested && (killedBySignal || (this.crashReported && code !== 0))) {
+        const crash: GameCrash = {
+          pid: this.state.pid,
+          exitCode: code,
+          signal,
+          executablePath: config.executablePath,
+          arguments: args,
+          workingDirectory: cwd,
+          startTime: this.state.startTime,
+          timestamp: new Date(),
+        };
+        this.log('error', `Game crashed (${signal ?? `exit code ${code}`})`);
+        this.emit('crashed', crash);
       }
+
+      this.supervisor.processExited({ code, signal, requested: this.stopRequested });
     });
 
     // Handle errors
@@ -153,61 +219,115 @@ export class ProcessLauncher extends EventEmitter {
       this.log('error', `Process error: ${err.message}`);
       this.state.lastError = err.message;
       this.state.running = false;
+      this.stopVirtualDisplay();
+      this.removeTemporaryHome();
       this.emit('error', err);
     });
 
     // Wait for startup confirmation
-    await this.waitForStartup();
+    await this.waitForStartup(config.readiness);
 
     this.log('info', `Game launched successfully, PID: ${this.state.pid}`);
+    this.supervisor.processStarted();
     this.emit('started', this.state);
 
     return this.state;
   }
 
   /**
-   * Wait for the game to finish starting up
+   * Stop the game once it has run for the sandbox's wall-clock limit
    */
-  private async waitForStartup(timeout = 30000): Promise<void> {
-    return new Promise((resolve, reject) => {
-      const startTime = Date.now();
-
-      const checkStartup = () => {
-        // Check if process is still running
-        if (!this.state.running) {
-          reject(new Error('Process exited during startup'));
-          return;
-        }
+  private startWallClock(limitMs: number): void {
+    this.clearWallClock();
+    this.wallClockTimer = setTimeout(() => {
+      this.wallClockTimer = null;
+      this.state.lastError = `Wall-clock limit of ${limitMs}ms reached`;
+      this.log('warn', `${this.state.lastError}; stopping the game`);
+      this.emit('timeLimit', { limitMs });
+      this.stop().catch((err) => this.log('error', `Failed to stop after the wall-clock limit: ${err.message}`));
+    }, limitMs);
+  }
 
-        // Look for startup indicators in console output
-        const recentOutput = this.consoleBuffer.slice(-100);
-        const startupComplete = recentOutput.some(
-          (line) =>
-            line.text.includes('Initializing') ||
-            line.text.includes('Loading') ||
-            line.text.includes('---') ||
-            // Give some time for the window to appear
-            Date.now() - startTime > 5000
-        );
-
-        if (startupComplete) {
-          resolve();
-          return;
-        }
+  private clearWallClock(): void {
+    if (this.wallClockTimer) {
+      clearTimeout(this.wallClockTimer);
+      this.wallClockTimer = null;
+    }
+  }
 
-        if (Date.now() - startTime > timeout) {
-          // Timeout but process is running, consider it started
-          resolve();
-          return;
-        }
+  /**
+   * Start a private Xvfb server sized to the game's resolution
+   */
+  private async startVirtualDisplay(resolution?: { width: number; height: number }): Promise<string> {
+    const virtualDisplay = new VirtualDisplay();
+    virtualDisplay.on('log', (entry) => this.emit('log', entry));
 
-        setTimeout(checkStartup, 500);
-      };
+    const display = await virtualDisplay.start(resolution?.width ?? 1280, resolution?.height ?? 720);
+    this.virtualDisplay = virtualDisplay;
+    return display;
+  }
 
-      checkStartup();
+  /**
+   * Tear down the headless display, if any
+   */
+  private stopVirtualDisplay(): void {
+    const virtualDisplay = this.virtualDisplay;
+    this.virtualDisplay = null;
+    this.state.display = undefined;
+    virtualDisplay?.stop().catch((err) => {
+      this.log('error', `Failed to stop virtual display: ${err.message}`);
     });
   }
 
+  /**
+   * Delete the temporary HOME of the last launch, if it made one
+   */
+  private removeTemporaryHome(): void {
+    const home = this.temporaryHome;
+    this.temporaryHome = null;
+    if (!home) {
+      return;
+    }
+
+    try {
+      rmSync(home, { recursive: true, force: true });
+      this.log('debug', `Removed private HOME ${home}`);
+    } catch (err) {
+      this.log('warn', `Failed to remove private HOME ${home}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  /**
+   * Wait until the readiness probes pass; a game that never gets ready is stopped and
+   * its display, HOME and timer are released before the launch fails
+   */
+  private async waitForStartup(readiness?: ReadinessConfig): Promise<void> {
+    const result = await waitUntilReady({ launcher: this, ...this.readinessTargets }, readiness, this.state.startTime ?? new Date());
+    this.state.readiness = result;
+
+    if (!result.ready) {
+      this.state.lastError = result.reason ?? 'Startup failed';
+      this.log('error', this.state.lastError);
+      this.emit('startupFailed', result);
+
+      if (this.state.running) {
+        this.log('info', 'Stopping the game after its failed startup');
+        // A failed launch is reported to its caller, so only the supervisor's own relaunches
+        // count the exit as a short run and try again
+        this.stopRequested = !this.supervisedLaunch;
+        await this.terminate();
+      }
+      // The exit handler has done this unless the process never reported its exit
+      this.clearWallClock();
+      this.stopVirtualDisplay();
+      this.removeTemporaryHome();
+
+      throw new Error(this.state.lastError);
+    }
+
+    this.log('debug', result.fallback ? `Assumed ready after ${result.elapsedMs}ms` : `Ready after ${result.elapsedMs}ms`);
+  }
+
   /**
    * Handle output from the game process
    */
@@ -215,9 +335,13 @@ export class ProcessLauncher extends EventEmitter {
     const lines = text.split('\n').filter((line) => line.trim());
 
     for (const line of lines) {
+      // Matching works on the plain text; the segments keep the colors for rendering
+      const segments = parseColorCodes(line);
       const output: ConsoleOutput = {
         timestamp: new Date(),
-        text: line,
+        text: segments.map((segment) => segment.text).join(''),
+        raw: line,
+        segments,
         type,
       };
 
@@ -231,7 +355,7 @@ export class ProcessLauncher extends EventEmitter {
       this.emit('output', output);
 
       // Detect specific events
-      this.detectEvents(line);
+      this.detectEvents(output.text);
     }
   }
 
@@ -255,7 +379,8 @@ export class ProcessLauncher extends EventEmitter {
     }
 
     // Crash detection
-    if (line.includes('CRASH') || line.includes('Segmentation fault')) {
+    if (line.includes('CRASH') || line.includes('Segmentation fault') || /Received signal \d+/.test(line)) {
+      this.crashReported = true;
       this.emit('crash', line);
     }
 
@@ -273,22 +398,28 @@ export class ProcessLauncher extends EventEmitter {
    * Stop the game process
    */
   async stop(): Promise<void> {
+    this.supervisor.cancel();
     if (!this.process || !this.state.running) {
       return;
     }
 
     this.log('info', 'Stopping game process...');
+    this.stopRequested = true;
+    return this.terminate();
+  }
 
+  /**
+   * Ask the game to exit and kill it when it does not; the supervisor is left alone, so
+   * an exit that was not asked for still counts as one
+   */
+  private terminate(): Promise<void> {
     return new Promise((resolve) => {
-      const pid = this.process!.pid;
+      const pid = this.process?.pid;
       if (!pid) {
         resolve();
         return;
       }
 
-      // First try graceful shutdown
-      this.process!.kill('SIGTERM');
-
       // Wait for graceful exit
       const timeout = setTimeout(() => {
         this.log('warn', 'Graceful shutdown failed, force killing...');
@@ -309,6 +440,9 @@ export class ProcessLauncher extends EventEmitter {
         this.log('info', 'Game process stopped');
         resolve();
       });
+
+      // First try graceful shutdown
+      this.process!.kill('SIGTERM');
     });
   }
 
@@ -316,10 +450,12 @@ export class ProcessLauncher extends EventEmitter {
    * Force kill the game process
    */
   async forceKill(): Promise<void> {
+    this.supervisor.cancel();
     if (!this.process?.pid) {
       return;
     }
 
+    this.stopRequested = true;
     return new Promise((resolve) => {
       treeKill(this.process!.pid!, 'SIGKILL', (err) => {
         if (err) {
@@ -332,6 +468,18 @@ export class ProcessLauncher extends EventEmitter {
     });
   }
 
+  /**
+   * Launch again with the last configuration on behalf of the supervisor
+   */
+  private async relaunch(): Promise<ProcessState> {
+    this.supervisedLaunch = true;
+    try {
+      return await this.launch(this.config!);
+    } finally {
+      this.supervisedLaunch = false;
+    }
+  }
+
   /**
    * Restart the game
    */
@@ -369,6 +517,20 @@ export class ProcessLauncher extends EventEmitter {
     return { ...this.state };
   }
 
+  /**
+   * Get the configuration of the last launch
+   */
+  getConfig(): GameConfig | null {
+    return this.config ? { ...this.config } : null;
+  }
+
+  /**
+   * Get the command line arguments of the last launch
+   */
+  getLaunchArguments(): string[] {
+    return [...this.launchArguments];
+  }
+
   /**
    * Get console output buffer
    */
@@ -401,12 +563,31 @@ export class ProcessLauncher extends EventEmitter {
   }
 
   /**
-   * Set auto-restart behavior
+   * Give readiness probes access to the session's console, window and screen
+   */
+  setReadinessTargets(targets: Omit<ReadinessTargets, 'launcher'>): void {
+    this.readinessTargets = targets;
+  }
+
+  /**
+   * Set auto-restart behavior (shorthand for setRestartPolicy)
    */
   setAutoRestart(enabled: boolean, maxAttempts = 3): void {
-    this.autoRestart = enabled;
-    this.maxRestartAttempts = maxAttempts;
-    this.restartAttempts = 0;
+    this.supervisor.setPolicy({ enabled, maxAttempts });
+  }
+
+  /**
+   * Change the automatic restart policy
+   */
+  setRestartPolicy(policy: Partial<RestartPolicy>): RestartPolicy {
+    return this.supervisor.setPolicy(policy);
+  }
+
+  /**
+   * Get the restart supervisor, for its status and history
+   */
+  getSupervisor(): Supervisor {
+    return this.supervisor;
   }
 
   /**
@@ -3,9 +3,10 @@
  * Parses and analyzes game log files for errors, events, and statistics
  */
 
-import { existsSync, readFileSync, readdirSync, statSync, watchFile, unwatchFile } from 'fs';
+import { existsSync, readFileSync, readdirSync, statSync, watchFile, unwatchFile, openSync, readSync, closeSync } from 'fs';
 import { join, basename } from 'path';
 import { EventEmitter } from 'events';
+import { stripColorCodes } from './color-codes.js';
 
 export interface LogEntry {
   timestamp: Date | null;
@@ -340,7 +341,7 @@ export class LogAnalyzer extends EventEmitter {
       if (entry.type === 'connect') {
         const nameMatch = entry.raw.match(/Client\s+\d+\s+connected:\s*(.+)/i);
         if (nameMatch) {
-          const name = this.stripColorCodes(nameMatch[1].trim());
+          const name = stripColorCodes(nameMatch[1].trim());
           sessions.set(name, {
             name,
             connectTime: entry.timestamp,
@@ -355,7 +356,7 @@ export class LogAnalyzer extends EventEmitter {
       if (entry.type === 'disconnect') {
         const nameMatch = entry.raw.match(/(.+?)\s+disconnected/i);
         if (nameMatch) {
-          const name = this.stripColorCodes(nameMatch[1].trim());
+          const name = stripColorCodes(nameMatch[1].trim());
           const session = sessions.get(name);
           if (session) {
             session.disconnectTime = entry.timestamp;
@@ -369,8 +370,8 @@ export class LogAnalyzer extends EventEmitter {
 
     // Count kills/deaths
     for (const kill of kills) {
-      const killerName = this.stripColorCodes(kill.killer);
-      const victimName = this.stripColorCodes(kill.victim);
+      const killerName = stripColorCodes(kill.killer);
+      const victimName = stripColorCodes(kill.victim);
 
       const killerSession = sessions.get(killerName);
       if (killerSession) {
@@ -386,13 +387,6 @@ export class LogAnalyzer extends EventEmitter {
     return Array.from(sessions.values());
   }
 
-  /**
-   * Strip Quake color codes
-   */
-  private stripColorCodes(text: string): string {
-    return text.replace(/\^\d/g, '');
-  }
-
   /**
    * Watch log file for new entries
    */
@@ -413,6 +407,7 @@ export class LogAnalyzer extends EventEmitter {
     watchFile(filePath, { interval: 1000 }, () => {
       this.processNewLines(filePath);
     });
+    this.emit('watchStarted', filePath);
   }
 
   /**
@@ -423,15 +418,24 @@ export class LogAnalyzer extends EventEmitter {
       unwatchFile(filePath);
       this.watchedFiles.delete(filePath);
       this.filePositions.delete(filePath);
+      this.emit('watchStopped', filePath);
     }
   }
 
+  /**
+   * Get the files currently being watched
+   */
+  getWatchedLogs(): string[] {
+    return Array.from(this.watchedFiles);
+  }
+
   /**
    * Stop watching all log files
    */
   unwatchAll(): void {
     for (const filePath of this.watchedFiles) {
       unwatchFile(filePath);
+      this.emit('watchStopped', filePath);
     }
     this.watchedFiles.clear();
     this.filePositions.clear();
@@ -451,10 +455,10 @@ export class LogAnalyzer extends EventEmitter {
     }
 
     // Read new content
-    const fd = require('fs').openSync(filePath, 'r');
+    const fd = openSync(filePath, 'r');
     const buffer = Buffer.alloc(stats.size - lastPosition);
-    require('fs').readSync(fd, buffer, 0, buffer.length, lastPosition);
-    require('fs').closeSync(fd);
+    readSync(fd, buffer, 0, buffer.length, lastPosition);
+    closeSync(fd);
 
     this.filePositions.set(filePath, stats.size);
 
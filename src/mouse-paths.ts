@@ -0,0 +1,144 @@
+/**
+ * OpenMOHAA MCP Server - Mouse Path Module
+ * Interpolated pointer movement and relative mouse-look steps
+ */
+
+import { z } from 'zod';
+import type { ConsoleManager } from './console-manager.js';
+import type { MousePosition } from './types.js';
+
+export const motionSchema = z.object({
+  curve: z.enum(['linear', 'eased', 'bezier']).optional()
+    .describe('linear keeps a constant speed, eased starts and stops slowly, bezier is eased along a slightly curved path (default: eased)'),
+  durationMs: z.number().int().min(0).optional().describe('How long the movement takes (default: 250)'),
+  stepsPerSecond: z.number().int().positive().max(1000).optional().describe('Pointer updates per second (default: 60)'),
+});
+
+export type MotionConfig = z.infer<typeof motionSchema>;
+
+export const lookMoveSchema = z.object({
+  yaw: z.number().describe('Horizontal turn; positive turns right'),
+  pitch: z.number().default(0).describe('Vertical turn; positive looks down'),
+  durationMs: z.number().int().min(0).optional().describe('How long the turn takes (default: the motion duration)'),
+  pauseMs: z.number().int().min(0).default(0).describe('Pause after the turn'),
+});
+
+export type LookMove = z.infer<typeof lookMoveSchema>;
+
+/**
+ * A pointer position `t` milliseconds after the movement started
+ */
+export interface PathPoint {
+  x: number;
+  y: number;
+  t: number;
+}
+
+const DEFAULT_DURATION_MS = 250;
+const DEFAULT_STEPS_PER_SECOND = 60;
+
+// Engine defaults for converting degrees to mouse counts
+const DEFAULT_SENSITIVITY = 5;
+const DEFAULT_M_YAW = 0.022;
+const DEFAULT_M_PITCH = 0.022;
+
+/**
+ * Slow at both ends, fastest in the middle
+ */
+function ease(progress: number): number {
+  return (1 - Math.cos(Math.PI * progress)) / 2;
+}
+
+/**
+ * Time and distance fractions for each step of a movement
+ */
+function timeline(motion: MotionConfig): Array<{ t: number; progress: number }> {
+  const duration = motion.durationMs ?? DEFAULT_DURATION_MS;
+  const steps = Math.max(1, Math.round((duration / 1000) * (motion.stepsPerSecond ?? DEFAULT_STEPS_PER_SECOND)));
+
+  return Array.from({ length: steps }, (_, i) => {
+    const fraction = (i + 1) / steps;
+    return { t: Math.round(fraction * duration), progress: motion.curve === 'linear' ? fraction : ease(fraction) };
+  });
+}
+
+/**
+ * Points from one position to another, ending exactly on the target. Bezier paths
+ * bow to one side by up to a fifth of the distance, chosen with `random`.
+ */
+export function interpolatePath(
+  from: MousePosition,
+  to: MousePosition,
+  motion: MotionConfig = {},
+  random: () => number = Math.random
+): PathPoint[] {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  const distance = Math.hypot(dx, dy);
+
+  let position = (progress: number) => ({ x: from.x + dx * progress, y: from.y + dy * progress });
+  if (motion.curve === 'bezier' && distance > 0) {
+    // Control points a third and two thirds of the way along, pushed off the line
+    const normal = { x: -dy / distance, y: dx / distance };
+    const bend = [random(), random()].map((r) => (r * 0.4 - 0.2) * distance);
+    const c1 = { x: from.x + dx / 3 + normal.x * bend[0], y: from.y + dy / 3 + normal.y * bend[0] };
+    const c2 = { x: from.x + (2 * dx) / 3 + normal.x * bend[1], y: from.y + (2 * dy) / 3 + normal.y * bend[1] };
+    position = (p) => {
+      const q = 1 - p;
+      return {
+        x: q * q * q * from.x + 3 * q * q * p * c1.x + 3 * q * p * p * c2.x + p * p * p * to.x,
+        y: q * q * q * from.y + 3 * q * q * p * c1.y + 3 * q * p * p * c2.y + p * p * p * to.y,
+      };
+    };
+  }
+
+  const points: PathPoint[] = [];
+  for (const { t, progress } of timeline(motion)) {
+    const { x, y } = position(progress);
+    const point = { x: Math.round(x), y: Math.round(y), t };
+    const last = points[points.length - 1];
+    if (last && last.x === point.x && last.y === point.y) {
+      last.t = point.t;
+    } else {
+      points.push(point);
+    }
+  }
+  return points;
+}
+
+/**
+ * Relative steps adding up to exactly (dx, dy); bezier is treated as eased
+ */
+export function lookSteps(dx: number, dy: number, motion: MotionConfig = {}): PathPoint[] {
+  const steps: PathPoint[] = [];
+  let sentX = 0;
+  let sentY = 0;
+
+  for (const { t, progress } of timeline(motion)) {
+    const x = Math.round(dx * progress) - sentX;
+    const y = Math.round(dy * progress) - sentY;
+    if (x !== 0 || y !== 0) {
+      steps.push({ x, y, t });
+      sentX += x;
+      sentY += y;
+    }
+  }
+  return steps;
+}
+
+/**
+ * Degrees the view turns per mouse count, from the game's sensitivity, m_yaw and
+ * m_pitch (engine defaults for cvars that cannot be read)
+ */
+export async function readLookScale(console: Pick<ConsoleManager, 'getCvar'>): Promise<{ yaw: number; pitch: number }> {
+  const read = async (name: string, fallback: number) => {
+    const value = parseFloat((await console.getCvar(name).catch(() => null))?.value ?? '');
+    return Number.isFinite(value) && value !== 0 ? value : fallback;
+  };
+
+  const sensitivity = await read('sensitivity', DEFAULT_SENSITIVITY);
+  return {
+    yaw: sensitivity * await read('m_yaw', DEFAULT_M_YAW),
+    pitch: sensitivity * await read('m_pitch', DEFAULT_M_PITCH),
+  };
+}
@@ -238,13 +238,19 @@ export class PerformanceMonitor extends EventEmitter {
   /**
    * Run a benchmark
    */
-  async runBenchmark(name: string, durationMs: number, sampleIntervalMs = 100): Promise<BenchmarkResult> {
+  async runBenchmark(
+    name: string,
+    durationMs: number,
+    sampleIntervalMs = 100,
+    signal?: AbortSignal
+  ): Promise<BenchmarkResult> {
     const samples: PerformanceMetrics[] = [];
     const startTime = Date.now();
 
-    while (Date.now() - startTime < durationMs) {
+    while (Date.now() - startTime < durationMs && !signal?.aborted) {
       const metrics = await this.collectMetrics();
       samples.push(metrics);
+      this.emit('benchmarkProgress', { name, elapsed: Date.now() - startTime, duration: durationMs });
       await new Promise(resolve => setTimeout(resolve, sampleIntervalMs));
     }
 
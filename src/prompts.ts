@@ -0,0 +1,181 @@
+/**
+ * OpenMOHAA MCP Server - Prompts Module
+ * Guided QA workflows published as MCP prompts
+ */
+
+import type { GetPromptResult, Prompt, PromptArgument } from '@modelcontextprotocol/sdk/types.js';
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  render(args: Record<string, string>): string;
+}
+
+const smokeTestMap: PromptDefinition = {
+  name: 'openmohaa_smoke_test_map',
+  description: 'Launch the game, load a map and check that it plays without errors',
+  arguments: [
+    { name: 'map', description: 'Map to test (e.g. dm/mohdm1)', required: true },
+    { name: 'executablePath', description: 'Game executable (defaults to OPENMOHAA_EXEC_PATH)' },
+    { name: 'durationSeconds', description: 'How long to let the map run (default: 30)' },
+  ],
+  render(args) {
+    const duration = Number(args.durationSeconds) || 30;
+    const launchArgs = args.executablePath ? ` with executablePath "${args.executablePath}"` : '';
+
+    return `Smoke-test the OpenMOHAA map "${args.map}". Follow these steps in order and stop at the first failure.
+
+1. Call openmohaa_status. If a game is already running, call openmohaa_stop first.
+2. Call openmohaa_launch${launchArgs}. Subscribe to the openmohaa://console/output resource so you see console output as it arrives.
+3. Call openmohaa_wait_for_console with a pattern that matches the main menu or "Started" to confirm the game finished loading.
+4. Call openmohaa_load_map with mapName "${args.map}", then openmohaa_wait_for_console for "${args.map}" (timeout 60000).
+5. Call openmohaa_wait for ${duration * 1000} ms to let the map run.
+6. Call openmohaa_screenshot and openmohaa_status to confirm the game is still running.
+7. Call openmohaa_get_console_output with lines 500 and look for lines containing "ERROR", "WARNING" or "Couldn't".
+8. Call openmohaa_stop.
+
+Report: PASS or FAIL, the map name, every error or warning line found, and the screenshot path.`;
+  },
+};
+
+const bisectCrash: PromptDefinition = {
+  name: 'openmohaa_bisect_crash',
+  description: 'Find the commit that introduced a crash by building and testing a commit range',
+  arguments: [
+    { name: 'goodCommit', description: 'Last commit known not to crash', required: true },
+    { name: 'badCommit', description: 'First commit known to crash', required: true },
+    { name: 'sourceDir', description: 'OpenMOHAA source checkout', required: true },
+    { name: 'buildDir', description: 'Build directory (default: <sourceDir>/build)' },
+    { name: 'map', description: 'Map that reproduces the crash' },
+  ],
+  render(args) {
+    const buildDir = args.buildDir || `${args.sourceDir}/build`;
+    const repro = args.map
+      ? `call openmohaa_load_map with mapName "${args.map}" and wait for it with openmohaa_wait_for_console`
+      : 'reproduce the crash using the steps from the bug report';
+
+    return `Bisect a crash in OpenMOHAA between ${args.goodCommit} (good) and ${args.badCommit} (bad) in ${args.sourceDir}.
+
+This server has no git checkout tool, so drive \`git bisect start ${args.badCommit} ${args.goodCommit}\` from your own shell in ${args.sourceDir}. For each commit git bisect checks out:
+
+1. Call openmohaa_build_git_info with repoDir "${args.sourceDir}" and note the commit hash.
+2. Call openmohaa_build_configure with sourceDir "${args.sourceDir}" and buildDir "${buildDir}" (buildType RelWithDebInfo), then openmohaa_build_compile with buildDir "${buildDir}". If the build fails, run \`git bisect skip\` and continue.
+3. Call openmohaa_launch with the freshly built executable, then ${repro}.
+4. Call openmohaa_wait for 30000 ms, then openmohaa_status. The commit is bad if the game is no longer running or the exit code is non-zero; check openmohaa_get_console_output for the last lines before the crash.
+5. Call openmohaa_stop (or openmohaa_kill if it hangs) and mark the commit with \`git bisect good\` or \`git bisect bad\`.
+
+When git bisect names the first bad commit, run \`git bisect reset\` and report the commit, its subject, and the console lines leading up to the crash.`;
+  },
+};
+
+const benchmarkPreset: PromptDefinition = {
+  name: 'openmohaa_benchmark_preset',
+  description: 'Apply a graphics preset and benchmark it on a map',
+  arguments: [
+    { name: 'preset', description: 'Graphics preset: low, medium, high or ultra', required: true },
+    { name: 'map', description: 'Map to benchmark on (default: dm/mohdm1)' },
+    { name: 'durationSeconds', description: 'Benchmark duration (default: 60)' },
+  ],
+  render(args) {
+    const map = args.map || 'dm/mohdm1';
+    const duration = Number(args.durationSeconds) || 60;
+
+    return `Benchmark the "${args.preset}" graphics preset on ${map}.
+
+1. Call openmohaa_config_backup with filename "autoexec.cfg" so the current settings can be restored.
+2. Call openmohaa_config_graphics_preset with preset "${args.preset}".
+3. Call openmohaa_launch, then openmohaa_load_map with mapName "${map}" and openmohaa_wait_for_console until the map has loaded.
+4. Call openmohaa_wait for 5000 ms so loading hitches do not skew the result.
+5. Call openmohaa_perf_clear, then openmohaa_perf_benchmark with name "${args.preset}-${map}" and durationMs ${duration * 1000}.
+6. Call openmohaa_perf_check_issues and openmohaa_perf_export_csv.
+7. Call openmohaa_stop and restore the backup from step 1 with openmohaa_config_restore.
+
+Report: average, minimum, 1% low and 0.1% low FPS, any performance issues found, and the CSV.`;
+  },
+};
+
+const validateModScripts: PromptDefinition = {
+  name: 'openmohaa_validate_mod_scripts',
+  description: 'Validate all Morpheus scripts in a mod directory',
+  arguments: [
+    { name: 'modDir', description: 'Mod directory containing .scr files', required: true },
+  ],
+  render(args) {
+    return `Validate every Morpheus script in ${args.modDir}.
+
+1. Call openmohaa_script_validator_status. If mfuse_exec is not available, ask for its path and set it with openmohaa_script_set_mfuse_path (and openmohaa_script_set_commands_list if commands.txt is missing).
+2. Collect the paths of all .scr files under ${args.modDir}, including subdirectories.
+3. Call openmohaa_script_validate_files with those paths, in batches of at most 50.
+4. For each failing script, re-run openmohaa_script_validate_file on it to get the full error output.
+
+Report: the number of scripts checked, and for each failing script its path and every error with line number. Group errors that share the same cause.`;
+  },
+};
+
+export const BUILTIN_PROMPTS: PromptDefinition[] = [
+  smokeTestMap,
+  bisectCrash,
+  benchmarkPreset,
+  validateModScripts,
+];
+
+export class PromptLibrary {
+  private prompts: Map<string, PromptDefinition> = new Map();
+
+  constructor(definitions: PromptDefinition[] = BUILTIN_PROMPTS) {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Register a prompt
+   */
+  register(definition: PromptDefinition): void {
+    if (this.prompts.has(definition.name)) {
+      throw new Error(`Prompt already registered: ${definition.name}`);
+    }
+    this.prompts.set(definition.name, definition);
+  }
+
+  /**
+   * List prompts in MCP format
+   */
+  list(): Prompt[] {
+    return Array.from(this.prompts.values()).map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      arguments: definition.arguments,
+    }));
+  }
+
+  /**
+   * Expand a prompt with its arguments
+   */
+  get(name: string, args: Record<string, string> = {}): GetPromptResult {
+    const definition = this.prompts.get(name);
+    if (!definition) {
+      throw new Error(`Unknown prompt: ${name}`);
+    }
+
+    const missing = definition.arguments
+      .filter((argument) => argument.required && !args[argument.name])
+      .map((argument) => argument.name);
+    if (missing.length > 0) {
+      throw new Error(`Missing required arguments for ${name}: ${missing.join(', ')}`);
+    }
+
+    return {
+      description: definition.description,
+      messages: [
+        {
+          role: 'user',
+          content: { type: 'text', text: definition.render(args) },
+        },
+      ],
+    };
+  }
+}
+
+export default PromptLibrary;
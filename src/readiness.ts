@@ -0,0 +1,248 @@
+/**
+ * OpenMOHAA MCP Server - Readiness Module
+ * Probes that decide when a launched game has finished starting up
+ */
+
+import { z } from 'zod';
+import type { ProcessLauncher } from './launcher.js';
+import type { ConsoleManager } from './console-manager.js';
+import type { UIController } from './ui-controller.js';
+import type { ScreenCapture } from './screen-capture.js';
+
+/**
+ * Check that a pattern compiles as a regular expression
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export const readinessProbeSchema = z.discriminatedUnion('type', [
+  z.object({
+    type: z.literal('console'),
+    pattern: z.string().refine(isValidPattern, 'Invalid regular expression')
+      .describe('Regex matched against console lines printed since launch'),
+    ignoreCase: z.boolean().optional(),
+  }),
+  z.object({
+    type: z.literal('window'),
+    title: z.string().optional().describe('Window title to look for; defaults to the game process\'s window'),
+  }),
+  z.object({
+    type: z.literal('cvar'),
+    name: z.string().describe('Cvar that must answer a query'),
+    expected: z.string().optional().describe('Value the cvar must have; any answer passes when omitted'),
+  }),
+  z.object({
+    type: z.literal('image'),
+    template: z.string().describe('Path to a template image that must appear on screen'),
+    threshold: z.number().min(0).max(1).optional(),
+  }),
+]);
+
+export const readinessSchema = z.object({
+  probes: z.array(readinessProbeSchema).min(1).optional()
+    .describe('Defaults to a console probe for the engine\'s startup banner'),
+  mode: z.enum(['all', 'any']).optional().describe('Whether every probe or any one probe must pass (default: all)'),
+  timeout: z.number().int().positive().optional().describe('Milliseconds before startup is considered failed (default: 30000)'),
+  interval: z.number().int().positive().optional().describe('Milliseconds between probe rounds (default: 500)'),
+});
+
+export type ReadinessProbe = z.infer<typeof readinessProbeSchema>;
+export type ReadinessConfig = z.infer<typeof readinessSchema>;
+
+export interface ProbeStatus {
+  probe: ReadinessProbe;
+  passed: boolean;
+  detail: string;
+  /** Milliseconds after launch at which the probe first passed */
+  passedAfterMs?: number;
+}
+
+export interface ReadinessResult {
+  ready: boolean;
+  mode: 'all' | 'any';
+  elapsedMs: number;
+  probes: ProbeStatus[];
+  /** Why startup was not considered complete */
+  reason?: string;
+  /** Set when the default probes had not passed but the game was still up after the grace period */
+  fallback?: boolean;
+}
+
+/**
+ * Session components the probes need; probes whose component is missing never pass
+ */
+export interface ReadinessTargets {
+  launcher: ProcessLauncher;
+  consoleManager?: ConsoleManager;
+  uiController?: UIController;
+  screenCapture?: ScreenCapture;
+}
+
+export const DEFAULT_READINESS: Required<ReadinessConfig> = {
+  probes: [{ type: 'console', pattern: 'Initializing|Loading|---' }],
+  mode: 'all',
+  timeout: 30000,
+  interval: 500,
+};
+
+/**
+ * Without configured probes, a game still running this long after launch counts as started
+ * even if the default banner never showed, as launches behaved before readiness probes
+ */
+export const DEFAULT_STARTUP_GRACE_MS = 5000;
+
+/**
+ * Describe a probe for log messages and failure reasons
+ */
+export function describeProbe(probe: ReadinessProbe): string {
+  switch (probe.type) {
+    case 'console':
+      return `console /${probe.pattern}/${probe.ignoreCase ? 'i' : ''}`;
+    case 'window':
+      return probe.title ? `window "${probe.title}"` : 'game window';
+    case 'cvar':
+      return probe.expected !== undefined ? `cvar ${probe.name} = "${probe.expected}"` : `cvar ${probe.name}`;
+    case 'image':
+      return `image ${probe.template}`;
+  }
+}
+
+/**
+ * Compile a console probe's pattern
+ */
+function compilePattern(probe: Extract<ReadinessProbe, { type: 'console' }>): RegExp {
+  return new RegExp(probe.pattern, probe.ignoreCase ? 'i' : '');
+}
+
+/**
+ * Run a single probe once; a console probe's pattern can be passed in already compiled
+ */
+export async function runProbe(
+  targets: ReadinessTargets,
+  probe: ReadinessProbe,
+  since: Date,
+  compiled?: RegExp
+): Promise<{ passed: boolean; detail: string }> {
+  switch (probe.type) {
+    case 'console': {
+      const regex = compiled ?? compilePattern(probe);
+      const line = targets.launcher.getConsoleBuffer()
+        .find((output) => output.timestamp >= since && regex.test(output.text));
+      return line
+        ? { passed: true, detail: `matched "${line.text}"` }
+        : { passed: false, detail: 'no matching console line' };
+    }
+
+    case 'window': {
+      if (!targets.uiController) {
+        return { passed: false, detail: 'no UI controller for this session' };
+      }
+      const window = await targets.uiController.findWindow(probe.title);
+      return window
+        ? { passed: true, detail: `window ${window.id} is ${window.width}x${window.height}` }
+        : { passed: false, detail: 'window not found' };
+    }
+
+    case 'cvar': {
+      if (!targets.consoleManager) {
+        return { passed: false, detail: 'no console for this session' };
+      }
+      const cvar = await targets.consoleManager.getCvar(probe.name);
+      if (!cvar) {
+        return { passed: false, detail: 'no answer' };
+      }
+      return probe.expected === undefined || cvar.value === probe.expected
+        ? { passed: true, detail: `answered "${cvar.value}"` }
+        : { passed: false, detail: `answered "${cvar.value}"` };
+    }
+
+    case 'image': {
+      if (!targets.screenCapture) {
+        return { passed: false, detail: 'no screen capture for this session' };
+      }
+      const match = await targets.screenCapture.findImage(probe.template, undefined, probe.threshold);
+      return match.found
+        ? { passed: true, detail: `found at ${match.x},${match.y} (confidence ${match.confidence.toFixed(2)})` }
+        : { passed: false, detail: match.confidence > 0 ? `best confidence ${match.confidence.toFixed(2)}` : 'not found' };
+    }
+  }
+}
+
+/**
+ * Run probes in rounds until they pass, the process exits or the timeout expires.
+ * A probe that has passed stays passed, so a console line that scrolls away still counts.
+ */
+export async function waitUntilReady(
+  targets: ReadinessTargets,
+  config: ReadinessConfig = {},
+  since = new Date()
+): Promise<ReadinessResult> {
+  const probes = config.probes ?? DEFAULT_READINESS.probes;
+  const mode = config.mode ?? DEFAULT_READINESS.mode;
+  const timeout = config.timeout ?? DEFAULT_READINESS.timeout;
+  const interval = config.interval ?? DEFAULT_READINESS.interval;
+  const graceMs = config.probes ? null : Math.min(DEFAULT_STARTUP_GRACE_MS, timeout);
+  const statuses: ProbeStatus[] = probes.map((probe) => ({ probe, passed: false, detail: 'not run yet' }));
+  const startTime = Date.now();
+
+  const result = (ready: boolean, reason?: string): ReadinessResult =>
+    ({ ready, mode, elapsedMs: Date.now() - startTime, probes: statuses, reason });
+
+  // Compile patterns once; one that cannot compile would fail every round until the timeout
+  const patterns = new Map<ReadinessProbe, RegExp>();
+  for (const status of statuses) {
+    if (status.probe.type !== 'console') {
+      continue;
+    }
+    try {
+      patterns.set(status.probe, compilePattern(status.probe));
+    } catch (error) {
+      status.detail = `invalid pattern: ${error instanceof Error ? error.message : error}`;
+      return result(false, `Invalid readiness probe ${describeProbe(status.probe)}`);
+    }
+  }
+
+  for (;;) {
+    for (const status of statuses) {
+      if (status.passed || !targets.launcher.isRunning()) {
+        continue;
+      }
+      try {
+        Object.assign(status, await runProbe(targets, status.probe, since, patterns.get(status.probe)));
+      } catch (error) {
+        status.detail = `probe failed: ${error instanceof Error ? error.message : error}`;
+      }
+      if (status.passed) {
+        status.passedAfterMs = Date.now() - startTime;
+        if (mode === 'any') {
+          return result(true);
+        }
+      }
+    }
+
+    if (!targets.launcher.isRunning()) {
+      const exitCode = targets.launcher.getState().exitCode;
+      return result(false, `Process exited during startup${exitCode !== null ? ` with code ${exitCode}` : ''}`);
+    }
+    if (statuses.every((status) => status.passed)) {
+      return result(true);
+    }
+    if (graceMs !== null && Date.now() - startTime >= graceMs) {
+      return { ...result(true), fallback: true };
+    }
+    if (Date.now() - startTime >= timeout) {
+      const failing = statuses
+        .filter((status) => !status.passed)
+        .map((status) => `${describeProbe(status.probe)}: ${status.detail}`);
+      return result(false, `Startup not ready after ${timeout}ms (${mode === 'all' ? 'waiting on' : 'none of'} ${failing.join('; ')})`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, interval));
+  }
+}
@@ -0,0 +1,514 @@
+/**
+ * OpenMOHAA MCP Server - Resource Manager Module
+ * Exposes game, server, build and log output as MCP resources with change notifications
+ */
+
+import { EventEmitter } from 'events';
+import { basename } from 'path';
+import type { ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import type { ServerManager } from './server-manager.js';
+import type { BuildSystem } from './build-system.js';
+import type { LogAnalyzer, LogEntry } from './log-analyzer.js';
+import type { CvarWatcher } from './cvar-watcher.js';
+import { isValidSessionId, type GameSession, type SessionManager } from './session-manager.js';
+import { parseColorCodes, renderSegments, type ColorFormat } from './color-codes.js';
+import type { ConsoleOutput, LogLevel } from './types.js';
+
+export const RESOURCE_URIS = {
+  consoleOutput: 'openmohaa://console/output',
+  consoleAnsi: 'openmohaa://console/output.ansi',
+  consoleHtml: 'openmohaa://console/output.html',
+  gameStatus: 'openmohaa://game/status',
+  serverOutput: 'openmohaa://server/output',
+  buildOutput: 'openmohaa://build/output',
+  cvarWatches: 'openmohaa://cvar/watches',
+  restartHistory: 'openmohaa://supervisor/history',
+} as const;
+
+const STATIC_URIS = new Set<string>(Object.values(RESOURCE_URIS));
+const LOG_URI_PREFIX = 'openmohaa://log/';
+const DEMO_URI_PREFIX = 'openmohaa://demo/';
+const SESSION_URI_PREFIX = 'openmohaa://session/';
+
+// Resources that belong to one game; the static URIs above serve the default session
+const SESSION_PATHS = new Map<string, string>([
+  ['console/output', RESOURCE_URIS.consoleOutput],
+  ['console/output.ansi', RESOURCE_URIS.consoleAnsi],
+  ['console/output.html', RESOURCE_URIS.consoleHtml],
+  ['game/status', RESOURCE_URIS.gameStatus],
+]);
+
+export interface ResourceManagerComponents {
+  sessions: SessionManager;
+  serverManager: ServerManager;
+  buildSystem: BuildSystem;
+  logAnalyzer: LogAnalyzer;
+  cvarWatcher: CvarWatcher;
+}
+
+export class ResourceManager extends EventEmitter {
+  private components: ResourceManagerComponents;
+  private subscriptions: Map<string, number> = new Map();
+  private autoWatchedLogs: Set<string> = new Set();
+  private pendingUpdates: Map<string, NodeJS.Timeout> = new Map();
+  private notifyDelayMs: number;
+  private tailLines = 100;
+
+  constructor(components: ResourceManagerComponents, notifyDelayMs = 250) {
+    super();
+    this.components = components;
+    this.notifyDelayMs = notifyDelayMs;
+
+    const { sessions, serverManager, buildSystem, logAnalyzer, cvarWatcher } = components;
+    const defaultSession = sessions.get();
+
+    defaultSession.launcher.on('output', () => {
+      this.markUpdated(RESOURCE_URIS.consoleOutput);
+      this.markUpdated(RESOURCE_URIS.consoleAnsi);
+      this.markUpdated(RESOURCE_URIS.consoleHtml);
+    });
+    defaultSession.launcher.on('started', () => this.markUpdated(RESOURCE_URIS.gameStatus));
+    defaultSession.launcher.on('exit', () => this.markUpdated(RESOURCE_URIS.gameStatus));
+
+    for (const { id } of sessions.list()) {
+      this.watchSession(sessions.get(id));
+    }
+    sessions.on('sessionCreated', (id: string) => this.watchSession(sessions.get(id)));
+
+    serverManager.on('output', () => this.markUpdated(RESOURCE_URIS.serverOutput));
+    serverManager.on('error', () => this.markUpdated(RESOURCE_URIS.serverOutput));
+
+    buildSystem.on('output', () => this.markUpdated(RESOURCE_URIS.buildOutput));
+
+    cvarWatcher.on('change', () => this.markUpdated(RESOURCE_URIS.cvarWatches));
+    cvarWatcher.on('match', () => this.markUpdated(RESOURCE_URIS.cvarWatches));
+
+    defaultSession.launcher.getSupervisor().on('history', () => this.markUpdated(RESOURCE_URIS.restartHistory));
+    serverManager.getSupervisor().on('history', () => this.markUpdated(RESOURCE_URIS.restartHistory));
+
+    logAnalyzer.on('entry', ({ filePath }: { filePath: string }) => {
+      this.markUpdated(this.logUri(filePath));
+    });
+    // Error lines arrive as 'error' too, which throws without a listener; 'entry' already notifies
+    logAnalyzer.on('error', ({ filePath, entry }: { filePath: string; entry: LogEntry }) => {
+      this.log('debug', `Error line in ${filePath}: ${entry.message}`);
+    });
+    logAnalyzer.on('watchStarted', () => this.emit('listChanged'));
+    logAnalyzer.on('watchStopped', () => this.emit('listChanged'));
+  }
+
+  /**
+   * List concrete resources, including currently watched logs
+   */
+  list(): Resource[] {
+    const resources: Resource[] = [
+      {
+        uri: RESOURCE_URIS.consoleOutput,
+        name: 'Console Output',
+        description: 'Live console output from OpenMOHAA',
+        mimeType: 'text/plain',
+      },
+      {
+        uri: RESOURCE_URIS.consoleAnsi,
+        name: 'Console Output (ANSI)',
+        description: 'Console output with color codes rendered as ANSI escapes',
+        mimeType: 'text/plain',
+      },
+      {
+        uri: RESOURCE_URIS.consoleHtml,
+        name: 'Console Output (HTML)',
+        description: 'Console output with color codes rendered as HTML spans',
+        mimeType: 'text/html',
+      },
+      {
+        uri: RESOURCE_URIS.gameStatus,
+        name: 'Game Status',
+        description: 'Current game process status',
+        mimeType: 'application/json',
+      },
+      {
+        uri: RESOURCE_URIS.serverOutput,
+        name: 'Server Output',
+        description: 'Console output from the dedicated server',
+        mimeType: 'text/plain',
+      },
+      {
+        uri: RESOURCE_URIS.buildOutput,
+        name: 'Build Output',
+        description: 'Output of the current or last build',
+        mimeType: 'text/plain',
+      },
+      {
+        uri: RESOURCE_URIS.cvarWatches,
+        name: 'Cvar Watches',
+        description: 'Watched cvars, their values and recent changes',
+        mimeType: 'application/json',
+      },
+      {
+        uri: RESOURCE_URIS.restartHistory,
+        name: 'Restart History',
+        description: 'Restart supervisor state and recent exits and restarts of the game and the dedicated server',
+        mimeType: 'application/json',
+      },
+    ];
+
+    for (const filePath of this.components.logAnalyzer.getWatchedLogs()) {
+      resources.push({
+        uri: this.logUri(filePath),
+        name: `Log: ${basename(filePath)}`,
+        description: `Watched log file ${filePath}`,
+        mimeType: 'text/plain',
+      });
+    }
+
+    return resources;
+  }
+
+  /**
+   * List resource templates
+   */
+  listTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${LOG_URI_PREFIX}{name}`,
+        name: 'Log File',
+        description: 'Tail of a log file in the log directory; subscribing starts watching it',
+        mimeType: 'text/plain',
+      },
+      {
+        uriTemplate: `${DEMO_URI_PREFIX}{name}`,
+        name: 'Demo',
+        description: 'Information about a recorded demo',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{session}/console/output`,
+        name: 'Session Console Output',
+        description: 'Live console output from a game session',
+        mimeType: 'text/plain',
+      },
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{session}/console/output.ansi`,
+        name: 'Session Console Output (ANSI)',
+        description: 'A game session\'s console output with color codes rendered as ANSI escapes',
+        mimeType: 'text/plain',
+      },
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{session}/console/output.html`,
+        name: 'Session Console Output (HTML)',
+        description: 'A game session\'s console output with color codes rendered as HTML spans',
+        mimeType: 'text/html',
+      },
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{session}/game/status`,
+        name: 'Session Game Status',
+        description: 'Process status of a game session',
+        mimeType: 'application/json',
+      },
+      {
+        uriTemplate: `${SESSION_URI_PREFIX}{session}/demo/{name}`,
+        name: 'Session Demo',
+        description: 'Information about a demo recorded by a game session',
+        mimeType: 'application/json',
+      },
+    ];
+  }
+
+  /**
+   * Read a resource by URI
+   */
+  read(uri: string): ReadResourceResult {
+    const { sessions, serverManager, buildSystem, logAnalyzer } = this.components;
+    const { launcher } = sessions.get();
+
+    switch (uri) {
+      case RESOURCE_URIS.consoleOutput:
+      case RESOURCE_URIS.consoleAnsi:
+      case RESOURCE_URIS.consoleHtml:
+      case RESOURCE_URIS.gameStatus:
+        return this.readSession(uri, uri, sessions.get());
+
+      case RESOURCE_URIS.serverOutput:
+        return this.text(uri, serverManager.getOutput(this.tailLines).join('\n'));
+
+      case RESOURCE_URIS.buildOutput:
+        return this.text(uri, buildSystem.getBuildStatus().output.slice(-this.tailLines).join(''));
+
+      case RESOURCE_URIS.cvarWatches:
+        return this.json(uri, {
+          watches: this.components.cvarWatcher.list(),
+          recentChanges: this.components.cvarWatcher.getRecentEvents(),
+        });
+
+      case RESOURCE_URIS.restartHistory:
+        return this.json(uri, {
+          game: { ...launcher.getSupervisor().getStatus(), history: launcher.getSupervisor().getHistory(50) },
+          server: { ...serverManager.getSupervisor().getStatus(), history: serverManager.getSupervisor().getHistory(50) },
+        });
+    }
+
+    if (uri.startsWith(LOG_URI_PREFIX)) {
+      const filePath = this.resolveLog(this.templateName(uri, LOG_URI_PREFIX));
+      return this.text(uri, logAnalyzer.tail(filePath, this.tailLines).join('\n'));
+    }
+
+    if (uri.startsWith(DEMO_URI_PREFIX)) {
+      return this.readDemo(uri, this.templateName(uri, DEMO_URI_PREFIX), sessions.get());
+    }
+
+    const target = this.parseSessionUri(uri);
+    if (target) {
+      const session = sessions.get(target.session);
+      return target.path.startsWith('demo/')
+        ? this.readDemo(uri, target.path.slice('demo/'.length), session)
+        : this.readSession(uri, SESSION_PATHS.get(target.path) ?? '', session);
+    }
+
+    throw new Error(`Unknown resource: ${uri}`);
+  }
+
+  /**
+   * Subscribe to updates for a resource
+   * Subscribing to a log that is not being watched starts watching it.
+   */
+  subscribe(uri: string): void {
+    const key = this.normalizeUri(uri);
+
+    if (key.startsWith(LOG_URI_PREFIX)) {
+      const filePath = this.resolveLog(this.templateName(key, LOG_URI_PREFIX));
+      if (!this.components.logAnalyzer.getWatchedLogs().includes(filePath)) {
+        this.components.logAnalyzer.watchLog(filePath);
+        this.autoWatchedLogs.add(filePath);
+        this.log('info', `Watching ${filePath} for subscribers`);
+      }
+    } else if (!key.startsWith(DEMO_URI_PREFIX) && !STATIC_URIS.has(key) && !this.parseSessionUri(key)) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+
+    this.subscriptions.set(key, (this.subscriptions.get(key) || 0) + 1);
+  }
+
+  /**
+   * Drop a subscription; logs watched only for subscribers are released with the last one
+   */
+  unsubscribe(uri: string): void {
+    const key = this.normalizeUri(uri);
+    const count = this.subscriptions.get(key);
+    if (!count) {
+      return;
+    }
+
+    if (count > 1) {
+      this.subscriptions.set(key, count - 1);
+      return;
+    }
+
+    this.subscriptions.delete(key);
+
+    for (const filePath of this.autoWatchedLogs) {
+      if (this.logUri(filePath) === key) {
+        this.components.logAnalyzer.unwatchLog(filePath);
+        this.autoWatchedLogs.delete(filePath);
+      }
+    }
+  }
+
+  /**
+   * Normalize a resource URI to the form carried by 'updated' events
+   */
+  normalizeUri(uri: string): string {
+    if (uri.startsWith(LOG_URI_PREFIX)) {
+      return `${LOG_URI_PREFIX}${encodeURIComponent(this.templateName(uri, LOG_URI_PREFIX))}`;
+    }
+    return uri;
+  }
+
+  /**
+   * Get the number of active subscriptions for a resource
+   */
+  getSubscriberCount(uri: string): number {
+    return this.subscriptions.get(uri) || 0;
+  }
+
+  /**
+   * Cancel pending notifications
+   */
+  dispose(): void {
+    for (const timer of this.pendingUpdates.values()) {
+      clearTimeout(timer);
+    }
+    this.pendingUpdates.clear();
+  }
+
+  /**
+   * Coalesce bursts of output into a single 'updated' event per resource
+   */
+  private markUpdated(uri: string): void {
+    if (!this.subscriptions.has(uri) || this.pendingUpdates.has(uri)) {
+      return;
+    }
+
+    this.pendingUpdates.set(uri, setTimeout(() => {
+      this.pendingUpdates.delete(uri);
+      this.emit('updated', uri);
+    }, this.notifyDelayMs));
+  }
+
+  /**
+   * Notify subscribers of a session's resources when its game prints or changes state;
+   * the listeners go with the launcher's when the session is closed
+   */
+  private watchSession(session: GameSession): void {
+    const uri = (path: string) => `${SESSION_URI_PREFIX}${encodeURIComponent(session.id)}/${path}`;
+
+    session.launcher.on('output', () => {
+      this.markUpdated(uri('console/output'));
+      this.markUpdated(uri('console/output.ansi'));
+      this.markUpdated(uri('console/output.html'));
+    });
+    session.launcher.on('started', () => this.markUpdated(uri('game/status')));
+    session.launcher.on('exit', () => this.markUpdated(uri('game/status')));
+  }
+
+  /**
+   * Read a console or status resource of a session; `kind` is the matching default-session URI
+   */
+  private readSession(uri: string, kind: string, session: GameSession): ReadResourceResult {
+    switch (kind) {
+      case RESOURCE_URIS.consoleOutput: {
+        const output = session.consoleManager.getRecentOutput(this.tailLines);
+        return this.text(uri, output.map((o: ConsoleOutput) => `[${o.type}] ${o.text}`).join('\n'));
+      }
+
+      case RESOURCE_URIS.consoleAnsi:
+        return this.text(uri, this.renderConsole(session, 'ansi'));
+
+      case RESOURCE_URIS.consoleHtml:
+        return {
+          contents: [{ uri, mimeType: 'text/html', text: `<pre class="console">\n${this.renderConsole(session, 'html')}\n</pre>` }],
+        };
+
+      default:
+        return this.json(uri, session.launcher.getState());
+    }
+  }
+
+  private readDemo(uri: string, name: string, session: GameSession): ReadResourceResult {
+    const demo = session.demoManager.listDemos().find((d) => d.name === name);
+    if (!demo) {
+      throw new Error(`Demo not found: ${name}`);
+    }
+    return this.json(uri, demo);
+  }
+
+  /**
+   * Split a per-session URI into its session ID and resource path, or return null
+   */
+  private parseSessionUri(uri: string): { session: string; path: string } | null {
+    if (!uri.startsWith(SESSION_URI_PREFIX)) {
+      return null;
+    }
+
+    const rest = uri.slice(SESSION_URI_PREFIX.length);
+    const slash = rest.indexOf('/');
+    if (slash <= 0) {
+      return null;
+    }
+
+    const session = decodeURIComponent(rest.slice(0, slash));
+    const path = rest.slice(slash + 1);
+    const known = SESSION_PATHS.has(path) || (path.startsWith('demo/') && path.length > 'demo/'.length);
+    return isValidSessionId(session) && known ? { session, path } : null;
+  }
+
+  /**
+   * Render the console tail with colors
+   */
+  private renderConsole(session: GameSession, format: ColorFormat): string {
+    return session.consoleManager.getRecentOutput(this.tailLines)
+      .map((o) => `[${o.type}] ${renderSegments(o.segments ?? parseColorCodes(o.raw ?? o.text), format)}`)
+      .join('\n');
+  }
+
+  /**
+   * Resolve a log name to a path, preferring watched files
+   */
+  private resolveLog(name: string): string {
+    const watched = this.components.logAnalyzer.getWatchedLogs().find((filePath) => basename(filePath) === name);
+    if (watched) {
+      return watched;
+    }
+
+    const log = this.components.logAnalyzer.listLogs().find((l) => l.name === name);
+    if (!log) {
+      throw new Error(`Log not found: ${name}`);
+    }
+    return log.path;
+  }
+
+  private logUri(filePath: string): string {
+    return `${LOG_URI_PREFIX}${encodeURIComponent(basename(filePath))}`;
+  }
+
+  private templateName(uri: string, prefix: string): string {
+    return decodeURIComponent(uri.slice(prefix.length));
+  }
+
+  private text(uri: string, text: string): ReadResourceResult {
+    return { contents: [{ uri, mimeType: 'text/plain', text }] };
+  }
+
+  private json(uri: string, value: unknown): ReadResourceResult {
+    return { contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(value, null, 2) }] };
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+/**
+ * Subscriptions held by one client session, each counted once against the shared manager
+ */
+export class ResourceSubscriptions {
+  private resources: ResourceManager;
+  private uris: Set<string> = new Set();
+
+  constructor(resources: ResourceManager) {
+    this.resources = resources;
+  }
+
+  has(uri: string): boolean {
+    return this.uris.has(uri);
+  }
+
+  subscribe(uri: string): void {
+    const key = this.resources.normalizeUri(uri);
+    if (!this.uris.has(key)) {
+      this.resources.subscribe(key);
+      this.uris.add(key);
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    const key = this.resources.normalizeUri(uri);
+    if (this.uris.delete(key)) {
+      this.resources.unsubscribe(key);
+    }
+  }
+
+  /**
+   * Release everything this session still holds, e.g. when it closes
+   */
+  release(): void {
+    for (const uri of this.uris) {
+      this.resources.unsubscribe(uri);
+    }
+    this.uris.clear();
+  }
+}
+
+export default ResourceManager;
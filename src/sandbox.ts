@@ -0,0 +1,120 @@
+/**
+ * OpenMOHAA MCP Server - Sandbox Module
+ * Resource limits, environment filtering and a private HOME for launched games
+ */
+
+import { mkdirSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { z } from 'zod';
+
+export const sandboxSchema = z.object({
+  memoryMb: z.number().int().positive().optional()
+    .describe('Address space limit in MiB (ulimit -v); allocations beyond it fail'),
+  cpuAffinity: z.array(z.number().int().min(0)).min(1).optional().describe('CPUs the game may run on (taskset)'),
+  nice: z.number().int().min(-20).max(19).optional().describe('Scheduling priority; negative values need privileges'),
+  openFiles: z.number().int().positive().optional().describe('Open file descriptor limit (ulimit -n)'),
+  wallClockMs: z.number().int().positive().optional().describe('Stop the game after this long'),
+  env: z.enum(['inherit', 'clean']).optional()
+    .describe('inherit passes the server\'s whole environment; clean passes only display, locale and path variables'),
+  envAllowlist: z.array(z.string()).optional().describe('Extra variables passed through in clean mode'),
+  privateHome: z.union([z.boolean(), z.string()]).optional()
+    .describe('Run with HOME set to a fresh temporary directory, removed when the game exits (true), or to the given directory'),
+});
+
+export type SandboxConfig = z.infer<typeof sandboxSchema>;
+
+/**
+ * Variables a game needs to open a window, find its libraries and print text
+ */
+export const CLEAN_ENV_VARIABLES = [
+  'PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'TERM', 'TZ', 'LANG', 'LANGUAGE', 'LC_ALL', 'LC_CTYPE',
+  'DISPLAY', 'WAYLAND_DISPLAY', 'XAUTHORITY', 'XDG_RUNTIME_DIR', 'XDG_SESSION_TYPE',
+  'DBUS_SESSION_BUS_ADDRESS', 'PULSE_SERVER', 'LD_LIBRARY_PATH',
+];
+
+/**
+ * Build the game's environment: the parent's (all of it, or the clean subset),
+ * then a private HOME if requested. Returns the HOME in use when it is private,
+ * and whether it is a temporary directory the caller should remove.
+ */
+export function buildEnvironment(
+  parent: NodeJS.ProcessEnv,
+  sandbox: SandboxConfig = {}
+): { env: NodeJS.ProcessEnv; home?: string; temporary?: boolean } {
+  let env: NodeJS.ProcessEnv;
+  if (sandbox.env === 'clean') {
+    env = {};
+    for (const name of [...CLEAN_ENV_VARIABLES, ...(sandbox.envAllowlist ?? [])]) {
+      if (parent[name] !== undefined) {
+        env[name] = parent[name];
+      }
+    }
+  } else {
+    env = { ...parent };
+  }
+
+  if (!sandbox.privateHome) {
+    return { env };
+  }
+
+  const temporary = typeof sandbox.privateHome !== 'string';
+  const home = typeof sandbox.privateHome === 'string'
+    ? sandbox.privateHome
+    : mkdtempSync(join(tmpdir(), 'openmohaa-home-'));
+  mkdirSync(home, { recursive: true });
+
+  // XDG directories would otherwise still point into the real home
+  env.HOME = home;
+  env.XDG_CONFIG_HOME = join(home, '.config');
+  env.XDG_DATA_HOME = join(home, '.local', 'share');
+  env.XDG_CACHE_HOME = join(home, '.cache');
+
+  return { env, home, temporary };
+}
+
+/**
+ * Quote a word for /bin/sh
+ */
+function shellQuote(word: string): string {
+  return `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build the command that starts the game. Limits are applied by a shell that then
+ * execs the game (through taskset and nice if needed), so the game keeps the shell's PID.
+ */
+export function buildCommand(
+  executablePath: string,
+  args: string[],
+  options: { coreDumps?: boolean; sandbox?: SandboxConfig } = {}
+): [string, string[]] {
+  const sandbox = options.sandbox ?? {};
+  const steps: string[] = [];
+
+  if (options.coreDumps !== false) {
+    steps.push('ulimit -c unlimited 2>/dev/null');
+  }
+  if (sandbox.memoryMb !== undefined) {
+    steps.push(`ulimit -v ${sandbox.memoryMb * 1024} || { echo "Cannot limit memory to ${sandbox.memoryMb} MiB" >&2; exit 126; }`);
+  }
+  if (sandbox.openFiles !== undefined) {
+    steps.push(`ulimit -n ${sandbox.openFiles} || { echo "Cannot limit open files to ${sandbox.openFiles}" >&2; exit 126; }`);
+  }
+
+  const wrappers: string[] = [];
+  if (sandbox.cpuAffinity) {
+    steps.push('command -v taskset >/dev/null || { echo "taskset not found; install util-linux for cpuAffinity" >&2; exit 127; }');
+    wrappers.push('taskset', '-c', sandbox.cpuAffinity.join(','));
+  }
+  if (sandbox.nice !== undefined) {
+    wrappers.push('nice', '-n', String(sandbox.nice));
+  }
+
+  if (steps.length === 0 && wrappers.length === 0) {
+    return [executablePath, args];
+  }
+
+  steps.push(`exec ${[...wrappers.map(shellQuote), '"$0" "$@"'].join(' ')}`);
+  return ['/bin/sh', ['-c', steps.join('; '), executablePath, ...args]];
+}
@@ -9,6 +9,7 @@ import { writeFileSync, readFileSync, existsSync, unlinkSync, mkdirSync } from '
 import { join, dirname } from 'path';
 import { tmpdir } from 'os';
 import { EventEmitter } from 'events';
+import { createDisplayBackend, type DisplayBackend } from './display-backend.js';
 import type { ScreenRegion, PixelColor, WindowInfo } from './types.js';
 
 const execAsync = promisify(exec);
@@ -32,12 +33,15 @@ export interface CaptureResult {
 
 export class ScreenCapture extends EventEmitter {
   private tempDir: string;
-  private windowId: string | null = null;
   private windowTitle = 'OpenMOHAA';
+  private windowPid: number | null = null;
+  private display: string | null = null;
+  private backend: DisplayBackend;
 
   constructor() {
     super();
     this.tempDir = join(tmpdir(), 'openmohaa-mcp');
+    this.backend = createDisplayBackend((command) => this.exec(command));
     this.ensureTempDir();
   }
 
@@ -54,7 +58,8 @@ export class ScreenCapture extends EventEmitter {
    * Check if required tools are available
    */
   async checkDependencies(): Promise<{ available: boolean; missing: string[] }> {
-    const tools = ['import', 'convert', 'identify']; // ImageMagick tools
+    // The backend's capture tool, then ImageMagick for pixels, sizes and matching
+    const tools = [...this.backend.getInfo().tools.capture, 'convert', 'identify'];
     const missing: string[] = [];
 
     for (const tool of tools) {
@@ -69,22 +74,14 @@ export class ScreenCapture extends EventEmitter {
   }
 
   /**
-   * Find the game window
+   * Find the game window; looked up on every capture since it may have moved
    */
-  private async findWindow(): Promise<string | null> {
+  private async findWindow(): Promise<WindowInfo | null> {
     try {
-      const { stdout } = await execAsync(
-        `xdotool search --name "${this.windowTitle}" 2>/dev/null | head -1`
-      );
-      const windowId = stdout.trim();
-      if (windowId) {
-        this.windowId = windowId;
-        return windowId;
-      }
+      return await this.backend.findWindow({ pid: this.windowPid, title: this.windowTitle });
     } catch {
-      // Window not found
+      return null;
     }
-    return null;
   }
 
   /**
@@ -95,12 +92,7 @@ export class ScreenCapture extends EventEmitter {
     const filepath = join(this.tempDir, filename);
 
     try {
-      // Use import from ImageMagick
-      if (format === 'jpeg') {
-        await execAsync(`import -window root -quality ${quality} ${filepath}`);
-      } else {
-        await execAsync(`import -window root ${filepath}`);
-      }
+      await this.backend.capture({ type: 'screen' }, filepath, { format, quality });
 
       const data = readFileSync(filepath);
       const dimensions = await this.getImageDimensions(filepath);
@@ -125,12 +117,8 @@ export class ScreenCapture extends EventEmitter {
    * Capture the game window
    */
   async captureWindow(format: 'png' | 'jpeg' = 'png', quality = 90): Promise<CaptureResult> {
-    let windowId = this.windowId;
-    if (!windowId) {
-      windowId = await this.findWindow();
-    }
-
-    if (!windowId) {
+    const window = await this.findWindow();
+    if (!window) {
       return {
         success: false,
         error: 'Game window not found',
@@ -141,12 +129,7 @@ export class ScreenCapture extends EventEmitter {
     const filepath = join(this.tempDir, filename);
 
     try {
-      // Capture specific window
-      if (format === 'jpeg') {
-        await execAsync(`import -window ${windowId} -quality ${quality} ${filepath}`);
-      } else {
-        await execAsync(`import -window ${windowId} ${filepath}`);
-      }
+      await this.backend.capture({ type: 'window', window }, filepath, { format, quality });
 
       const data = readFileSync(filepath);
       const dimensions = await this.getImageDimensions(filepath);
@@ -177,14 +160,9 @@ export class ScreenCapture extends EventEmitter {
   ): Promise<CaptureResult> {
     const filename = `region_${Date.now()}.${format}`;
     const filepath = join(this.tempDir, filename);
-    const geometry = `${region.width}x${region.height}+${region.x}+${region.y}`;
 
     try {
-      if (format === 'jpeg') {
-        await execAsync(`import -window root -crop ${geometry} -quality ${quality} ${filepath}`);
-      } else {
-        await execAsync(`import -window root -crop ${geometry} ${filepath}`);
-      }
+      await this.backend.capture({ type: 'region', region }, filepath, { format, quality });
 
       const data = readFileSync(filepath);
 
@@ -211,10 +189,10 @@ export class ScreenCapture extends EventEmitter {
     try {
       // Capture 1x1 region and get color
       const tempFile = join(this.tempDir, `pixel_${Date.now()}.png`);
-      await execAsync(`import -window root -crop 1x1+${x}+${y} ${tempFile}`);
+      await this.backend.capture({ type: 'region', region: { x, y, width: 1, height: 1 } }, tempFile);
 
       // Get pixel color using ImageMagick
-      const { stdout } = await execAsync(
+      const { stdout } = await this.exec(
         `convert ${tempFile} -format "%[pixel:p{0,0}]" info:`
       );
 
@@ -355,7 +333,7 @@ export class ScreenCapture extends EventEmitter {
 
       try {
         // Use subimage-search to find template
-        const { stdout } = await execAsync(
+        const { stdout } = await this.exec(
           `compare -subimage-search -metric RMSE "${capture.path}" "${templatePath}" "${resultPath}" 2>&1 || true`
         );
 
@@ -401,11 +379,12 @@ export class ScreenCapture extends EventEmitter {
   async waitForImage(
     templatePath: string,
     timeout = 30000,
-    threshold = 0.9
+    threshold = 0.9,
+    signal?: AbortSignal
   ): Promise<ImageMatchResult> {
     const startTime = Date.now();
 
-    while (Date.now() - startTime < timeout) {
+    while (Date.now() - startTime < timeout && !signal?.aborted) {
       const result = await this.findImage(templatePath, undefined, threshold);
       if (result.found) {
         return result;
@@ -423,7 +402,7 @@ export class ScreenCapture extends EventEmitter {
     imagePath: string
   ): Promise<{ width: number; height: number }> {
     try {
-      const { stdout } = await execAsync(`identify -format "%wx%h" "${imagePath}"`);
+      const { stdout } = await this.exec(`identify -format "%wx%h" "${imagePath}"`);
       const [width, height] = stdout.trim().split('x').map(Number);
       return { width, height };
     } catch {
@@ -480,7 +459,30 @@ export class ScreenCapture extends EventEmitter {
    */
   setWindowTitle(title: string): void {
     this.windowTitle = title;
-    this.windowId = null;
+  }
+
+  /**
+   * Bind to the window owned by a process, falling back to the title search
+   */
+  setWindowPid(pid: number | null): void {
+    this.windowPid = pid;
+  }
+
+  /**
+   * Capture from a specific X display (e.g. a headless Xvfb) instead of the inherited one
+   */
+  setDisplay(display: string | null): void {
+    this.display = display;
+    this.backend = createDisplayBackend((command) => this.exec(command), display);
+  }
+
+  /**
+   * Run a shell command against the bound display
+   */
+  private exec(command: string): Promise<{ stdout: string; stderr: string }> {
+    return this.display
+      ? execAsync(command, { env: { ...process.env, DISPLAY: this.display, WAYLAND_DISPLAY: undefined } })
+      : execAsync(command);
   }
 
   /**
@@ -511,9 +513,7 @@ export class ScreenCapture extends EventEmitter {
    */
   async getScreenResolution(): Promise<{ width: number; height: number }> {
     try {
-      const { stdout } = await execAsync("xdpyinfo | grep dimensions | awk '{print $2}'");
-      const [width, height] = stdout.trim().split('x').map(Number);
-      return { width, height };
+      return await this.backend.getScreenResolution();
     } catch {
       return { width: 1920, height: 1080 };
     }
@@ -9,6 +9,7 @@ import { existsSync, readFileSync, writeFileSync, appendFileSync } from 'fs';
 import { join } from 'path';
 import { EventEmitter } from 'events';
 import * as dgram from 'dgram';
+import { Supervisor, type RestartPolicy } from './supervisor.js';
 
 const execAsync = promisify(exec);
 
@@ -56,9 +57,19 @@ export class ServerManager extends EventEmitter {
   private startTime: number | null = null;
   private outputBuffer: string[] = [];
   private maxOutputBufferSize = 1000;
+  private stopRequested = false;
+  private supervisor: Supervisor;
 
   constructor() {
     super();
+    this.supervisor = new Supervisor('server', async () => {
+      const result = await this.startServer(this.config!);
+      if (!result.success) {
+        throw new Error(result.message);
+      }
+    });
+    this.supervisor.on('log', (entry) => this.emit('log', entry));
+    this.supervisor.on('crashLoop', (report) => this.emit('crashLoop', report));
   }
 
   /**
@@ -126,6 +137,10 @@ export class ServerManager extends EventEmitter {
       args.push(...config.additionalArgs);
     }
 
+    // A start supersedes a pending automatic restart
+    this.supervisor.cancel();
+    this.stopRequested = false;
+
     return new Promise((resolve) => {
       this.emit('log', { message: `Starting server: ${config.executablePath} ${args.join(' ')}` });
 
@@ -152,10 +167,11 @@ export class ServerManager extends EventEmitter {
         this.emit('error', text);
       });
 
-      this.serverProcess.on('close', (code) => {
+      this.serverProcess.on('close', (code, signal) => {
         this.emit('close', { code });
         this.serverProcess = null;
         this.startTime = null;
+        this.supervisor.processExited({ code, signal, requested: this.stopRequested });
       });
 
       this.serverProcess.on('error', (err) => {
@@ -170,11 +186,14 @@ export class ServerManager extends EventEmitter {
       // Give the server a moment to start
       setTimeout(() => {
         if (this.serverProcess && !this.serverProcess.killed) {
+          this.supervisor.processStarted();
           resolve({
             success: true,
             pid: this.serverProcess.pid || null,
             message: 'Server started successfully',
           });
+        } else {
+          resolve({ success: false, pid: null, message: 'Server exited during startup' });
         }
       }, 1000);
     });
@@ -184,6 +203,7 @@ export class ServerManager extends EventEmitter {
    * Stop the server gracefully
    */
   async stopServer(): Promise<{ success: boolean; message: string }> {
+    this.supervisor.cancel();
     if (!this.serverProcess) {
       return {
         success: false,
@@ -191,6 +211,8 @@ export class ServerManager extends EventEmitter {
       };
     }
 
+    this.stopRequested = true;
+
     // Try graceful shutdown via RCON first
     if (this.config?.rconPassword) {
       try {
@@ -379,6 +401,20 @@ export class ServerManager extends EventEmitter {
     return status;
   }
 
+  /**
+   * Change the automatic restart policy
+   */
+  setRestartPolicy(policy: Partial<RestartPolicy>): RestartPolicy {
+    return this.supervisor.setPolicy(policy);
+  }
+
+  /**
+   * Get the restart supervisor, for its status and history
+   */
+  getSupervisor(): Supervisor {
+    return this.supervisor;
+  }
+
   /**
    * Get server status
    */
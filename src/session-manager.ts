@@ -0,0 +1,222 @@
+/**
+ * OpenMOHAA MCP Server - Session Manager Module
+ * Keeps one launcher, console, UI controller, screen capture, demo manager and
+ * performance monitor per game instance
+ */
+
+import { EventEmitter } from 'events';
+import { ProcessLauncher } from './launcher.js';
+import { ConsoleManager } from './console-manager.js';
+import { UIController } from './ui-controller.js';
+import { ScreenCapture } from './screen-capture.js';
+import { DemoManager } from './demo-manager.js';
+import { PerformanceMonitor } from './performance-monitor.js';
+import type { LogLevel, ProcessState } from './types.js';
+
+export const DEFAULT_SESSION = 'default';
+
+export const SESSION_ID_MESSAGE = 'Session IDs may only contain letters, digits, "_", "." and "-", and may not be "." or ".."';
+
+/**
+ * Check that a session ID is safe to use as a file or directory name
+ */
+export function isValidSessionId(id: string): boolean {
+  return /^[\w.-]+$/.test(id) && id !== '.' && id !== '..';
+}
+
+export interface GameSession {
+  id: string;
+  launcher: ProcessLauncher;
+  consoleManager: ConsoleManager;
+  uiController: UIController;
+  screenCapture: ScreenCapture;
+  demoManager: DemoManager;
+  performanceMonitor: PerformanceMonitor;
+  createdAt: Date;
+}
+
+export interface SessionInfo {
+  id: string;
+  createdAt: Date;
+  state: ProcessState;
+}
+
+export class SessionManager extends EventEmitter {
+  private sessions: Map<string, GameSession> = new Map();
+  private nextId = 1;
+
+  constructor(defaultSession?: Omit<GameSession, 'id' | 'createdAt'>) {
+    super();
+    this.add(DEFAULT_SESSION, defaultSession ?? this.createComponents(DEFAULT_SESSION));
+  }
+
+  /**
+   * Create a new session; an ID is generated when none is given
+   */
+  create(id?: string): GameSession {
+    const sessionId = id || this.generateId();
+    if (!isValidSessionId(sessionId)) {
+      throw new Error(`Invalid session ID "${sessionId}": ${SESSION_ID_MESSAGE}`);
+    }
+    if (this.sessions.has(sessionId)) {
+      throw new Error(`Session already exists: ${sessionId}`);
+    }
+    return this.add(sessionId, this.createComponents(sessionId));
+  }
+
+  /**
+   * Get a session, falling back to the default session
+   */
+  get(id?: string): GameSession {
+    const session = this.sessions.get(id || DEFAULT_SESSION);
+    if (!session) {
+      throw new Error(`Unknown session: ${id}`);
+    }
+    return session;
+  }
+
+  /**
+   * Get a session, creating it if it does not exist yet
+   */
+  getOrCreate(id?: string): GameSession {
+    if (!id || this.sessions.has(id)) {
+      return this.get(id);
+    }
+    return this.create(id);
+  }
+
+  /**
+   * Check if a session exists
+   */
+  has(id: string): boolean {
+    return this.sessions.has(id);
+  }
+
+  /**
+   * List all sessions with their process state
+   */
+  list(): SessionInfo[] {
+    return Array.from(this.sessions.values()).map((session) => ({
+      id: session.id,
+      createdAt: session.createdAt,
+      state: session.launcher.getState(),
+    }));
+  }
+
+  /**
+   * Stop a session's game and remove it (the default session is only stopped)
+   */
+  async close(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+
+    if (session.launcher.isRunning()) {
+      await session.launcher.stop();
+    }
+
+    if (id !== DEFAULT_SESSION) {
+      session.performanceMonitor.stopMonitoring();
+      session.launcher.removeAllListeners();
+      session.consoleManager.removeAllListeners();
+      session.uiController.removeAllListeners();
+      session.screenCapture.removeAllListeners();
+      session.performanceMonitor.removeAllListeners();
+      this.sessions.delete(id);
+      this.log('info', `Closed session ${id}`);
+      this.emit('sessionClosed', id);
+    }
+
+    return true;
+  }
+
+  /**
+   * Stop all sessions
+   */
+  async closeAll(): Promise<void> {
+    for (const id of Array.from(this.sessions.keys())) {
+      await this.close(id);
+    }
+  }
+
+  /**
+   * Register a session and bind its UI and screen capture to the game's window and display
+   * as soon as the process is spawned, so readiness probes can look for the window
+   */
+  private add(id: string, components: Omit<GameSession, 'id' | 'createdAt'>): GameSession {
+    const session: GameSession = { id, ...components, createdAt: new Date() };
+
+    session.launcher.setReadinessTargets({
+      consoleManager: session.consoleManager,
+      uiController: session.uiController,
+      screenCapture: session.screenCapture,
+    });
+    session.launcher.on('spawned', (state: ProcessState) => {
+      session.uiController.setDisplay(state.display ?? null);
+      session.screenCapture.setDisplay(state.display ?? null);
+      session.uiController.setWindowPid(state.pid);
+      session.screenCapture.setWindowPid(state.pid);
+      if (state.pid) {
+        session.performanceMonitor.setPid(state.pid);
+      }
+    });
+    // Commands and console toggles that cannot go through stdin are typed into the game window
+    session.consoleManager.on('needKeySimulation', (request: { command?: string; key?: string }) => {
+      const typing = request.command !== undefined
+        ? session.uiController.sendToConsole(request.command)
+        : session.uiController.toggleConsole();
+      typing.catch((err) => this.log('warn', `[${id}] Key simulation failed: ${err instanceof Error ? err.message : String(err)}`));
+    });
+    session.launcher.on('exit', () => {
+      session.uiController.setDisplay(null);
+      session.screenCapture.setDisplay(null);
+      session.uiController.setWindowPid(null);
+      session.screenCapture.setWindowPid(null);
+    });
+
+    this.sessions.set(id, session);
+    this.emit('sessionCreated', id);
+    return session;
+  }
+
+  /**
+   * Create fresh components for a session
+   */
+  private createComponents(id: string): Omit<GameSession, 'id' | 'createdAt'> {
+    const launcher = new ProcessLauncher();
+    launcher.on('log', (entry) => this.emit('log', { ...entry, message: `[${id}] ${entry.message}` }));
+
+    const consoleManager = new ConsoleManager(launcher);
+    const screenCapture = new ScreenCapture();
+
+    return {
+      launcher,
+      consoleManager,
+      uiController: new UIController(),
+      screenCapture,
+      demoManager: new DemoManager(consoleManager, '.'),
+      performanceMonitor: new PerformanceMonitor(screenCapture, consoleManager),
+    };
+  }
+
+  /**
+   * Generate an unused session ID
+   */
+  private generateId(): string {
+    let id: string;
+    do {
+      id = `session-${this.nextId++}`;
+    } while (this.sessions.has(id));
+    return id;
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default SessionManager;
@@ -0,0 +1,308 @@
+/**
+ * OpenMOHAA MCP Server - Supervisor Module
+ * Restarts a game or server after unexpected exits, with backoff and crash-loop detection
+ */
+
+import { EventEmitter } from 'events';
+import type { LogLevel } from './types.js';
+
+export interface RestartPolicy {
+  enabled: boolean;
+  /** Delay before the first restart after a healthy run */
+  initialDelayMs: number;
+  maxDelayMs: number;
+  /** Factor the delay grows by with each consecutive failure */
+  multiplier: number;
+  /** A run lasting this long resets the backoff */
+  healthyUptimeMs: number;
+  /** This many short runs within the window is a crash loop; restarting stops */
+  crashLoopThreshold: number;
+  crashLoopWindowMs: number;
+  /** Consecutive restarts allowed before giving up; 0 for no limit */
+  maxAttempts: number;
+}
+
+export type SupervisorState = 'disabled' | 'idle' | 'running' | 'backoff' | 'crash_loop' | 'gave_up';
+
+export interface RestartEvent {
+  timestamp: Date;
+  type: 'exit' | 'restart' | 'restart_failed' | 'healthy' | 'crash_loop' | 'gave_up';
+  exitCode?: number | null;
+  signal?: string | null;
+  /** How long the run that ended lasted */
+  uptimeMs?: number;
+  attempt?: number;
+  delayMs?: number;
+  message: string;
+}
+
+export interface SupervisorStatus {
+  target: string;
+  state: SupervisorState;
+  policy: RestartPolicy;
+  /** Consecutive restarts since the last healthy run */
+  attempt: number;
+  nextRestartAt: Date | null;
+  lastExit: RestartEvent | null;
+}
+
+export interface ExitInfo {
+  code: number | null;
+  signal: string | null;
+  /** The exit was asked for (stop, restart, kill) */
+  requested: boolean;
+}
+
+export const DEFAULT_RESTART_POLICY: RestartPolicy = {
+  enabled: false,
+  initialDelayMs: 1000,
+  maxDelayMs: 60000,
+  multiplier: 2,
+  healthyUptimeMs: 60000,
+  crashLoopThreshold: 5,
+  crashLoopWindowMs: 300000,
+  maxAttempts: 0,
+};
+
+export class Supervisor extends EventEmitter {
+  private target: string;
+  private restart: () => Promise<unknown>;
+  private policy: RestartPolicy;
+  private state: SupervisorState;
+  private attempt = 0;
+  private startedAt: number | null = null;
+  private restartTimer: NodeJS.Timeout | null = null;
+  private healthyTimer: NodeJS.Timeout | null = null;
+  private nextRestartAt: Date | null = null;
+  private shortRuns: number[] = [];
+  private history: RestartEvent[] = [];
+  private maxHistory = 200;
+
+  constructor(target: string, restart: () => Promise<unknown>, policy: Partial<RestartPolicy> = {}) {
+    super();
+    this.target = target;
+    this.restart = restart;
+    this.policy = { ...DEFAULT_RESTART_POLICY, ...policy };
+    this.state = this.policy.enabled ? 'idle' : 'disabled';
+  }
+
+  /**
+   * Update the policy; enabling clears a crash loop or an exhausted attempt count
+   */
+  setPolicy(policy: Partial<RestartPolicy>): RestartPolicy {
+    this.policy = { ...this.policy, ...policy };
+
+    if (!this.policy.enabled) {
+      this.cancel();
+      this.state = 'disabled';
+    } else if (policy.enabled || this.state === 'disabled') {
+      this.attempt = 0;
+      this.shortRuns = [];
+      this.state = this.startedAt !== null ? 'running' : 'idle';
+    }
+
+    return { ...this.policy };
+  }
+
+  /**
+   * Get the current policy
+   */
+  getPolicy(): RestartPolicy {
+    return { ...this.policy };
+  }
+
+  /**
+   * Record that the process is up; a run that stays up long enough resets the backoff
+   */
+  processStarted(): void {
+    this.startedAt = Date.now();
+    this.clearHealthyTimer();
+    if (this.state !== 'disabled' && this.state !== 'crash_loop' && this.state !== 'gave_up') {
+      this.state = 'running';
+    }
+
+    this.healthyTimer = setTimeout(() => {
+      this.healthyTimer = null;
+      if (this.attempt > 0) {
+        this.record({ type: 'healthy', attempt: this.attempt, message: `Up for ${this.policy.healthyUptimeMs}ms; backoff reset` });
+        this.attempt = 0;
+      }
+    }, this.policy.healthyUptimeMs);
+    this.healthyTimer.unref?.();
+  }
+
+  /**
+   * Record an exit and schedule a restart when it was unexpected
+   */
+  processExited(exit: ExitInfo): void {
+    const uptimeMs = this.startedAt !== null ? Date.now() - this.startedAt : 0;
+    this.startedAt = null;
+    this.clearHealthyTimer();
+
+    const reason = exit.signal ?? `exit code ${exit.code}`;
+    const event = this.record({
+      type: 'exit',
+      exitCode: exit.code,
+      signal: exit.signal,
+      uptimeMs,
+      message: exit.requested ? 'Stopped on request' : `Exited unexpectedly (${reason}) after ${uptimeMs}ms`,
+    });
+
+    if (exit.requested) {
+      this.cancel();
+      if (this.state === 'running' || this.state === 'backoff') {
+        this.state = 'idle';
+      }
+      return;
+    }
+
+    this.emit('exit', event);
+
+    if (this.state === 'disabled' || this.state === 'crash_loop' || this.state === 'gave_up') {
+      return;
+    }
+
+    if (uptimeMs >= this.policy.healthyUptimeMs) {
+      this.attempt = 0;
+    } else {
+      this.shortRuns.push(Date.now());
+    }
+
+    if (this.detectCrashLoop()) {
+      return;
+    }
+    this.scheduleRestart();
+  }
+
+  /**
+   * Cancel a pending restart
+   */
+  cancel(): void {
+    if (this.restartTimer) {
+      clearTimeout(this.restartTimer);
+      this.restartTimer = null;
+      this.nextRestartAt = null;
+      this.state = 'idle';
+      this.log('info', `Cancelled pending restart of ${this.target}`);
+    }
+  }
+
+  /**
+   * Get the supervisor's state
+   */
+  getStatus(): SupervisorStatus {
+    const lastExit = [...this.history].reverse().find((event) => event.type === 'exit') ?? null;
+    return {
+      target: this.target,
+      state: this.state,
+      policy: { ...this.policy },
+      attempt: this.attempt,
+      nextRestartAt: this.nextRestartAt,
+      lastExit,
+    };
+  }
+
+  /**
+   * Get recent exits and restarts, oldest first
+   */
+  getHistory(limit?: number): RestartEvent[] {
+    return limit ? this.history.slice(-limit) : [...this.history];
+  }
+
+  /**
+   * Cancel timers
+   */
+  dispose(): void {
+    this.cancel();
+    this.clearHealthyTimer();
+  }
+
+  /**
+   * Stop restarting when too many short runs fall within the window
+   */
+  private detectCrashLoop(): boolean {
+    const since = Date.now() - this.policy.crashLoopWindowMs;
+    this.shortRuns = this.shortRuns.filter((time) => time >= since);
+
+    if (this.shortRuns.length >= this.policy.crashLoopThreshold) {
+      this.state = 'crash_loop';
+      const event = this.record({
+        type: 'crash_loop',
+        message: `${this.shortRuns.length} exits within ${this.policy.crashLoopWindowMs}ms, each before ${this.policy.healthyUptimeMs}ms of uptime; not restarting`,
+      });
+      this.log('error', `Crash loop detected for ${this.target}: ${event.message}`);
+      this.emit('crashLoop', { ...event, history: this.getHistory(this.policy.crashLoopThreshold * 2) });
+      return true;
+    }
+
+    if (this.policy.maxAttempts > 0 && this.attempt >= this.policy.maxAttempts) {
+      this.state = 'gave_up';
+      const event = this.record({ type: 'gave_up', attempt: this.attempt, message: `Gave up after ${this.attempt} restarts` });
+      this.log('error', `${this.target}: ${event.message}`);
+      this.emit('gaveUp', event);
+      return true;
+    }
+
+    return false;
+  }
+
+  private scheduleRestart(): void {
+    if (this.restartTimer) {
+      return;
+    }
+
+    const delayMs = Math.min(this.policy.maxDelayMs, this.policy.initialDelayMs * this.policy.multiplier ** this.attempt);
+    this.attempt++;
+    this.state = 'backoff';
+    this.nextRestartAt = new Date(Date.now() + delayMs);
+    this.log('info', `Restarting ${this.target} in ${delayMs}ms (attempt ${this.attempt})`);
+
+    const attempt = this.attempt;
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.nextRestartAt = null;
+      this.record({ type: 'restart', attempt, delayMs, message: `Restart attempt ${attempt} after ${delayMs}ms` });
+      this.emit('restart', { attempt, delayMs });
+
+      this.restart().catch((error) => {
+        const message = error instanceof Error ? error.message : String(error);
+        this.record({ type: 'restart_failed', attempt, message });
+        this.log('warn', `Restart attempt ${attempt} of ${this.target} failed: ${message}`);
+
+        // An exit during startup has already been counted and scheduled the next attempt
+        if (!this.restartTimer && (this.state === 'backoff' || this.state === 'running')) {
+          this.shortRuns.push(Date.now());
+          if (!this.detectCrashLoop()) {
+            this.scheduleRestart();
+          }
+        }
+      });
+    }, delayMs);
+  }
+
+  private clearHealthyTimer(): void {
+    if (this.healthyTimer) {
+      clearTimeout(this.healthyTimer);
+      this.healthyTimer = null;
+    }
+  }
+
+  private record(event: Omit<RestartEvent, 'timestamp'>): RestartEvent {
+    const entry: RestartEvent = { timestamp: new Date(), ...event };
+    this.history.push(entry);
+    if (this.history.length > this.maxHistory) {
+      this.history.shift();
+    }
+    this.emit('history', entry);
+    return entry;
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default Supervisor;
@@ -0,0 +1,203 @@
+/**
+ * OpenMOHAA MCP Server - Tool Registry Module
+ * Collects tool definitions from components and plugins, advertises their
+ * JSON schemas and dispatches validated calls
+ */
+
+import { existsSync, readdirSync } from 'fs';
+import { join, extname, resolve } from 'path';
+import { pathToFileURL } from 'url';
+import { EventEmitter } from 'events';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  Tool,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { LogLevel } from './types.js';
+
+export type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  schema: S;
+  handler(args: z.infer<S>, extra: ToolExtra): Promise<CallToolResult>;
+}
+
+/**
+ * A plugin module's default export (or a `register` named export)
+ */
+export interface ToolPlugin<TContext = unknown> {
+  name?: string;
+  register(registry: ToolRegistry, context: TContext): void | Promise<void>;
+}
+
+/**
+ * Helper that keeps the handler's argument type tied to its schema
+ */
+export function defineTool<S extends z.AnyZodObject>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+/**
+ * Plain text tool result
+ */
+export function textResult(text: string): CallToolResult {
+  return { content: [{ type: 'text', text }] };
+}
+
+/**
+ * Pretty-printed JSON tool result
+ */
+export function jsonResult(value: unknown): CallToolResult {
+  return textResult(JSON.stringify(value, null, 2));
+}
+
+/**
+ * Error tool result
+ */
+export function errorResult(text: string): CallToolResult {
+  return { content: [{ type: 'text', text }], isError: true };
+}
+
+export class ToolRegistry extends EventEmitter {
+  private tools: Map<string, ToolDefinition> = new Map();
+  private inputSchemas: Map<string, Tool['inputSchema']> = new Map();
+
+  /**
+   * Register a tool
+   */
+  register(definition: ToolDefinition): void {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool already registered: ${definition.name}`);
+    }
+
+    this.tools.set(definition.name, definition);
+    this.inputSchemas.set(definition.name, this.toInputSchema(definition.schema));
+    this.emit('toolRegistered', definition.name);
+  }
+
+  /**
+   * Register several tools at once
+   */
+  registerAll(definitions: ToolDefinition[]): void {
+    for (const definition of definitions) {
+      this.register(definition);
+    }
+  }
+
+  /**
+   * Remove a tool
+   */
+  unregister(name: string): boolean {
+    this.inputSchemas.delete(name);
+    const removed = this.tools.delete(name);
+    if (removed) {
+      this.emit('toolUnregistered', name);
+    }
+    return removed;
+  }
+
+  /**
+   * Check if a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * List tools in MCP format
+   */
+  list(): Tool[] {
+    return Array.from(this.tools.values()).map((definition) => ({
+      name: definition.name,
+      description: definition.description,
+      inputSchema: this.inputSchemas.get(definition.name)!,
+    }));
+  }
+
+  /**
+   * Validate arguments and run a tool
+   */
+  async call(name: string, rawArgs: unknown, extra: ToolExtra): Promise<CallToolResult> {
+    const definition = this.tools.get(name);
+    if (!definition) {
+      return errorResult(`Unknown tool: ${name}`);
+    }
+
+    const parsed = definition.schema.safeParse(rawArgs ?? {});
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      return errorResult(`Invalid arguments for ${name}: ${issues}`);
+    }
+
+    try {
+      return await definition.handler(parsed.data, extra);
+    } catch (error) {
+      return errorResult(`Error executing ${name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  /**
+   * Load tool plugins (.js/.mjs modules) from a directory
+   */
+  async loadPlugins<TContext>(dir: string, context: TContext): Promise<string[]> {
+    const loaded: string[] = [];
+
+    if (!existsSync(dir)) {
+      this.log('warn', `Plugin directory not found: ${dir}`);
+      return loaded;
+    }
+
+    const files = readdirSync(dir)
+      .filter((file) => ['.js', '.mjs'].includes(extname(file)))
+      .sort();
+
+    for (const file of files) {
+      const pluginPath = resolve(join(dir, file));
+      try {
+        const module = await import(pathToFileURL(pluginPath).href);
+        const plugin = (module.default ?? module) as Partial<ToolPlugin<TContext>>;
+
+        if (typeof plugin.register !== 'function') {
+          this.log('warn', `Plugin ${file} has no register() export, skipping`);
+          continue;
+        }
+
+        await plugin.register(this, context);
+        loaded.push(plugin.name || file);
+        this.log('info', `Loaded plugin: ${plugin.name || file}`);
+      } catch (error) {
+        this.log('error', `Failed to load plugin ${file}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return loaded;
+  }
+
+  /**
+   * Convert a zod object schema into an MCP tool input schema
+   */
+  private toInputSchema(schema: z.AnyZodObject): Tool['inputSchema'] {
+    const { $schema, additionalProperties, ...jsonSchema } = zodToJsonSchema(schema, {
+      $refStrategy: 'none',
+    }) as Record<string, unknown>;
+
+    return { ...jsonSchema, type: 'object' } as Tool['inputSchema'];
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default ToolRegistry;
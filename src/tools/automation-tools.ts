@@ -0,0 +1,68 @@
+/**
+ * OpenMOHAA MCP Server - Automation Tools
+ */
+
+import { z } from 'zod';
+import { AutomationFramework } from '../automation.js';
+import { defineTool, jsonResult, type ToolDefinition } from '../tool-registry.js';
+import type { AutomationScript } from '../types.js';
+import { backgroundField, runAsJob } from './job-tools.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createAutomationTools({ sessions, cvarSnapshots, cvarWatcher, jobManager }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_run_script',
+      description: 'Run an automation script with multiple steps. Pass script as JSON string with name, steps array, optional setup/teardown arrays.',
+      schema: z.object({
+        scriptJson: z.string()
+          .describe('Automation script as JSON string. Must have "name" (string) and "steps" (array of step objects). Optional: "description", "setup", "teardown", "cvarTransaction" (restore all cvars before teardown).'),
+        background: backgroundField,
+        session: sessionField,
+      }),
+      async handler(args, extra) {
+        const script = JSON.parse(args.scriptJson) as AutomationScript;
+        const { id, launcher, consoleManager, uiController, screenCapture } = sessions.getOrCreate(args.session);
+        const totalSteps = (script.setup?.length || 0) + script.steps.length + (script.teardown?.length || 0);
+
+        return runAsJob(jobManager, 'openmohaa_run_script', extra, args.background, async ({ signal, reportProgress }) => {
+          // A framework per run, so cancelling this job aborts only this script
+          const automation = new AutomationFramework({
+            session: id,
+            launcher,
+            console: consoleManager,
+            ui: uiController,
+            screen: screenCapture,
+            snapshots: cvarSnapshots,
+            watcher: cvarWatcher,
+          });
+          let completed = 0;
+          const onStep = (step: { action: string }) => {
+            reportProgress(++completed, totalSteps, step.action);
+          };
+          const onAbort = () => automation.abort();
+
+          automation.on('stepComplete', onStep);
+          signal.addEventListener('abort', onAbort, { once: true });
+          try {
+            return jsonResult(await automation.runScript(script));
+          } finally {
+            signal.removeEventListener('abort', onAbort);
+          }
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_create_map_test',
+      description: 'Create a test script for loading a map',
+      schema: z.object({
+        mapName: z.string().describe('Map name to test'),
+        executablePath: z.string().describe('Path to game executable'),
+      }),
+      async handler(args) {
+        return jsonResult(AutomationFramework.createMapLoadTest(args.mapName, args.executablePath));
+      },
+    }),
+  ];
+}
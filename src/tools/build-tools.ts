@@ -0,0 +1,142 @@
+/**
+ * OpenMOHAA MCP Server - Build System Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { backgroundField, runAsJob } from './job-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createBuildTools({ buildSystem, jobManager }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_build_check_tools',
+      description: 'Check if build tools (cmake, make, g++, gcc, git) are available',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(await buildSystem.checkBuildTools());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_clone',
+      description: 'Clone or update the OpenMOHAA repository',
+      schema: z.object({
+        targetDir: z.string().describe('Directory to clone into'),
+        branch: z.string().default('main').describe('Branch to checkout'),
+      }),
+      async handler(args) {
+        return jsonResult(await buildSystem.cloneRepository(args.targetDir, args.branch));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_configure',
+      description: 'Configure the build with CMake',
+      schema: z.object({
+        sourceDir: z.string().describe('Source code directory'),
+        buildDir: z.string().describe('Build output directory'),
+        buildType: z.enum(['Debug', 'Release', 'RelWithDebInfo']).default('Release'),
+        cmakeOptions: z.array(z.string()).optional().describe('Additional CMake options'),
+      }),
+      async handler(args) {
+        return jsonResult(await buildSystem.configureBuild({
+          sourceDir: args.sourceDir,
+          buildDir: args.buildDir,
+          buildType: args.buildType,
+          cmakeOptions: args.cmakeOptions,
+        }));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_compile',
+      description: 'Compile the project',
+      schema: z.object({
+        buildDir: z.string().describe('Build directory'),
+        jobs: z.number().optional().describe('Number of parallel jobs'),
+        targets: z.array(z.string()).optional().describe('Specific targets to build'),
+        background: backgroundField,
+      }),
+      async handler(args, extra) {
+        return runAsJob(jobManager, 'openmohaa_build_compile', extra, args.background, async ({ signal, reportProgress }) => {
+          const onProgress = ({ current, total }: { current: number; total: number }) => {
+            reportProgress(current, total);
+          };
+          const onAbort = () => buildSystem.cancelBuild();
+
+          buildSystem.on('progress', onProgress);
+          signal.addEventListener('abort', onAbort, { once: true });
+          try {
+            return jsonResult(await buildSystem.build({
+              sourceDir: '',
+              buildDir: args.buildDir,
+              buildType: 'Release',
+              jobs: args.jobs,
+              targets: args.targets,
+            }));
+          } finally {
+            buildSystem.off('progress', onProgress);
+            signal.removeEventListener('abort', onAbort);
+          }
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_clean',
+      description: 'Clean the build directory',
+      schema: z.object({
+        buildDir: z.string().describe('Build directory to clean'),
+      }),
+      async handler(args) {
+        return jsonResult(await buildSystem.clean(args.buildDir));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_status',
+      description: 'Get current build status',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(buildSystem.getBuildStatus());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_cancel',
+      description: 'Cancel the current build',
+      schema: z.object({}),
+      async handler() {
+        return textResult(buildSystem.cancelBuild() ? 'Build cancelled' : 'No build in progress');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_git_info',
+      description: 'Get git information for the repository',
+      schema: z.object({
+        repoDir: z.string().describe('Repository directory'),
+      }),
+      async handler(args) {
+        return jsonResult(await buildSystem.getGitInfo(args.repoDir));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_run_tests',
+      description: 'Run tests using CTest',
+      schema: z.object({
+        buildDir: z.string().describe('Build directory'),
+        testPattern: z.string().optional().describe('Test pattern to filter'),
+      }),
+      async handler(args) {
+        return jsonResult(await buildSystem.runTests(args.buildDir, args.testPattern));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_build_package',
+      description: 'Create a release package',
+      schema: z.object({
+        buildDir: z.string().describe('Build directory'),
+        outputDir: z.string().describe('Output directory for package'),
+        name: z.string().describe('Package name'),
+      }),
+      async handler(args) {
+        return jsonResult(await buildSystem.createPackage(args.buildDir, args.outputDir, args.name));
+      },
+    }),
+  ];
+}
@@ -0,0 +1,138 @@
+/**
+ * OpenMOHAA MCP Server - Config Management Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import type { ToolComponents } from './index.js';
+
+export function createConfigTools({ configManager }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_config_read',
+      description: 'Read a config file',
+      schema: z.object({
+        filename: z.string().describe('Config filename'),
+      }),
+      async handler(args) {
+        const config = configManager.readConfig(args.filename);
+        return config ? jsonResult(config) : textResult('Config not found');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_write',
+      description: 'Write a config file',
+      schema: z.object({
+        filename: z.string().describe('Config filename'),
+        content: z.string().describe('Config file content'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.writeConfig(args.filename, args.content));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_list',
+      description: 'List all config files',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(configManager.listConfigs());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_parse',
+      description: 'Parse a config file into structured data',
+      schema: z.object({
+        filename: z.string().describe('Config filename'),
+      }),
+      async handler(args) {
+        const config = configManager.readConfig(args.filename);
+        if (!config) {
+          return textResult('Config not found');
+        }
+        return jsonResult(configManager.parseConfig(config.content));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_get_autoexec',
+      description: 'Get or create autoexec.cfg',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(configManager.getAutoexec());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_set_cvar',
+      description: 'Set a cvar in autoexec.cfg',
+      schema: z.object({
+        name: z.string().describe('Cvar name'),
+        value: z.string().describe('Cvar value'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.setCvarInAutoexec(args.name, args.value));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_set_bind',
+      description: 'Set a key binding in autoexec.cfg',
+      schema: z.object({
+        key: z.string().describe('Key to bind'),
+        command: z.string().describe('Command to execute'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.setBindInAutoexec(args.key, args.command));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_backup',
+      description: 'Create a backup of a config file',
+      schema: z.object({
+        filename: z.string().describe('Config filename to backup'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.backupConfig(args.filename));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_restore',
+      description: 'Restore a config from backup',
+      schema: z.object({
+        backupFilename: z.string().describe('Backup filename'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.restoreConfig(args.backupFilename));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_validate',
+      description: 'Validate a config file syntax',
+      schema: z.object({
+        content: z.string().describe('Config file content to validate'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.validateConfig(args.content));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_graphics_preset',
+      description: 'Apply a graphics preset',
+      schema: z.object({
+        preset: z.enum(['low', 'medium', 'high', 'ultra']).describe('Graphics preset'),
+      }),
+      async handler(args) {
+        return jsonResult(configManager.applyGraphicsPreset(args.preset));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_config_set_game_dir',
+      description: 'Set the game directory for config management',
+      schema: z.object({
+        gameDir: z.string().describe('Game directory path'),
+        modDir: z.string().default('main').describe('Mod directory (default: main)'),
+      }),
+      async handler(args) {
+        configManager.setModDir(args.modDir);
+        return textResult(`Game directory set to: ${args.gameDir}/${args.modDir}`);
+      },
+    }),
+  ];
+}
@@ -0,0 +1,129 @@
+/**
+ * OpenMOHAA MCP Server - Console Command Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { parseColorCodes, renderSegments } from '../color-codes.js';
+import { sessionField } from './session-tools.js';
+import type { ConsoleOutput } from '../types.js';
+import type { ToolComponents } from './index.js';
+
+export function createConsoleTools({ sessions }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_send_command',
+      description: 'Send a console command to the game',
+      schema: z.object({
+        command: z.string().describe('The console command to execute'),
+        waitForResponse: z.boolean().default(true).describe('Wait for command response'),
+        timeout: z.number().default(5000).describe('Timeout in milliseconds'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        return jsonResult(await consoleManager.sendCommand(args.command, args.waitForResponse, args.timeout));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_set_cvar',
+      description: 'Set a console variable (cvar) value',
+      schema: z.object({
+        name: z.string().describe('The cvar name'),
+        value: z.string().describe('The value to set'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        return jsonResult(await consoleManager.setCvar(args.name, args.value));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_get_cvar',
+      description: 'Get a console variable (cvar) value',
+      schema: z.object({
+        name: z.string().describe('The cvar name'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        const result = await consoleManager.getCvar(args.name);
+        return result ? jsonResult(result) : textResult('Cvar not found');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_exec_config',
+      description: 'Execute a config file',
+      schema: z.object({
+        path: z.string().describe('Path to the config file'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        return jsonResult(await consoleManager.execConfig(args.path));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_run_config',
+      description: 'Run a config file command by command, splitting on ";", honoring quotes and expanding aliases and vstr (with cycle detection). With dryRun, only list the commands that would run.',
+      schema: z.object({
+        path: z.string().describe('Path to the config file'),
+        dryRun: z.boolean().default(false).describe('List the expanded commands without sending them'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        const expansion = await consoleManager.expandConfigFile(args.path);
+        const commands = expansion.commands.map(({ text, line, via }) => ({ line, command: text, via }));
+
+        if (args.dryRun) {
+          return jsonResult({ commands, errors: expansion.errors });
+        }
+
+        const results = await consoleManager.sendCommands(expansion.commands.map((command) => command.text), 0);
+        return jsonResult({
+          errors: expansion.errors,
+          results: commands.map((command, i) => ({ ...command, ...results[i] })),
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_load_map',
+      description: 'Load a map by name',
+      schema: z.object({
+        mapName: z.string().describe('The map name to load'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        return jsonResult(await consoleManager.loadMap(args.mapName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_get_console_output',
+      description: 'Get recent console output',
+      schema: z.object({
+        lines: z.number().default(100).describe('Number of lines to retrieve'),
+        pattern: z.string().optional().describe('Optional regex pattern to filter output (matched without color codes)'),
+        format: z.enum(['plain', 'raw', 'ansi', 'html']).default('plain')
+          .describe('plain strips color codes, raw keeps them, ansi and html render them'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        let output = consoleManager.getRecentOutput(args.lines);
+
+        if (args.pattern) {
+          const regex = new RegExp(args.pattern, 'i');
+          output = output.filter((o) => regex.test(o.text));
+        }
+
+        const render = (o: ConsoleOutput) => args.format === 'raw'
+          ? o.raw ?? o.text
+          : renderSegments(o.segments ?? parseColorCodes(o.raw ?? o.text), args.format);
+
+        return textResult(output.map((o) => `[${o.type}] ${render(o)}`).join('\n'));
+      },
+    }),
+  ];
+}
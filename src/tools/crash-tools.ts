@@ -0,0 +1,42 @@
+/**
+ * OpenMOHAA MCP Server - Crash Bundle Tools
+ */
+
+import { z } from 'zod';
+import { join } from 'path';
+import { defineTool, errorResult, jsonResult, type ToolDefinition } from '../tool-registry.js';
+import type { ToolComponents } from './index.js';
+
+export function createCrashTools({ crashReporter }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_crash_list',
+      description: 'List captured crash bundles, newest first',
+      schema: z.object({
+        session: z.string().optional().describe('Only list crashes from this session'),
+      }),
+      async handler(args) {
+        const crashes = crashReporter.list();
+        return jsonResult(args.session ? crashes.filter((crash) => crash.session === args.session) : crashes);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_crash_get',
+      description: 'Get a crash bundle: backtrace, last console lines, cvars, launch arguments and git info of the build',
+      schema: z.object({
+        id: z.string().describe('Crash ID from openmohaa_crash_list'),
+        consoleLines: z.number().optional().describe('Only include this many of the last console lines'),
+      }),
+      async handler(args) {
+        const bundle = crashReporter.get(args.id);
+        if (!bundle) {
+          return errorResult(`Crash not found: ${args.id}`);
+        }
+        if (args.consoleLines !== undefined) {
+          bundle.consoleLines = bundle.consoleLines.slice(-args.consoleLines);
+        }
+        return jsonResult({ ...bundle, path: join(crashReporter.getCrashDir(), args.id) });
+      },
+    }),
+  ];
+}
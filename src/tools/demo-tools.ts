@@ -0,0 +1,172 @@
+/**
+ * OpenMOHAA MCP Server - Demo Management Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createDemoTools({ sessions }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_demo_start_recording',
+      description: 'Start recording a demo',
+      schema: z.object({
+        demoName: z.string().optional().describe('Name for the demo file'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.startRecording(args.demoName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_stop_recording',
+      description: 'Stop recording the current demo',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.stopRecording());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_play',
+      description: 'Play a demo file',
+      schema: z.object({
+        demoName: z.string().describe('Name of the demo to play'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.playDemo(args.demoName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_stop',
+      description: 'Stop demo playback',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.stopPlayback());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_list',
+      description: 'List all available demos',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(demoManager.listDemos());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_delete',
+      description: 'Delete a demo file',
+      schema: z.object({
+        demoName: z.string().describe('Name of the demo to delete'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(demoManager.deleteDemo(args.demoName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_rename',
+      description: 'Rename a demo file',
+      schema: z.object({
+        oldName: z.string().describe('Current demo name'),
+        newName: z.string().describe('New demo name'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(demoManager.renameDemo(args.oldName, args.newName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_pause',
+      description: 'Pause demo playback',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.pauseDemo());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_resume',
+      description: 'Resume demo playback',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.resumeDemo());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_set_speed',
+      description: 'Set demo playback speed',
+      schema: z.object({
+        speed: z.number().describe('Playback speed (0.1 to 10)'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.setPlaybackSpeed(args.speed));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_seek',
+      description: 'Seek to a specific time in the demo',
+      schema: z.object({
+        seconds: z.number().describe('Time in seconds'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(await demoManager.seekDemo(args.seconds));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_cleanup',
+      description: 'Clean up old demos',
+      schema: z.object({
+        olderThanDays: z.number().optional().describe('Delete demos older than N days'),
+        keepCount: z.number().optional().describe('Keep only N most recent demos'),
+        maxSizeMB: z.number().optional().describe('Maximum total size in MB'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        return jsonResult(demoManager.cleanupDemos({
+          olderThanDays: args.olderThanDays,
+          keepCount: args.keepCount,
+          maxSizeMB: args.maxSizeMB,
+        }));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_demo_set_dir',
+      description: 'Set the demo directory',
+      schema: z.object({
+        dir: z.string().describe('Demo directory path'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { demoManager } = sessions.get(args.session);
+        demoManager.setDemoDir(args.dir);
+        return textResult(`Demo directory set to: ${args.dir}`);
+      },
+    }),
+  ];
+}
@@ -0,0 +1,124 @@
+/**
+ * OpenMOHAA MCP Server - Game Lifecycle Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, errorResult, type ToolDefinition } from '../tool-registry.js';
+import { readinessSchema } from '../readiness.js';
+import { sandboxSchema } from '../sandbox.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createGameTools({ sessions, defaults }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_launch',
+      description: 'Launch OpenMOHAA game. Uses OPENMOHAA_EXEC_PATH env var as default if executablePath not provided. Pass a new session ID to run another instance alongside the default one.',
+      schema: z.object({
+        executablePath: z.string().optional()
+          .describe('Full path to the OpenMOHAA executable. Falls back to OPENMOHAA_EXEC_PATH env var.'),
+        workingDirectory: z.string().optional()
+          .describe('Working directory for the game (defaults to executable directory)'),
+        args: z.array(z.string()).optional().describe('Additional command line arguments'),
+        env: z.record(z.string()).optional().describe('Environment variables to set'),
+        windowedMode: z.boolean().default(true).describe('Run in windowed mode instead of fullscreen'),
+        width: z.number().default(1280).describe('Window width in pixels'),
+        height: z.number().default(720).describe('Window height in pixels'),
+        enableConsole: z.boolean().default(true).describe('Enable developer console'),
+        enableCheats: z.boolean().default(true).describe('Enable cheat commands'),
+        headless: z.boolean().optional()
+          .describe('Run under a private Xvfb display at the requested resolution. Falls back to OPENMOHAA_HEADLESS env var.'),
+        coreDumps: z.boolean().default(true)
+          .describe('Raise the core size limit so crashes leave a core for the crash bundle backtrace'),
+        readiness: readinessSchema.optional()
+          .describe('Probes that decide when startup is complete. Launch fails with the failing probes if they never pass.'),
+        sandbox: sandboxSchema.optional()
+          .describe('Resource limits (memory, CPUs, nice, open files, wall clock), a clean environment and a private HOME'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const execPath = args.executablePath || defaults.execPath;
+        if (!execPath) {
+          return errorResult('Error: No executable path provided and OPENMOHAA_EXEC_PATH env var not set');
+        }
+        const { id, launcher } = sessions.getOrCreate(args.session);
+        const result = await launcher.launch({
+          executablePath: execPath,
+          workingDirectory: args.workingDirectory,
+          arguments: args.args,
+          environmentVariables: args.env,
+          windowedMode: args.windowedMode,
+          resolution: { width: args.width, height: args.height },
+          enableConsole: args.enableConsole,
+          enableCheats: args.enableCheats,
+          headless: args.headless ?? defaults.headless,
+          coreDumps: args.coreDumps,
+          readiness: args.readiness,
+          sandbox: args.sandbox,
+        });
+        return jsonResult({ session: id, ...result });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_stop',
+      description: 'Stop the running OpenMOHAA game gracefully',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher } = sessions.get(args.session);
+        await launcher.stop();
+        return textResult('Game stopped successfully');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_get_defaults',
+      description: 'Get configured default paths from environment variables',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult({
+          executablePath: defaults.execPath || '(not set)',
+          gameDirectory: defaults.gameDir || '(not set)',
+          mfuseExecPath: defaults.mfuseExecPath || '(not set)',
+          commandsListPath: defaults.commandsListPath || '(not set)',
+          headless: defaults.headless,
+          hint: 'Set via env vars: OPENMOHAA_EXEC_PATH, OPENMOHAA_GAME_DIR, OPENMOHAA_MFUSE_EXEC_PATH, OPENMOHAA_COMMANDS_LIST_PATH, OPENMOHAA_HEADLESS',
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_restart',
+      description: 'Restart the game with the same configuration',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher } = sessions.get(args.session);
+        return jsonResult(await launcher.restart());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_kill',
+      description: 'Force kill the game process',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher } = sessions.get(args.session);
+        await launcher.forceKill();
+        return textResult('Game force killed');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_status',
+      description: 'Get the current status of the game process',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher } = sessions.get(args.session);
+        return jsonResult(launcher.getState());
+      },
+    }),
+  ];
+}
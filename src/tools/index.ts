@@ -0,0 +1,121 @@
+/**
+ * OpenMOHAA MCP Server - Built-in Tools
+ * Wires each component's tool definitions into the registry
+ */
+
+import type { ProcessLauncher } from '../launcher.js';
+import type { ConsoleManager } from '../console-manager.js';
+import type { UIController } from '../ui-controller.js';
+import type { ScreenCapture } from '../screen-capture.js';
+import type { BuildSystem } from '../build-system.js';
+import type { DemoManager } from '../demo-manager.js';
+import type { ConfigManager } from '../config-manager.js';
+import type { ServerManager } from '../server-manager.js';
+import type { PerformanceMonitor } from '../performance-monitor.js';
+import type { LogAnalyzer } from '../log-analyzer.js';
+import type { ScriptValidator } from '../script-validator.js';
+import type { JobManager } from '../job-manager.js';
+import type { SessionManager } from '../session-manager.js';
+import type { CrashReporter } from '../crash-reporter.js';
+import type { ConsoleInventory } from '../console-inventory.js';
+import type { CvarSnapshotManager } from '../cvar-snapshots.js';
+import type { CvarWatcher } from '../cvar-watcher.js';
+import type { ConsoleTranscript } from '../console-transcript.js';
+import type { ConsoleCompleter } from '../console-completion.js';
+import type { LaunchProfileManager } from '../launch-profiles.js';
+import type { MacroLibrary } from '../input-macros.js';
+import type { ToolRegistry } from '../tool-registry.js';
+import { createGameTools } from './game-tools.js';
+import { createConsoleTools } from './console-tools.js';
+import { createInputTools } from './input-tools.js';
+import { createScreenTools } from './screen-tools.js';
+import { createWaitTools } from './wait-tools.js';
+import { createAutomationTools } from './automation-tools.js';
+import { createUtilityTools } from './utility-tools.js';
+import { createBuildTools } from './build-tools.js';
+import { createDemoTools } from './demo-tools.js';
+import { createConfigTools } from './config-tools.js';
+import { createServerTools } from './server-tools.js';
+import { createPerformanceTools } from './performance-tools.js';
+import { createLogTools } from './log-tools.js';
+import { createScriptTools } from './script-tools.js';
+import { createJobTools } from './job-tools.js';
+import { createSessionTools } from './session-tools.js';
+import { createCrashTools } from './crash-tools.js';
+import { createInventoryTools } from './inventory-tools.js';
+import { createSnapshotTools } from './snapshot-tools.js';
+import { createWatchTools } from './watch-tools.js';
+import { createTranscriptTools } from './transcript-tools.js';
+import { createProfileTools } from './profile-tools.js';
+import { createSupervisorTools } from './supervisor-tools.js';
+import { createMacroTools } from './macro-tools.js';
+
+export interface ToolDefaults {
+  execPath: string;
+  gameDir: string;
+  mfuseExecPath: string;
+  commandsListPath: string;
+  headless: boolean;
+}
+
+/**
+ * Shared component instances handed to built-in tools and plugins.
+ * launcher, consoleManager, uiController, screenCapture, demoManager and performanceMonitor
+ * belong to the default session.
+ */
+export interface ToolComponents {
+  launcher: ProcessLauncher;
+  consoleManager: ConsoleManager;
+  uiController: UIController;
+  screenCapture: ScreenCapture;
+  buildSystem: BuildSystem;
+  demoManager: DemoManager;
+  configManager: ConfigManager;
+  serverManager: ServerManager;
+  performanceMonitor: PerformanceMonitor;
+  logAnalyzer: LogAnalyzer;
+  scriptValidator: ScriptValidator;
+  jobManager: JobManager;
+  sessions: SessionManager;
+  crashReporter: CrashReporter;
+  consoleInventory: ConsoleInventory;
+  cvarSnapshots: CvarSnapshotManager;
+  cvarWatcher: CvarWatcher;
+  transcripts: ConsoleTranscript;
+  consoleCompleter: ConsoleCompleter;
+  launchProfiles: LaunchProfileManager;
+  macros: MacroLibrary;
+  defaults: ToolDefaults;
+}
+
+/**
+ * Register all built-in tools
+ */
+export function registerBuiltinTools(registry: ToolRegistry, components: ToolComponents): void {
+  registry.registerAll([
+    ...createGameTools(components),
+    ...createConsoleTools(components),
+    ...createInputTools(components),
+    ...createScreenTools(components),
+    ...createWaitTools(components),
+    ...createAutomationTools(components),
+    ...createUtilityTools(components),
+    ...createBuildTools(components),
+    ...createDemoTools(components),
+    ...createConfigTools(components),
+    ...createServerTools(components),
+    ...createPerformanceTools(components),
+    ...createLogTools(components),
+    ...createScriptTools(components),
+    ...createJobTools(components),
+    ...createSessionTools(components),
+    ...createCrashTools(components),
+    ...createInventoryTools(components),
+    ...createSnapshotTools(components),
+    ...createWatchTools(components),
+    ...createTranscriptTools(components),
+    ...createProfileTools(components),
+    ...createSupervisorTools(components),
+    ...createMacroTools(components),
+  ]);
+}
@@ -0,0 +1,310 @@
+/**
+ * OpenMOHAA MCP Server - Mouse, Keyboard and Window Control Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, errorResult, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { lookMoveSchema, motionSchema, readLookScale } from '../mouse-paths.js';
+import { backgroundField, runAsJob } from './job-tools.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+const mouseButton = z.enum(['left', 'right', 'middle']);
+const motionField = motionSchema.optional()
+  .describe('Glide to the target along a path instead of jumping; some menu widgets and mouse-look only react to movement');
+const holdField = z.number().int().min(0).optional().describe('Hold for this many ms before releasing');
+
+export function createInputTools({ sessions, jobManager }: ToolComponents): ToolDefinition[] {
+  return [
+    // === Mouse Control ===
+    defineTool({
+      name: 'openmohaa_mouse_move',
+      description: 'Move the mouse cursor to specified coordinates',
+      schema: z.object({
+        x: z.number().describe('X coordinate'),
+        y: z.number().describe('Y coordinate'),
+        relative: z.boolean().default(false).describe('Use relative movement'),
+        window: z.boolean().default(false).describe('Coordinates relative to game window'),
+        motion: motionField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        if (args.relative && args.motion) {
+          await uiController.mouseLook([{ dx: args.x, dy: args.y }], args.motion);
+        } else if (args.relative) {
+          await uiController.moveMouseRelative(args.x, args.y);
+        } else if (args.window) {
+          await uiController.moveMouseToWindow(args.x, args.y, args.motion);
+        } else {
+          await uiController.moveMouse(args.x, args.y, args.motion);
+        }
+        return textResult(`Mouse moved to ${args.x}, ${args.y}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_mouse_click',
+      description: 'Click the mouse at current or specified position',
+      schema: z.object({
+        button: mouseButton.default('left').describe('Mouse button to click'),
+        x: z.number().optional().describe('X coordinate (optional)'),
+        y: z.number().optional().describe('Y coordinate (optional)'),
+        doubleClick: z.boolean().default(false).describe('Perform double click'),
+        motion: motionField,
+        holdMs: holdField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        if (args.holdMs !== undefined) {
+          if (args.x !== undefined && args.y !== undefined) {
+            await uiController.moveMouse(args.x, args.y, args.motion);
+          }
+          await uiController.holdMouse(args.button, args.holdMs);
+        } else if (args.x !== undefined && args.y !== undefined) {
+          await uiController.clickAt(args.x, args.y, args.button, args.motion);
+        } else if (args.doubleClick) {
+          await uiController.doubleClick(args.button);
+        } else {
+          await uiController.clickMouse(args.button);
+        }
+        return textResult('Mouse clicked');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_mouse_drag',
+      description: 'Drag the mouse from one position to another',
+      schema: z.object({
+        startX: z.number().describe('Starting X coordinate'),
+        startY: z.number().describe('Starting Y coordinate'),
+        endX: z.number().describe('Ending X coordinate'),
+        endY: z.number().describe('Ending Y coordinate'),
+        button: mouseButton.default('left'),
+        motion: motionField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        await uiController.drag(args.startX, args.startY, args.endX, args.endY, args.button, args.motion);
+        return textResult('Mouse dragged');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_mouse_look',
+      description: 'Aim with a sequence of relative mouse turns, each spread over its duration. In degrees the turns are converted with the game\'s sensitivity, m_yaw and m_pitch; in counts they are sent as mouse movement.',
+      schema: z.object({
+        moves: z.array(lookMoveSchema).min(1).describe('Turns, made one after another'),
+        units: z.enum(['degrees', 'counts']).default('degrees'),
+        curve: motionSchema.shape.curve,
+        durationMs: motionSchema.shape.durationMs.describe('Default time for each turn (default: 250)'),
+        stepsPerSecond: motionSchema.shape.stepsPerSecond,
+        background: backgroundField,
+        session: sessionField,
+      }),
+      async handler(args, extra) {
+        const { consoleManager, uiController } = sessions.get(args.session);
+        const scale = args.units === 'degrees' ? await readLookScale(consoleManager) : { yaw: 1, pitch: 1 };
+        const moves = args.moves.map((move) => ({
+          dx: Math.round(move.yaw / scale.yaw),
+          dy: Math.round(move.pitch / scale.pitch),
+          durationMs: move.durationMs,
+          pauseMs: move.pauseMs,
+        }));
+
+        return runAsJob(jobManager, 'openmohaa_mouse_look', extra, args.background, async ({ signal }) => {
+          await uiController.focusWindow();
+          const sent = await uiController.mouseLook(moves, {
+            curve: args.curve,
+            durationMs: args.durationMs,
+            stepsPerSecond: args.stepsPerSecond,
+          }, signal);
+          return jsonResult({
+            ...sent,
+            ...(args.units === 'degrees' ? { countsPerDegree: { yaw: 1 / scale.yaw, pitch: 1 / scale.pitch } } : {}),
+          });
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_scroll',
+      description: 'Scroll the mouse wheel',
+      schema: z.object({
+        direction: z.enum(['up', 'down']).describe('Scroll direction'),
+        clicks: z.number().default(3).describe('Number of scroll clicks'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        await uiController.scroll(args.direction, args.clicks);
+        return textResult(`Scrolled ${args.direction}`);
+      },
+    }),
+
+    // === Keyboard Control ===
+    defineTool({
+      name: 'openmohaa_type_text',
+      description: 'Type text using the keyboard',
+      schema: z.object({
+        text: z.string().describe('Text to type'),
+        delay: z.number().default(12).describe('Delay between keystrokes in ms'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        await uiController.typeText(args.text, args.delay);
+        return textResult('Text typed');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_press_key',
+      description: 'Press a single key or key combination',
+      schema: z.object({
+        key: z.string().describe('Key to press (e.g., "enter", "escape", "f1", "a")'),
+        modifiers: z.array(z.enum(['ctrl', 'alt', 'shift', 'super'])).optional()
+          .describe('Modifier keys to hold'),
+        holdMs: holdField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        if (args.holdMs !== undefined) {
+          await uiController.holdKey(args.key, args.holdMs, args.modifiers);
+        } else if (args.modifiers) {
+          await uiController.pressKeyWithModifiers(args.key, args.modifiers);
+        } else {
+          await uiController.pressKey(args.key);
+        }
+        return textResult(`Key pressed: ${args.key}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_key_combo',
+      description: 'Press a key combination (e.g., "ctrl+c")',
+      schema: z.object({
+        combo: z.string().describe('Key combination string'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        await uiController.sendKeyCombo(args.combo);
+        return textResult(`Key combo pressed: ${args.combo}`);
+      },
+    }),
+
+    // === Window Control ===
+    defineTool({
+      name: 'openmohaa_focus_window',
+      description: 'Focus the game window',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        const success = await uiController.focusWindow();
+        return textResult(success ? 'Window focused' : 'Failed to focus window');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_find_window',
+      description: 'Find the game window and get its info',
+      schema: z.object({
+        title: z.string().optional().describe('Window title to search for'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        const window = await uiController.findWindow(args.title);
+        return window ? jsonResult(window) : textResult('Window not found');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_set_window_geometry',
+      description: 'Move and/or resize the game window. Coordinates are for the client area (inside decorations) in screen coordinates, or relative to a monitor when one is given. Returns the geometry the window manager applied.',
+      schema: z.object({
+        x: z.number().int().optional().describe('Left edge of the client area'),
+        y: z.number().int().optional().describe('Top edge of the client area'),
+        width: z.number().int().positive().optional().describe('Client area width'),
+        height: z.number().int().positive().optional().describe('Client area height'),
+        monitor: z.string().optional().describe('Monitor name from openmohaa_list_monitors; x and y are relative to it'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        const requested = { x: args.x, y: args.y, width: args.width, height: args.height };
+        const window = await uiController.setWindowGeometry(requested, args.monitor);
+
+        // Compare what was asked for with where the window ended up
+        const monitor = args.monitor ? (await uiController.listMonitors()).find((m) => m.name === args.monitor) : undefined;
+        const expected = {
+          ...requested,
+          x: args.x === undefined ? undefined : args.x + (monitor?.x ?? 0),
+          y: args.y === undefined ? undefined : args.y + (monitor?.y ?? 0),
+        };
+        const mismatched = (Object.keys(expected) as Array<keyof typeof expected>)
+          .filter((field) => expected[field] !== undefined && expected[field] !== window[field]);
+
+        return jsonResult({
+          window,
+          applied: mismatched.length === 0,
+          ...(mismatched.length > 0 ? { note: `The window manager adjusted ${mismatched.join(', ')}` } : {}),
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_set_fullscreen',
+      description: 'Switch the game between fullscreen and windowed by setting r_fullscreen and running vid_restart, then wait for the new window and check whether it covers its monitor',
+      schema: z.object({
+        enabled: z.boolean().describe('true for fullscreen, false for windowed'),
+        timeout: z.number().int().positive().default(15000).describe('How long to wait for the window to come back (ms)'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager, uiController } = sessions.get(args.session);
+        const before = await uiController.findWindow();
+
+        const set = await consoleManager.setCvar('r_fullscreen', args.enabled ? '1' : '0');
+        if (!set.success) {
+          return errorResult(`Failed to set r_fullscreen: ${set.error ?? set.status}`);
+        }
+        const restart = await consoleManager.sendCommand('vid_restart', false);
+        if (!restart.success) {
+          return errorResult(`Failed to send vid_restart: ${restart.error ?? restart.status}`);
+        }
+        const state = await uiController.waitForWindowMode(args.enabled, before?.id ?? null, args.timeout);
+
+        if (!state.window) {
+          return errorResult(`The game window did not come back within ${args.timeout}ms of vid_restart`);
+        }
+        if (state.fullscreen !== args.enabled) {
+          return errorResult(`The window is still ${state.fullscreen ? 'fullscreen' : 'windowed'} after vid_restart: ${JSON.stringify(state)}`);
+        }
+        return jsonResult(state);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_list_monitors',
+      description: 'List monitors with their position and size in screen coordinates, and the one showing the game window',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        const monitors = await uiController.listMonitors();
+        const placement = await uiController.getWindowMonitor().catch(() => null);
+        return jsonResult({ monitors, windowMonitor: placement?.monitor?.name ?? null });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_toggle_console',
+      description: 'Toggle the in-game console open or closed',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        await uiController.toggleConsole();
+        return textResult('Console toggled');
+      },
+    }),
+  ];
+}
@@ -0,0 +1,90 @@
+/**
+ * OpenMOHAA MCP Server - Cvar and Command Inventory Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, type ToolDefinition } from '../tool-registry.js';
+import { CVAR_FLAGS } from '../console-inventory.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+const cvarFlag = z.enum(Object.values(CVAR_FLAGS) as [string, ...string[]]);
+
+export function createInventoryTools({ sessions, consoleInventory, consoleCompleter }: ToolComponents): ToolDefinition[] {
+  const refreshField = z.boolean().default(false)
+    .describe('Re-run cvarlist/cmdlist even if this build is already cached');
+
+  return [
+    defineTool({
+      name: 'openmohaa_inventory',
+      description: 'List every cvar and command of the running build (via cvarlist/cmdlist, cached per build) and return counts by flag',
+      schema: z.object({
+        refresh: refreshField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher, consoleManager } = sessions.get(args.session);
+        const inventory = await consoleInventory.get(launcher, consoleManager, args.refresh);
+
+        const flagCounts: Record<string, number> = {};
+        for (const cvar of inventory.cvars) {
+          for (const flag of cvar.flags ?? []) {
+            flagCounts[flag] = (flagCounts[flag] ?? 0) + 1;
+          }
+        }
+
+        return jsonResult({
+          buildKey: inventory.buildKey,
+          executablePath: inventory.executablePath,
+          capturedAt: inventory.capturedAt,
+          cvarCount: inventory.cvars.length,
+          commandCount: inventory.commands.length,
+          flagCounts,
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_search',
+      description: 'Search the cvar inventory by name or value and filter by flags (archive, latched, cheat, serverinfo, ...)',
+      schema: z.object({
+        query: z.string().optional().describe('Case-insensitive substring of the cvar name or value'),
+        flags: z.array(cvarFlag).optional().describe('Only cvars that have all of these flags'),
+        limit: z.number().default(50).describe('Maximum number of results'),
+        refresh: refreshField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher, consoleManager } = sessions.get(args.session);
+        const inventory = await consoleInventory.get(launcher, consoleManager, args.refresh);
+        return jsonResult(consoleInventory.searchCvars(inventory, args));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_command_search',
+      description: 'Search the console command inventory by name',
+      schema: z.object({
+        query: z.string().optional().describe('Case-insensitive substring of the command name'),
+        limit: z.number().default(100).describe('Maximum number of results'),
+        refresh: refreshField,
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher, consoleManager } = sessions.get(args.session);
+        const inventory = await consoleInventory.get(launcher, consoleManager, args.refresh);
+        return jsonResult(consoleInventory.searchCommands(inventory, args));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_console_complete',
+      description: 'Complete a partial console line: matching commands and cvars for the word being typed, plus the usage of the command and the value of the cvar it names',
+      schema: z.object({
+        line: z.string().describe('Partial console line, e.g. "set sv_ch" or "ma"'),
+        limit: z.number().default(20).describe('Maximum number of completions'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        return jsonResult(await consoleCompleter.complete(sessions.get(args.session), args.line, args.limit));
+      },
+    }),
+  ];
+}
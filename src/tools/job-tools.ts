@@ -0,0 +1,129 @@
+/**
+ * OpenMOHAA MCP Server - Background Job Tools
+ */
+
+import { z } from 'zod';
+import {
+  defineTool,
+  errorResult,
+  jsonResult,
+  textResult,
+  type ToolDefinition,
+  type ToolExtra,
+} from '../tool-registry.js';
+import type { JobManager, JobRunner } from '../job-manager.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { ToolComponents } from './index.js';
+
+/**
+ * Schema field shared by tools that can run in the background
+ */
+export const backgroundField = z.boolean()
+  .default(false)
+  .describe('Run as a background job and return a job ID immediately (poll with openmohaa_job_status / openmohaa_job_result)');
+
+/**
+ * Run a tool body as a job.
+ * In the foreground the call waits for the job, forwards progress to the client's
+ * progress token and is cancelled by notifications/cancelled. In the background
+ * the job ID is returned straight away.
+ */
+export async function runAsJob(
+  jobManager: JobManager,
+  name: string,
+  extra: ToolExtra,
+  background: boolean,
+  runner: JobRunner<CallToolResult>
+): Promise<CallToolResult> {
+  if (background) {
+    const job = jobManager.start(name, runner);
+    return jsonResult({ jobId: job.id, name, status: job.status });
+  }
+
+  const job = jobManager.start(name, runner, extra.signal);
+  const progressToken = extra._meta?.progressToken;
+  const onProgress = (event: { id: string; progress: number; total?: number; message?: string }) => {
+    if (event.id !== job.id || progressToken === undefined) {
+      return;
+    }
+    extra.sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, progress: event.progress, total: event.total, message: event.message },
+    }).catch(() => {});
+  };
+
+  jobManager.on('progress', onProgress);
+  try {
+    const info = await jobManager.wait(job.id);
+    if (info.status === 'failed') {
+      throw new Error(info.error);
+    }
+    if (info.status === 'cancelled') {
+      return errorResult(`${name} was cancelled`);
+    }
+    return jobManager.getResult(job.id) as CallToolResult;
+  } finally {
+    jobManager.off('progress', onProgress);
+  }
+}
+
+export function createJobTools({ jobManager }: ToolComponents): ToolDefinition[] {
+  const jobId = z.string().describe('Job ID returned when the job was started');
+
+  return [
+    defineTool({
+      name: 'openmohaa_job_list',
+      description: 'List background jobs, newest first',
+      schema: z.object({
+        status: z.enum(['running', 'completed', 'failed', 'cancelled']).optional().describe('Filter by status'),
+      }),
+      async handler(args) {
+        return jsonResult(jobManager.list(args.status));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_job_status',
+      description: 'Get the status and progress of a job',
+      schema: z.object({ jobId }),
+      async handler(args) {
+        const job = jobManager.get(args.jobId);
+        return job ? jsonResult(job) : errorResult(`Job not found: ${args.jobId}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_job_result',
+      description: 'Get the result of a job, optionally waiting for it to finish',
+      schema: z.object({
+        jobId,
+        waitMs: z.number().default(0).describe('How long to wait for a running job to finish'),
+      }),
+      async handler(args) {
+        if (!jobManager.get(args.jobId)) {
+          return errorResult(`Job not found: ${args.jobId}`);
+        }
+
+        const job = await jobManager.wait(args.jobId, args.waitMs);
+        switch (job.status) {
+          case 'running':
+            return textResult(`Job ${job.id} is still running\n${JSON.stringify(job, null, 2)}`);
+          case 'failed':
+            return errorResult(`Job ${job.id} failed: ${job.error}`);
+          case 'cancelled':
+            return errorResult(`Job ${job.id} was cancelled`);
+          default:
+            return jobManager.getResult(job.id) as CallToolResult;
+        }
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_job_cancel',
+      description: 'Cancel a running job',
+      schema: z.object({ jobId }),
+      async handler(args) {
+        return jobManager.cancel(args.jobId)
+          ? textResult(`Job ${args.jobId} cancelled`)
+          : errorResult(`Job ${args.jobId} is not running`);
+      },
+    }),
+  ];
+}
@@ -0,0 +1,131 @@
+/**
+ * OpenMOHAA MCP Server - Log Analysis Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import type { ToolComponents } from './index.js';
+
+const logFile = z.string().describe('Path to log file');
+
+export function createLogTools({ logAnalyzer }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_log_list',
+      description: 'List available log files',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(logAnalyzer.listLogs());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_parse',
+      description: 'Parse a log file',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        return jsonResult(logAnalyzer.parseLog(args.filePath).slice(-100));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_stats',
+      description: 'Get log statistics',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        return jsonResult(logAnalyzer.getStats(args.filePath));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_search',
+      description: 'Search logs for a pattern',
+      schema: z.object({
+        filePath: logFile,
+        pattern: z.string().describe('Search pattern (regex)'),
+        type: z.enum(['info', 'warning', 'error', 'chat', 'kill', 'connect', 'disconnect', 'command', 'other'])
+          .optional()
+          .describe('Filter by entry type'),
+        limit: z.number().default(100).describe('Maximum results'),
+      }),
+      async handler(args) {
+        return jsonResult(logAnalyzer.search(args.filePath, args.pattern, {
+          type: args.type,
+          limit: args.limit,
+        }));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_errors',
+      description: 'Get errors from log',
+      schema: z.object({
+        filePath: logFile,
+        limit: z.number().default(50).describe('Maximum results'),
+      }),
+      async handler(args) {
+        return jsonResult(logAnalyzer.getErrors(args.filePath, args.limit));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_kills',
+      description: 'Parse kill events from log',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        return jsonResult(logAnalyzer.parseKills(args.filePath));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_sessions',
+      description: 'Analyze player sessions from log',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        return jsonResult(logAnalyzer.analyzePlayerSessions(args.filePath));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_tail',
+      description: 'Get last N lines of log',
+      schema: z.object({
+        filePath: logFile,
+        lines: z.number().default(50).describe('Number of lines'),
+      }),
+      async handler(args) {
+        return textResult(logAnalyzer.tail(args.filePath, args.lines).join('\n'));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_watch',
+      description: 'Start watching a log file for new entries',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        logAnalyzer.watchLog(args.filePath);
+        return textResult(`Watching log: ${args.filePath}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_unwatch',
+      description: 'Stop watching a log file',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        logAnalyzer.unwatchLog(args.filePath);
+        return textResult(`Stopped watching log: ${args.filePath}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_summary',
+      description: 'Generate a summary of a log file',
+      schema: z.object({ filePath: logFile }),
+      async handler(args) {
+        return textResult(logAnalyzer.generateSummary(args.filePath));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_log_set_dir',
+      description: 'Set the log directory',
+      schema: z.object({
+        dir: z.string().describe('Log directory path'),
+      }),
+      async handler(args) {
+        logAnalyzer.setLogDir(args.dir);
+        return textResult(`Log directory set to: ${args.dir}`);
+      },
+    }),
+  ];
+}
@@ -0,0 +1,99 @@
+/**
+ * OpenMOHAA MCP Server - Input Macro Tools
+ */
+
+import { z } from 'zod';
+import { writeFileSync } from 'fs';
+import { defineTool, errorResult, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { macroToAutomationScript } from '../input-macros.js';
+import { backgroundField, runAsJob } from './job-tools.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createMacroTools({ sessions, macros, jobManager }: ToolComponents): ToolDefinition[] {
+  const nameField = z.string().describe('Macro name');
+  const speedField = z.number().positive().default(1).describe('Playback speed; 2 replays twice as fast');
+
+  return [
+    defineTool({
+      name: 'openmohaa_macro_record_start',
+      description: 'Start recording what a human does in the game window: mouse moves, clicks, wheel and keys, with timing. X11 only (needs xinput and xmodmap).',
+      schema: z.object({
+        moveIntervalMs: z.number().int().min(0).default(20).describe('Minimum time between recorded mouse moves'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        await uiController.startRecording({ moveIntervalMs: args.moveIntervalMs });
+        return textResult('Recording input to the game window; call openmohaa_macro_record_stop to finish');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_macro_record_stop',
+      description: 'Stop recording and save the input as a named macro',
+      schema: z.object({
+        name: nameField,
+        save: z.boolean().default(true).describe('Save the macro to the macro directory'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { uiController } = sessions.get(args.session);
+        const macro = uiController.stopRecording(args.name);
+        const path = args.save ? macros.save(macro) : undefined;
+        return jsonResult({ path, ...macro });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_macro_replay',
+      description: 'Replay a saved macro into the game window. Coordinates are scaled if the window size changed since recording.',
+      schema: z.object({
+        name: nameField,
+        speed: speedField,
+        background: backgroundField,
+        session: sessionField,
+      }),
+      async handler(args, extra) {
+        const macro = macros.load(args.name);
+        const { uiController } = sessions.get(args.session);
+
+        return runAsJob(jobManager, 'openmohaa_macro_replay', extra, args.background, async ({ signal, reportProgress }) => {
+          await uiController.focusWindow();
+          const result = await uiController.replayMacro(macro, {
+            speed: args.speed,
+            signal,
+            onEvent: (index) => reportProgress(index + 1, macro.events.length),
+          });
+          return jsonResult({ name: macro.name, ...result });
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_macro_list',
+      description: 'List saved macros',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult({ dir: macros.getDir(), macros: macros.list() });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_macro_export',
+      description: 'Convert a macro to an automation script for openmohaa_run_script, with the recorded timing as waitAfter',
+      schema: z.object({
+        name: nameField,
+        speed: speedField,
+        outputPath: z.string().optional().describe('Write the script JSON to this file as well'),
+      }),
+      async handler(args) {
+        const script = macroToAutomationScript(macros.load(args.name), args.speed);
+        if (args.outputPath) {
+          try {
+            writeFileSync(args.outputPath, `${JSON.stringify(script, null, 2)}\n`);
+          } catch (error) {
+            return errorResult(`Failed to write ${args.outputPath}: ${error instanceof Error ? error.message : error}`);
+          }
+        }
+        return jsonResult(script);
+      },
+    }),
+  ];
+}
@@ -0,0 +1,138 @@
+/**
+ * OpenMOHAA MCP Server - Performance Monitoring Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { backgroundField, runAsJob } from './job-tools.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createPerformanceTools({ sessions, jobManager }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_perf_start',
+      description: 'Start performance monitoring',
+      schema: z.object({
+        intervalMs: z.number().default(1000).describe('Sample interval in milliseconds'),
+        pid: z.number().optional().describe('Game process PID'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        if (args.pid) {
+          performanceMonitor.setPid(args.pid);
+        }
+        performanceMonitor.startMonitoring(args.intervalMs);
+        return textResult('Performance monitoring started');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_stop',
+      description: 'Stop performance monitoring',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        performanceMonitor.stopMonitoring();
+        return textResult('Performance monitoring stopped');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_collect',
+      description: 'Collect current performance metrics',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        return jsonResult(await performanceMonitor.collectMetrics());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_stats',
+      description: 'Get performance statistics from collected samples',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        const stats = performanceMonitor.getStatistics();
+        return stats ? jsonResult(stats) : textResult('No samples collected');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_benchmark',
+      description: 'Run a performance benchmark',
+      schema: z.object({
+        name: z.string().describe('Benchmark name'),
+        durationMs: z.number().describe('Benchmark duration in milliseconds'),
+        sampleIntervalMs: z.number().default(100).describe('Sample interval'),
+        background: backgroundField,
+        session: sessionField,
+      }),
+      async handler(args, extra) {
+        const { performanceMonitor } = sessions.get(args.session);
+        return runAsJob(jobManager, 'openmohaa_perf_benchmark', extra, args.background, async ({ signal, reportProgress }) => {
+          const onProgress = ({ name, elapsed, duration }: { name: string; elapsed: number; duration: number }) => {
+            if (name === args.name) {
+              reportProgress(Math.min(elapsed, duration), duration);
+            }
+          };
+
+          performanceMonitor.on('benchmarkProgress', onProgress);
+          try {
+            const result = await performanceMonitor.runBenchmark(args.name, args.durationMs, args.sampleIntervalMs, signal);
+            return jsonResult({
+              name: result.name,
+              duration: result.duration,
+              avgFps: result.avgFps,
+              minFps: result.minFps,
+              maxFps: result.maxFps,
+              p1Fps: result.p1Fps,
+              p01Fps: result.p01Fps,
+              sampleCount: result.samples.length,
+            });
+          } finally {
+            performanceMonitor.off('benchmarkProgress', onProgress);
+          }
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_check_issues',
+      description: 'Check for performance issues',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        return jsonResult(performanceMonitor.checkPerformanceIssues());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_export_csv',
+      description: 'Export performance data to CSV',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        return textResult(performanceMonitor.exportToCsv());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_perf_clear',
+      description: 'Clear collected performance samples',
+      schema: z.object({
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { performanceMonitor } = sessions.get(args.session);
+        performanceMonitor.clearSamples();
+        return textResult('Performance samples cleared');
+      },
+    }),
+  ];
+}
@@ -0,0 +1,92 @@
+/**
+ * OpenMOHAA MCP Server - Launch Profile Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, errorResult, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { launchProfileSchema, profileNameSchema } from '../launch-profiles.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createProfileTools({ sessions, launchProfiles, defaults }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_profile_create',
+      description: 'Create or replace a named launch profile. Profiles can extend another profile: lists (arguments, execConfigs, commands) are appended, env is merged and other fields override.',
+      schema: launchProfileSchema.extend({
+        format: z.enum(['yaml', 'json']).default('yaml').describe('File format to store the profile in'),
+      }),
+      async handler({ format, ...profile }) {
+        const path = launchProfiles.save(profile, format);
+        return jsonResult({ path, resolved: launchProfiles.resolve(profile.name) });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_profile_list',
+      description: 'List launch profiles in the profile directory',
+      schema: z.object({
+        resolve: z.boolean().default(false).describe('Include each profile with inheritance applied'),
+      }),
+      async handler(args) {
+        const profiles = launchProfiles.list();
+        if (!args.resolve) {
+          return jsonResult({ dir: launchProfiles.getDir(), profiles });
+        }
+        return jsonResult({
+          dir: launchProfiles.getDir(),
+          profiles: profiles.map((profile) => {
+            try {
+              return { ...profile, resolved: launchProfiles.resolve(profile.name) };
+            } catch (error) {
+              return { ...profile, error: error instanceof Error ? error.message : String(error) };
+            }
+          }),
+        });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_profile_launch',
+      description: 'Launch the game from a launch profile, then send the profile\'s post-launch commands',
+      schema: z.object({
+        name: profileNameSchema.describe('Profile name'),
+        executablePath: z.string().optional()
+          .describe('Override the profile\'s executable. Falls back to OPENMOHAA_EXEC_PATH if the profile has none.'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const profile = launchProfiles.resolve(args.name);
+        const execPath = args.executablePath || profile.executablePath || defaults.execPath;
+        if (!execPath) {
+          return errorResult(`Error: Profile ${args.name} has no executablePath and OPENMOHAA_EXEC_PATH env var not set`);
+        }
+
+        const config = launchProfiles.toGameConfig(profile, execPath);
+        const { id, launcher, consoleManager } = sessions.getOrCreate(args.session);
+        const state = await launcher.launch({ ...config, headless: config.headless ?? defaults.headless });
+
+        const commands = [];
+        for (const command of profile.commands ?? []) {
+          commands.push({ command, ...(await consoleManager.sendCommand(command)) });
+        }
+
+        return jsonResult({ session: id, profile: profile.name, ...state, commands });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_profile_delete',
+      description: 'Delete a launch profile',
+      schema: z.object({
+        name: profileNameSchema.describe('Profile name'),
+      }),
+      async handler(args) {
+        const { deleted, dependents } = launchProfiles.delete(args.name);
+        if (!deleted) {
+          return errorResult(`Profile not found: ${args.name}`);
+        }
+        return textResult(dependents.length
+          ? `Deleted ${args.name}; these profiles extend it and no longer resolve: ${dependents.join(', ')}`
+          : `Deleted ${args.name}`);
+      },
+    }),
+  ];
+}
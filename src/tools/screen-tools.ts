@@ -0,0 +1,126 @@
+/**
+ * OpenMOHAA MCP Server - Screen Capture Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult, type ToolDefinition } from '../tool-registry.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export const regionSchema = z.object({
+  x: z.number(),
+  y: z.number(),
+  width: z.number(),
+  height: z.number(),
+});
+
+export function createScreenTools({ sessions }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_screenshot',
+      description: 'Capture a screenshot of the game window or screen',
+      schema: z.object({
+        outputPath: z.string().optional().describe('Path to save the screenshot (optional)'),
+        region: regionSchema.optional().describe('Capture specific region'),
+        format: z.enum(['png', 'jpeg']).default('png'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { screenCapture } = sessions.get(args.session);
+        let result;
+        if (args.region) {
+          result = await screenCapture.captureRegion(args.region, args.format);
+        } else {
+          result = await screenCapture.captureWindow(args.format);
+          if (!result.success) {
+            result = await screenCapture.captureScreen(args.format);
+          }
+        }
+
+        if (args.outputPath && result.success && result.data) {
+          await screenCapture.saveScreenshot(args.outputPath);
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: result.success
+                ? `Screenshot captured: ${result.width}x${result.height}, saved to ${result.path}`
+                : `Failed: ${result.error}`,
+            },
+            ...(result.base64
+              ? [
+                  {
+                    type: 'image' as const,
+                    data: result.base64,
+                    mimeType: args.format === 'jpeg' ? 'image/jpeg' : 'image/png',
+                  },
+                ]
+              : []),
+          ],
+        };
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_get_pixel',
+      description: 'Get the color of a pixel at specified coordinates',
+      schema: z.object({
+        x: z.number().describe('X coordinate'),
+        y: z.number().describe('Y coordinate'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { screenCapture } = sessions.get(args.session);
+        const color = await screenCapture.getPixelColor(args.x, args.y);
+        return textResult(
+          color
+            ? `Pixel at (${args.x}, ${args.y}): RGB(${color.r}, ${color.g}, ${color.b})`
+            : 'Failed to get pixel color'
+        );
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_check_pixel',
+      description: 'Check if a pixel matches an expected color',
+      schema: z.object({
+        x: z.number().describe('X coordinate'),
+        y: z.number().describe('Y coordinate'),
+        r: z.number().describe('Expected red value (0-255)'),
+        g: z.number().describe('Expected green value (0-255)'),
+        b: z.number().describe('Expected blue value (0-255)'),
+        tolerance: z.number().default(10).describe('Color tolerance'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { screenCapture } = sessions.get(args.session);
+        const matches = await screenCapture.checkPixelColor(
+          args.x,
+          args.y,
+          { r: args.r, g: args.g, b: args.b },
+          args.tolerance
+        );
+        return textResult(matches ? 'Pixel matches expected color' : 'Pixel does not match expected color');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_find_image',
+      description: 'Find an image template on screen',
+      schema: z.object({
+        templatePath: z.string().describe('Path to the template image'),
+        threshold: z.number().default(0.9).describe('Matching threshold (0-1)'),
+        region: regionSchema.optional().describe('Search region'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { screenCapture } = sessions.get(args.session);
+        const match = await screenCapture.findImage(args.templatePath, args.region, args.threshold);
+        return textResult(
+          match.found
+            ? `Image found at (${match.x}, ${match.y}) with confidence ${match.confidence}`
+            : 'Image not found'
+        );
+      },
+    }),
+  ];
+}
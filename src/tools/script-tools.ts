@@ -0,0 +1,75 @@
+/**
+ * OpenMOHAA MCP Server - Script Validation Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import type { ToolComponents } from './index.js';
+
+export function createScriptTools({ scriptValidator }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_script_validate_file',
+      description: 'Validate a Morpheus script file using mfuse_exec',
+      schema: z.object({
+        scriptPath: z.string().describe('Path to the script file to validate'),
+      }),
+      async handler(args) {
+        return jsonResult(await scriptValidator.validateFile(args.scriptPath));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_script_validate_content',
+      description: 'Validate Morpheus script content using mfuse_exec',
+      schema: z.object({
+        content: z.string().describe('Script content to validate'),
+        scriptDir: z.string().describe('Directory for script context (for includes)'),
+        scriptName: z.string().optional().describe('Name for the script (default: temp_script.scr)'),
+      }),
+      async handler(args) {
+        return jsonResult(await scriptValidator.validateContent(args.content, args.scriptDir, args.scriptName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_script_validate_files',
+      description: 'Validate multiple Morpheus script files',
+      schema: z.object({
+        scriptPaths: z.array(z.string()).describe('Array of script file paths to validate'),
+      }),
+      async handler(args) {
+        const results = await scriptValidator.validateFiles(args.scriptPaths);
+        return jsonResult(Object.fromEntries(results));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_script_validator_status',
+      description: 'Get script validator status and configuration',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(scriptValidator.getStatus());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_script_set_mfuse_path',
+      description: 'Set the path to mfuse_exec validator',
+      schema: z.object({
+        path: z.string().describe('Path to mfuse_exec executable'),
+      }),
+      async handler(args) {
+        scriptValidator.setMfuseExecPath(args.path);
+        return textResult(`mfuse_exec path set to: ${args.path}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_script_set_commands_list',
+      description: 'Set the path to commands.txt for validation',
+      schema: z.object({
+        path: z.string().describe('Path to commands.txt file'),
+      }),
+      async handler(args) {
+        scriptValidator.setCommandsListPath(args.path);
+        return textResult(`Commands list path set to: ${args.path}`);
+      },
+    }),
+  ];
+}
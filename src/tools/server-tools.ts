@@ -0,0 +1,121 @@
+/**
+ * OpenMOHAA MCP Server - Dedicated Server Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import type { ToolComponents } from './index.js';
+
+export function createServerTools({ serverManager }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_server_start',
+      description: 'Start a dedicated server',
+      schema: z.object({
+        executablePath: z.string().describe('Path to server executable'),
+        gameDir: z.string().optional().describe('Game directory'),
+        mod: z.string().optional().describe('Mod to load'),
+        port: z.number().default(12203).describe('Server port'),
+        maxPlayers: z.number().default(16).describe('Maximum players'),
+        hostname: z.string().optional().describe('Server hostname'),
+        password: z.string().optional().describe('Server password'),
+        rconPassword: z.string().optional().describe('RCON password'),
+        map: z.string().optional().describe('Initial map'),
+        gametype: z.string().optional().describe('Game type'),
+        dedicated: z.union([z.literal(1), z.literal(2)]).default(2).describe('1=LAN, 2=Internet'),
+      }),
+      async handler(args) {
+        return jsonResult(await serverManager.startServer(args));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_stop',
+      description: 'Stop the dedicated server',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(await serverManager.stopServer());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_restart',
+      description: 'Restart the dedicated server',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(await serverManager.restartServer());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_status',
+      description: 'Get server status',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(serverManager.getStatus());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_rcon',
+      description: 'Send an RCON command',
+      schema: z.object({
+        command: z.string().describe('RCON command'),
+        host: z.string().default('localhost').describe('Server hostname'),
+        port: z.number().default(12203).describe('Server port'),
+        password: z.string().describe('RCON password'),
+      }),
+      async handler(args) {
+        return jsonResult(await serverManager.sendRcon(args.command, args.host, args.port, args.password));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_query',
+      description: 'Query server status via UDP',
+      schema: z.object({
+        host: z.string().describe('Server hostname'),
+        port: z.number().default(12203).describe('Server port'),
+      }),
+      async handler(args) {
+        return jsonResult(await serverManager.queryServer(args.host, args.port));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_output',
+      description: 'Get server console output',
+      schema: z.object({
+        lines: z.number().optional().describe('Number of lines to retrieve'),
+      }),
+      async handler(args) {
+        return textResult(serverManager.getOutput(args.lines).join('\n'));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_change_map',
+      description: 'Change the current map',
+      schema: z.object({
+        mapName: z.string().describe('Map name'),
+      }),
+      async handler(args) {
+        return jsonResult(await serverManager.changeMap(args.mapName));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_kick',
+      description: 'Kick a player from the server',
+      schema: z.object({
+        playerId: z.number().describe('Player ID'),
+        reason: z.string().optional().describe('Kick reason'),
+      }),
+      async handler(args) {
+        return jsonResult(await serverManager.kickPlayer(args.playerId, args.reason));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_server_say',
+      description: 'Send a server message',
+      schema: z.object({
+        message: z.string().describe('Message to send'),
+      }),
+      async handler(args) {
+        return jsonResult(await serverManager.say(args.message));
+      },
+    }),
+  ];
+}
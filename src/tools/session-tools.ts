@@ -0,0 +1,51 @@
+/**
+ * OpenMOHAA MCP Server - Game Session Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, errorResult, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { DEFAULT_SESSION, SESSION_ID_MESSAGE, isValidSessionId } from '../session-manager.js';
+import type { ToolComponents } from './index.js';
+
+/**
+ * Schema field shared by tools that act on one game instance
+ */
+export const sessionField = z.string()
+  .optional()
+  .describe(`Game session ID (default: "${DEFAULT_SESSION}")`);
+
+export function createSessionTools({ sessions }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_session_list',
+      description: 'List game sessions and the state of their processes',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult(sessions.list());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_session_create',
+      description: 'Create a game session without launching it; openmohaa_launch also creates unknown sessions',
+      schema: z.object({
+        id: z.string().refine(isValidSessionId, SESSION_ID_MESSAGE).optional().describe('Session ID (generated when omitted)'),
+      }),
+      async handler(args) {
+        const session = sessions.create(args.id);
+        return jsonResult({ id: session.id, createdAt: session.createdAt });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_session_close',
+      description: 'Stop a session\'s game and remove the session (the default session is only stopped)',
+      schema: z.object({
+        id: z.string().describe('Session ID'),
+      }),
+      async handler(args) {
+        return await sessions.close(args.id)
+          ? textResult(`Session ${args.id} closed`)
+          : errorResult(`Unknown session: ${args.id}`);
+      },
+    }),
+  ];
+}
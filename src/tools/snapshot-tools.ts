@@ -0,0 +1,108 @@
+/**
+ * OpenMOHAA MCP Server - Cvar Snapshot Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, errorResult, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createSnapshotTools({ sessions, cvarSnapshots }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_cvar_snapshot',
+      description: 'Snapshot the values of all cvars (parsed from cvarlist)',
+      schema: z.object({
+        name: z.string().optional().describe('Label for the snapshot'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { consoleManager } = sessions.get(args.session);
+        const { cvars, ...snapshot } = await cvarSnapshots.capture(consoleManager, args.name);
+        return jsonResult({ ...snapshot, cvarCount: cvars.length });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_snapshot_list',
+      description: 'List cvar snapshots and open cvar transactions',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult({ snapshots: cvarSnapshots.list(), transactions: cvarSnapshots.listTransactions() });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_diff',
+      description: 'Compare two cvar snapshots, or a snapshot with the current values',
+      schema: z.object({
+        from: z.string().describe('Snapshot ID to compare from'),
+        to: z.string().optional().describe('Snapshot ID to compare to (default: current values)'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const from = cvarSnapshots.get(args.from);
+        if (!from) {
+          return errorResult(`Unknown snapshot: ${args.from}`);
+        }
+
+        let to = args.to ? cvarSnapshots.get(args.to) : undefined;
+        if (args.to && !to) {
+          return errorResult(`Unknown snapshot: ${args.to}`);
+        }
+        if (!to) {
+          to = await cvarSnapshots.capture(sessions.get(args.session).consoleManager);
+          cvarSnapshots.delete(to.id);
+        }
+
+        return jsonResult(cvarSnapshots.diff(from, to));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_restore',
+      description: 'Set every cvar that changed since a snapshot back to its snapshot value',
+      schema: z.object({
+        snapshot: z.string().describe('Snapshot ID'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const snapshot = cvarSnapshots.get(args.snapshot);
+        if (!snapshot) {
+          return errorResult(`Unknown snapshot: ${args.snapshot}`);
+        }
+        return jsonResult(await cvarSnapshots.restore(sessions.get(args.session).consoleManager, snapshot));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_transaction_begin',
+      description: 'Start a cvar transaction; roll it back to undo every cvar change made since',
+      schema: z.object({
+        name: z.string().optional().describe('Label for the transaction'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        return jsonResult(await cvarSnapshots.begin(sessions.get(args.session).consoleManager, args.name));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_transaction_commit',
+      description: 'Keep the cvar changes made in a transaction',
+      schema: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+      async handler(args) {
+        return cvarSnapshots.commit(args.id)
+          ? textResult(`Transaction ${args.id} committed`)
+          : errorResult(`Unknown transaction: ${args.id}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_transaction_rollback',
+      description: 'Restore the cvar values from the start of a transaction',
+      schema: z.object({
+        id: z.string().describe('Transaction ID'),
+      }),
+      async handler(args) {
+        return jsonResult(await cvarSnapshots.rollback(args.id));
+      },
+    }),
+  ];
+}
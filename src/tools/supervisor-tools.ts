@@ -0,0 +1,57 @@
+/**
+ * OpenMOHAA MCP Server - Restart Supervisor Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, type ToolDefinition } from '../tool-registry.js';
+import { sessionField } from './session-tools.js';
+import type { Supervisor } from '../supervisor.js';
+import type { ToolComponents } from './index.js';
+
+const targetField = z.enum(['game', 'server']).default('game')
+  .describe('Supervise a session\'s game or the dedicated server');
+
+export function createSupervisorTools({ sessions, serverManager }: ToolComponents): ToolDefinition[] {
+  const getSupervisor = (target: 'game' | 'server', session?: string): Supervisor =>
+    target === 'server' ? serverManager.getSupervisor() : sessions.get(session).launcher.getSupervisor();
+
+  return [
+    defineTool({
+      name: 'openmohaa_restart_policy',
+      description: 'Configure automatic restarts after unexpected exits: exponential backoff, a healthy uptime that resets it, and crash-loop detection that stops restarting. Omitted fields keep their values; enabling again clears a detected crash loop.',
+      schema: z.object({
+        target: targetField,
+        enabled: z.boolean().optional().describe('Restart after unexpected exits'),
+        initialDelayMs: z.number().int().min(0).optional().describe('Delay before the first restart (default: 1000)'),
+        maxDelayMs: z.number().int().min(0).optional().describe('Upper bound of the delay (default: 60000)'),
+        multiplier: z.number().min(1).optional().describe('Delay growth per consecutive restart (default: 2)'),
+        healthyUptimeMs: z.number().int().min(0).optional()
+          .describe('Uptime after which a run counts as healthy and the backoff resets (default: 60000)'),
+        crashLoopThreshold: z.number().int().min(1).optional()
+          .describe('Short runs within the window that count as a crash loop (default: 5)'),
+        crashLoopWindowMs: z.number().int().min(0).optional().describe('Crash-loop window (default: 300000)'),
+        maxAttempts: z.number().int().min(0).optional().describe('Consecutive restarts before giving up; 0 for no limit'),
+        session: sessionField,
+      }),
+      async handler({ target, session, ...policy }) {
+        const supervisor = getSupervisor(target, session);
+        const changes = Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined));
+        supervisor.setPolicy(changes);
+        return jsonResult(supervisor.getStatus());
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_restart_history',
+      description: 'Get the supervisor state and the history of exits, restarts and crash loops',
+      schema: z.object({
+        target: targetField,
+        limit: z.number().int().positive().default(50).describe('Most recent events to return'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const supervisor = getSupervisor(args.target, args.session);
+        return jsonResult({ ...supervisor.getStatus(), history: supervisor.getHistory(args.limit) });
+      },
+    }),
+  ];
+}
@@ -0,0 +1,58 @@
+/**
+ * OpenMOHAA MCP Server - Console Transcript Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import type { ToolComponents } from './index.js';
+
+export function createTranscriptTools({ transcripts }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_console_search',
+      description: 'Search console transcripts of current and past sessions by regex, time range and stream. Returns the newest matches.',
+      schema: z.object({
+        pattern: z.string().optional().describe('Regex matched against lines without color codes'),
+        ignoreCase: z.boolean().default(true).describe('Case-insensitive matching'),
+        session: z.string().optional().describe('Only search this session (default: all sessions)'),
+        type: z.enum(['stdout', 'stderr', 'console']).optional().describe('Only search this stream'),
+        from: z.string().datetime({ offset: true }).optional().describe('Start of the time range (ISO 8601)'),
+        to: z.string().datetime({ offset: true }).optional().describe('End of the time range (ISO 8601)'),
+        limit: z.number().default(100).describe('Maximum number of matches'),
+        format: z.enum(['json', 'text']).default('text').describe('text prints one line per match'),
+      }),
+      async handler(args) {
+        const result = await transcripts.search({
+          pattern: args.pattern,
+          ignoreCase: args.ignoreCase,
+          session: args.session,
+          type: args.type,
+          from: args.from ? new Date(args.from) : undefined,
+          to: args.to ? new Date(args.to) : undefined,
+          limit: args.limit,
+        });
+
+        if (args.format === 'json') {
+          return jsonResult(result);
+        }
+
+        const header = `${result.total} matches in ${result.filesSearched} transcript files`
+          + (result.total > result.matches.length ? ` (showing the last ${result.matches.length})` : '');
+        return textResult([
+          header,
+          ...result.matches.map((line) => `${line.timestamp} [${line.session}] [${line.type}] ${line.text}`),
+        ].join('\n'));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_transcript_list',
+      description: 'List console transcript files with their sessions, time ranges and sizes',
+      schema: z.object({
+        session: z.string().optional().describe('Only list this session'),
+      }),
+      async handler(args) {
+        return jsonResult({ dir: transcripts.getDir(), files: transcripts.list(args.session) });
+      },
+    }),
+  ];
+}
@@ -0,0 +1,69 @@
+/**
+ * OpenMOHAA MCP Server - Utility Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult, type ToolDefinition } from '../tool-registry.js';
+import { VirtualDisplay } from '../virtual-display.js';
+import type { ToolComponents } from './index.js';
+
+export function createUtilityTools({ uiController, screenCapture }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_check_dependencies',
+      description: 'Check if required system tools are available',
+      schema: z.object({}),
+      async handler() {
+        const uiDeps = await uiController.checkDependencies();
+        const screenDeps = await screenCapture.checkDependencies();
+        const allMissing = [...uiDeps.missing, ...screenDeps.missing];
+        const headlessNote = VirtualDisplay.isAvailable()
+          ? ''
+          : '\n\nXvfb not found; headless launches need: sudo apt install xvfb';
+
+        return textResult(
+          (allMissing.length === 0
+            ? 'All dependencies are available'
+            : `Missing dependencies: ${allMissing.join(', ')}\n\nInstall with:\n${uiController.getBackendInfo().installCommand}`) + headlessNote
+        );
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_get_screen_resolution',
+      description: 'Get the current screen resolution',
+      schema: z.object({}),
+      async handler() {
+        const resolution = await screenCapture.getScreenResolution();
+        return textResult(`Screen resolution: ${resolution.width}x${resolution.height}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_get_display_server',
+      description: 'Get the display server type (X11 or Wayland), the input and capture backend in use and what it supports, plus the keyboard layout and console key',
+      schema: z.object({}),
+      async handler() {
+        const info = uiController.getBackendInfo();
+        const features = Object.entries(info.features);
+        const list = (supported: boolean) =>
+          features.filter(([, value]) => value === supported).map(([name]) => name).join(', ') || 'none';
+
+        let layout: string;
+        try {
+          layout = (await uiController.getKeyboardLayout()).name;
+        } catch (error) {
+          layout = `unknown (${error instanceof Error ? error.message : error})`;
+        }
+
+        return textResult([
+          `Display server: ${uiController.getDisplayServer()}`,
+          `Backend: ${info.server}${info.compositor ? ` (${info.compositor} IPC)` : ''}`,
+          `Tools: ${[...new Set([...info.tools.input, ...info.tools.capture])].join(', ')}`,
+          `Supported: ${list(true)}`,
+          `Unsupported: ${list(false)}`,
+          `Keyboard layout: ${layout}`,
+          `Console key: ${uiController.getConsoleKey()}`,
+        ].join('\n'));
+      },
+    }),
+  ];
+}
@@ -0,0 +1,82 @@
+/**
+ * OpenMOHAA MCP Server - Wait and Condition Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, textResult, type ToolDefinition } from '../tool-registry.js';
+import { backgroundField, runAsJob } from './job-tools.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+export function createWaitTools({ sessions, jobManager }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_wait',
+      description: 'Wait for a specified duration',
+      schema: z.object({
+        ms: z.number().describe('Duration in milliseconds'),
+      }),
+      async handler(args) {
+        await new Promise((resolve) => setTimeout(resolve, args.ms));
+        return textResult(`Waited ${args.ms}ms`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_wait_for_console',
+      description: 'Wait for specific text to appear in console output',
+      schema: z.object({
+        pattern: z.string().describe('Regex pattern to wait for'),
+        timeout: z.number().default(30000).describe('Timeout in milliseconds'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { launcher } = sessions.get(args.session);
+        const output = await launcher.waitForConsolePattern(args.pattern, args.timeout);
+        return textResult(output ? `Pattern found: ${output.text}` : 'Pattern not found within timeout');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_wait_for_pixel',
+      description: 'Wait for a pixel to become a specific color',
+      schema: z.object({
+        x: z.number(),
+        y: z.number(),
+        r: z.number(),
+        g: z.number(),
+        b: z.number(),
+        tolerance: z.number().default(10),
+        timeout: z.number().default(30000),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { screenCapture } = sessions.get(args.session);
+        const found = await screenCapture.waitForPixelColor(
+          args.x,
+          args.y,
+          { r: args.r, g: args.g, b: args.b },
+          args.timeout,
+          args.tolerance
+        );
+        return textResult(found ? 'Pixel color matched' : 'Pixel color did not match within timeout');
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_wait_for_image',
+      description: 'Wait for an image template to appear on screen',
+      schema: z.object({
+        templatePath: z.string(),
+        threshold: z.number().default(0.9),
+        timeout: z.number().default(30000),
+        background: backgroundField,
+        session: sessionField,
+      }),
+      async handler(args, extra) {
+        const { screenCapture } = sessions.get(args.session);
+        return runAsJob(jobManager, 'openmohaa_wait_for_image', extra, args.background, async ({ signal }) => {
+          const match = await screenCapture.waitForImage(args.templatePath, args.timeout, args.threshold, signal);
+          return textResult(match.found ? `Image found at (${match.x}, ${match.y})` : 'Image not found within timeout');
+        });
+      },
+    }),
+  ];
+}
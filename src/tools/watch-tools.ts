@@ -0,0 +1,85 @@
+/**
+ * OpenMOHAA MCP Server - Cvar Watch Tools
+ */
+
+import { z } from 'zod';
+import { defineTool, errorResult, jsonResult, textResult, type ToolDefinition } from '../tool-registry.js';
+import { RESOURCE_URIS } from '../resource-manager.js';
+import { isValidPattern } from '../readiness.js';
+import { sessionField } from './session-tools.js';
+import type { ToolComponents } from './index.js';
+
+/**
+ * Schema for cvar comparisons shared by watch and wait tools
+ */
+export const comparisonSchema = z.discriminatedUnion('op', [
+  z.object({ op: z.literal('equals'), value: z.string() }),
+  z.object({ op: z.literal('not_equals'), value: z.string() }),
+  z.object({ op: z.literal('matches'), pattern: z.string().refine(isValidPattern, 'Invalid regular expression').describe('Regular expression') }),
+  z.object({ op: z.literal('between'), min: z.number().optional(), max: z.number().optional() }),
+  z.object({
+    op: z.literal('changed'),
+    from: z.string().optional().describe('Value to change away from (default: the value when watching began)'),
+  }),
+]);
+
+export function createWatchTools({ sessions, cvarWatcher }: ToolComponents): ToolDefinition[] {
+  return [
+    defineTool({
+      name: 'openmohaa_cvar_watch',
+      description: `Watch a cvar for changes and, optionally, a comparison. Changes appear in the ${RESOURCE_URIS.cvarWatches} resource; subscribe to it to be notified.`,
+      schema: z.object({
+        name: z.string().describe('Cvar name'),
+        comparison: comparisonSchema.optional().describe('Condition to report as matched'),
+        pollMs: z.number().default(1000).describe('Polling interval for changes not printed to the console'),
+        session: sessionField,
+      }),
+      async handler(args) {
+        const { id, consoleManager } = sessions.get(args.session);
+        return jsonResult(cvarWatcher.watch(consoleManager, args.name, {
+          session: id,
+          comparison: args.comparison,
+          pollMs: args.pollMs,
+        }));
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_unwatch',
+      description: 'Stop watching a cvar',
+      schema: z.object({
+        id: z.string().describe('Watch ID'),
+      }),
+      async handler(args) {
+        return cvarWatcher.unwatch(args.id)
+          ? textResult(`Stopped ${args.id}`)
+          : errorResult(`Unknown watch: ${args.id}`);
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_cvar_watch_list',
+      description: 'List cvar watches with their current values and recent changes',
+      schema: z.object({}),
+      async handler() {
+        return jsonResult({ watches: cvarWatcher.list(), recentChanges: cvarWatcher.getRecentEvents() });
+      },
+    }),
+    defineTool({
+      name: 'openmohaa_wait_for_cvar',
+      description: 'Wait until a cvar satisfies a comparison (equals, not_equals, matches, between, changed)',
+      schema: z.object({
+        name: z.string().describe('Cvar name'),
+        comparison: comparisonSchema,
+        timeout: z.number().default(30000).describe('Timeout in milliseconds'),
+        session: sessionField,
+      }),
+      async handler(args, extra) {
+        const { id, consoleManager } = sessions.get(args.session);
+        const met = await cvarWatcher.waitFor(consoleManager, args.name, args.comparison, args.timeout, {
+          session: id,
+          signal: extra.signal,
+        });
+        return textResult(met ? `${args.name} matched` : `Timeout waiting for ${args.name}`);
+      },
+    }),
+  ];
+}
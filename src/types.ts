@@ -2,6 +2,10 @@
  * OpenMOHAA MCP Server - Type Definitions
  */
 
+import type { ColorSegment } from './color-codes.js';
+import type { ReadinessConfig, ReadinessResult } from './readiness.js';
+import type { SandboxConfig } from './sandbox.js';
+
 export interface GameConfig {
   executablePath: string;
   workingDirectory?: string;
@@ -12,6 +16,10 @@ export interface GameConfig {
   enableCheats?: boolean;
   windowedMode?: boolean;
   resolution?: { width: number; height: number };
+  headless?: boolean;
+  coreDumps?: boolean;
+  readiness?: ReadinessConfig;
+  sandbox?: SandboxConfig;
 }
 
 export interface ProcessState {
@@ -20,11 +28,32 @@ export interface ProcessState {
   exitCode: number | null;
   startTime: Date | null;
   lastError: string | null;
+  display?: string;
+  /** Private HOME the game runs with */
+  home?: string;
+  /** Probe results of the last startup */
+  readiness?: ReadinessResult;
+}
+
+export interface GameCrash {
+  pid: number | null;
+  exitCode: number | null;
+  signal: string | null;
+  executablePath: string;
+  arguments: string[];
+  workingDirectory: string;
+  startTime: Date | null;
+  timestamp: Date;
 }
 
 export interface ConsoleOutput {
   timestamp: Date;
+  /** Line with color codes removed */
   text: string;
+  /** Line as printed, with color codes */
+  raw?: string;
+  /** Color runs of the line */
+  segments?: ColorSegment[];
   type: 'stdout' | 'stderr' | 'console';
 }
 
@@ -59,6 +88,9 @@ export interface PixelColor {
   b: number;
 }
 
+/**
+ * A window's client area in screen coordinates; title bars and borders are not included
+ */
 export interface WindowInfo {
   id: string;
   title: string;
@@ -69,6 +101,18 @@ export interface WindowInfo {
   focused: boolean;
 }
 
+/**
+ * A monitor's area in screen coordinates, which span all monitors
+ */
+export interface MonitorInfo {
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  primary: boolean;
+}
+
 export interface AutomationStep {
   action: string;
   params: Record<string, unknown>;
@@ -104,6 +148,8 @@ export interface AutomationScript {
   steps: AutomationStep[];
   setup?: AutomationStep[];
   teardown?: AutomationStep[];
+  /** Snapshot cvars after setup and restore them before teardown */
+  cvarTransaction?: boolean;
 }
 
 export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
@@ -124,10 +170,22 @@ export interface GameState {
   playerCount?: number;
 }
 
+/**
+ * ok: the command ran and output holds its reply (possibly empty)
+ * unknown_command: the game did not recognise the command
+ * timeout: no reply arrived in time
+ * sent: the command was sent without waiting for a reply
+ * error: the command could not be sent
+ */
+export type CommandStatus = 'ok' | 'unknown_command' | 'timeout' | 'sent' | 'error';
+
 export interface CommandResult {
   success: boolean;
+  status: CommandStatus;
   output: string;
   error?: string;
+  /** Set when the command was not found in the build's inventory before sending, or its reply could not be captured */
+  warning?: string;
 }
 
 // MCP Tool input/output types
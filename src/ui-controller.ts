@@ -1,53 +1,75 @@
 /**
  * OpenMOHAA MCP Server - UI Controller Module
  * Handles mouse movement, clicks, keyboard input, and window management
- * Uses xdotool for X11 and supports Wayland via ydotool fallback
+ * through the X11 or Wayland display backend
  */
 
-import { exec, execSync, spawn } from 'child_process';
+import { exec, execSync, spawn, type ChildProcess } from 'child_process';
 import { promisify } from 'util';
 import { EventEmitter } from 'events';
-import type { MousePosition, WindowInfo, ScreenRegion, PixelColor } from './types.js';
+import {
+  createDisplayBackend,
+  detectDisplayServer,
+  type DisplayBackend,
+  type DisplayBackendInfo,
+  type DisplayServer,
+} from './display-backend.js';
+import { CONSOLE_KEYCODE, gameKeyToKeysym, type KeyboardLayout } from './keyboard-layout.js';
+import { interpolatePath, lookSteps, type MotionConfig, type PathPoint } from './mouse-paths.js';
+import {
+  XinputEventParser,
+  compactEvents,
+  parseKeymap,
+  toMacroEvent,
+  type InputMacro,
+  type MacroEvent,
+  type RawInputEvent,
+} from './input-macros.js';
+import type { MonitorInfo, MousePosition, WindowInfo, ScreenRegion, PixelColor } from './types.js';
 
 const execAsync = promisify(exec);
 
+interface Recording {
+  process: ChildProcess;
+  parser: XinputEventParser;
+  keymap: Map<number, string>;
+  window: WindowInfo;
+  startedAt: Date;
+  /** X server time of the first event */
+  firstTime: number | null;
+  events: MacroEvent[];
+  heldButtons: Set<number>;
+  focused: boolean;
+  focusTimer: NodeJS.Timeout;
+  moveIntervalMs: number;
+  lastMoveAt: number;
+  error: string | null;
+}
+
 export class UIController extends EventEmitter {
-  private windowId: string | null = null;
+  private window: WindowInfo | null = null;
   private windowTitle = 'OpenMOHAA';
-  private isWayland: boolean;
-  private displayServer: 'x11' | 'wayland' | 'unknown';
+  private windowPid: number | null = null;
+  private display: string | null = null;
+  private displayServer: DisplayServer;
+  private backend: DisplayBackend;
+  private recording: Recording | null = null;
+  /** Console key as the game's bind command names it */
+  private consoleKey = '`';
+  /** Last absolute pointer position sent, for backends that cannot read it */
+  private pointer: MousePosition | null = null;
 
   constructor() {
     super();
-    this.displayServer = this.detectDisplayServer();
-    this.isWayland = this.displayServer === 'wayland';
-  }
-
-  /**
-   * Detect the current display server (X11 or Wayland)
-   */
-  private detectDisplayServer(): 'x11' | 'wayland' | 'unknown' {
-    const xdgSession = process.env.XDG_SESSION_TYPE?.toLowerCase();
-    const waylandDisplay = process.env.WAYLAND_DISPLAY;
-    const display = process.env.DISPLAY;
-
-    if (xdgSession === 'wayland' || waylandDisplay) {
-      return 'wayland';
-    }
-    if (xdgSession === 'x11' || display) {
-      return 'x11';
-    }
-    return 'unknown';
+    this.displayServer = detectDisplayServer();
+    this.backend = createDisplayBackend((command) => this.exec(command));
   }
 
   /**
    * Check if required tools are available
    */
   async checkDependencies(): Promise<{ available: boolean; missing: string[] }> {
-    const tools = ['xdotool', 'xwininfo', 'xprop'];
-    if (this.isWayland) {
-      tools.push('ydotool');
-    }
+    const tools = this.backend.getInfo().tools.input;
 
     const missing: string[] = [];
     for (const tool of tools) {
@@ -65,36 +87,15 @@ export class UIController extends EventEmitter {
    * Find the OpenMOHAA window
    */
   async findWindow(title?: string): Promise<WindowInfo | null> {
-    const searchTitle = title || this.windowTitle;
-
     try {
-      const { stdout } = await execAsync(`xdotool search --name "${searchTitle}" 2>/dev/null | head -1`);
-      const windowId = stdout.trim();
-
-      if (!windowId) {
-        return null;
+      const window = await this.backend.findWindow({
+        pid: title ? null : this.windowPid,
+        title: title || this.windowTitle,
+      });
+      if (window) {
+        this.window = window;
       }
-
-      this.windowId = windowId;
-
-      // Get window geometry
-      const { stdout: geoStdout } = await execAsync(`xdotool getwindowgeometry ${windowId}`);
-      const posMatch = geoStdout.match(/Position:\s*(\d+),(\d+)/);
-      const sizeMatch = geoStdout.match(/Geometry:\s*(\d+)x(\d+)/);
-
-      // Check if focused
-      const { stdout: focusStdout } = await execAsync('xdotool getactivewindow');
-      const focused = focusStdout.trim() === windowId;
-
-      return {
-        id: windowId,
-        title: searchTitle,
-        x: posMatch ? parseInt(posMatch[1]) : 0,
-        y: posMatch ? parseInt(posMatch[2]) : 0,
-        width: sizeMatch ? parseInt(sizeMatch[1]) : 0,
-        height: sizeMatch ? parseInt(sizeMatch[2]) : 0,
-        focused,
-      };
+      return window;
     } catch {
       return null;
     }
@@ -104,15 +105,13 @@ export class UIController extends EventEmitter {
    * Focus the game window
    */
   async focusWindow(): Promise<boolean> {
-    if (!this.windowId) {
-      const window = await this.findWindow();
-      if (!window) {
-        return false;
-      }
+    const window = this.window ?? await this.findWindow();
+    if (!window) {
+      return false;
     }
 
     try {
-      await execAsync(`xdotool windowactivate ${this.windowId}`);
+      await this.backend.focusWindow(window.id);
       await this.delay(100);
       return true;
     } catch {
@@ -124,12 +123,12 @@ export class UIController extends EventEmitter {
    * Minimize the game window
    */
   async minimizeWindow(): Promise<boolean> {
-    if (!this.windowId) {
+    if (!this.window) {
       return false;
     }
 
     try {
-      await execAsync(`xdotool windowminimize ${this.windowId}`);
+      await this.backend.minimizeWindow(this.window.id);
       return true;
     } catch {
       return false;
@@ -144,55 +143,174 @@ export class UIController extends EventEmitter {
   }
 
   /**
-   * Move mouse to absolute coordinates
+   * Move and resize the game window's client area. With a monitor, x and y are
+   * relative to its top-left corner. Returns the geometry the window manager applied.
+   */
+  async setWindowGeometry(geometry: Partial<ScreenRegion>, monitorName?: string): Promise<WindowInfo> {
+    const info = this.backend.getInfo();
+    if (!info.features.windowPlacement) {
+      throw new Error(`Placing windows is not supported on ${info.server}${info.compositor ? ` (${info.compositor})` : ''}`);
+    }
+
+    const window = await this.findWindow();
+    if (!window) {
+      throw new Error('Game window not found');
+    }
+
+    let target = geometry;
+    if (monitorName) {
+      const monitor = (await this.listMonitors()).find((m) => m.name === monitorName);
+      if (!monitor) {
+        throw new Error(`Monitor not found: ${monitorName}`);
+      }
+      target = { ...geometry, x: monitor.x + (geometry.x ?? 0), y: monitor.y + (geometry.y ?? 0) };
+    }
+
+    await this.backend.setWindowGeometry(window, target);
+    await this.delay(200);
+    return (await this.findWindow()) ?? window;
+  }
+
+  /**
+   * List monitors in screen coordinates
+   */
+  async listMonitors(): Promise<MonitorInfo[]> {
+    return this.backend.listMonitors();
+  }
+
+  /**
+   * Get the monitor holding the centre of the game window
    */
-  async moveMouse(x: number, y: number): Promise<void> {
-    if (this.isWayland) {
-      await execAsync(`ydotool mousemove --absolute -x ${x} -y ${y}`);
+  async getWindowMonitor(): Promise<{ window: WindowInfo; monitor: MonitorInfo | null } | null> {
+    const window = await this.findWindow();
+    if (!window) {
+      return null;
+    }
+
+    const cx = window.x + window.width / 2;
+    const cy = window.y + window.height / 2;
+    const monitor = (await this.listMonitors()).find((m) =>
+      cx >= m.x && cx < m.x + m.width && cy >= m.y && cy < m.y + m.height) ?? null;
+    return { window, monitor };
+  }
+
+  /**
+   * Wait for vid_restart to replace the window given as `previousId`, then for the new
+   * one to cover its monitor or not. Resolves with the last state seen, which does not
+   * match when the timeout expired.
+   */
+  async waitForWindowMode(
+    fullscreen: boolean,
+    previousId: string | null,
+    timeout = 15000
+  ): Promise<{ window: WindowInfo | null; monitor: MonitorInfo | null; fullscreen: boolean }> {
+    const deadline = Date.now() + timeout;
+    let state: { window: WindowInfo | null; monitor: MonitorInfo | null; fullscreen: boolean } = { window: null, monitor: null, fullscreen: false };
+    let restarted = previousId === null;
+
+    do {
+      await this.delay(500);
+      this.window = null;
+      const found = await this.getWindowMonitor().catch(() => null);
+      if (!found || found.window.id !== previousId) {
+        restarted = true;
+      }
+      if (found) {
+        const { window, monitor } = found;
+        state = {
+          window,
+          monitor,
+          fullscreen: monitor !== null && window.x === monitor.x && window.y === monitor.y
+            && window.width === monitor.width && window.height === monitor.height,
+        };
+        if (restarted && state.fullscreen === fullscreen) {
+          return state;
+        }
+      }
+    } while (Date.now() < deadline);
+
+    return state;
+  }
+
+  /**
+   * Move mouse to absolute coordinates, jumping there or, with a motion, gliding
+   * from the current position. Without a known start position the pointer jumps.
+   */
+  async moveMouse(x: number, y: number, motion?: MotionConfig): Promise<void> {
+    const from = motion ? await this.currentPointer() : null;
+    if (from && motion) {
+      await this.followPath(interpolatePath(from, { x, y }, motion), (point) => this.backend.moveMouse(point.x, point.y));
     } else {
-      await execAsync(`xdotool mousemove ${x} ${y}`);
+      await this.backend.moveMouse(x, y);
     }
+    this.pointer = { x, y };
   }
 
   /**
    * Move mouse relative to current position
    */
   async moveMouseRelative(dx: number, dy: number): Promise<void> {
-    if (this.isWayland) {
-      await execAsync(`ydotool mousemove -x ${dx} -y ${dy}`);
-    } else {
-      await execAsync(`xdotool mousemove_relative ${dx} ${dy}`);
-    }
+    await this.backend.moveMouseRelative(dx, dy);
+    this.pointer = null;
   }
 
   /**
    * Move mouse to coordinates within the game window
    */
-  async moveMouseToWindow(x: number, y: number): Promise<void> {
-    if (!this.windowId) {
+  async moveMouseToWindow(x: number, y: number, motion?: MotionConfig): Promise<void> {
+    if (!this.window) {
       await this.findWindow();
     }
 
-    if (this.windowId) {
-      await execAsync(`xdotool mousemove --window ${this.windowId} ${x} ${y}`);
+    if (this.window && motion) {
+      await this.moveMouse(this.window.x + x, this.window.y + y, motion);
+    } else if (this.window) {
+      await this.backend.moveMouseInWindow(this.window, x, y);
+      this.pointer = { x: this.window.x + x, y: this.window.y + y };
     } else {
-      await this.moveMouse(x, y);
+      await this.moveMouse(x, y, motion);
     }
   }
 
+  /**
+   * Turn the view with relative mouse movement, each move spread over its duration
+   * and followed by its pause. Moves are in mouse counts; stops between steps when aborted.
+   */
+  async mouseLook(
+    moves: Array<{ dx: number; dy: number; durationMs?: number; pauseMs?: number }>,
+    motion: MotionConfig = {},
+    signal?: AbortSignal
+  ): Promise<{ dx: number; dy: number; aborted: boolean }> {
+    const sent = { dx: 0, dy: 0 };
+    for (const move of moves) {
+      const steps = lookSteps(move.dx, move.dy, { ...motion, durationMs: move.durationMs ?? motion.durationMs });
+      await this.followPath(steps, async (step) => {
+        await this.backend.moveMouseRelative(step.x, step.y);
+        sent.dx += step.x;
+        sent.dy += step.y;
+      }, signal);
+      if (signal?.aborted) {
+        break;
+      }
+      if (move.pauseMs) {
+        await this.delay(move.pauseMs);
+      }
+    }
+
+    this.pointer = null;
+    return { ...sent, aborted: signal?.aborted ?? false };
+  }
+
   /**
    * Get current mouse position
    */
   async getMousePosition(): Promise<MousePosition> {
+    if (!this.backend.getInfo().features.pointerPosition) {
+      throw new Error(`Reading the pointer position is not supported by the ${this.backend.server} backend here`);
+    }
+
     try {
-      const { stdout } = await execAsync('xdotool getmouselocation');
-      const xMatch = stdout.match(/x:(\d+)/);
-      const yMatch = stdout.match(/y:(\d+)/);
-
-      return {
-        x: xMatch ? parseInt(xMatch[1]) : 0,
-        y: yMatch ? parseInt(yMatch[1]) : 0,
-      };
+      return await this.backend.getMousePosition();
     } catch {
       return { x: 0, y: 0 };
     }
@@ -202,32 +320,21 @@ export class UIController extends EventEmitter {
    * Click mouse button
    */
   async clickMouse(button: 'left' | 'right' | 'middle' = 'left'): Promise<void> {
-    const buttonMap = { left: 1, middle: 2, right: 3 };
-    const buttonNum = buttonMap[button];
-
-    if (this.isWayland) {
-      const buttonCodes = { left: 0x110, middle: 0x112, right: 0x111 };
-      await execAsync(`ydotool click ${buttonCodes[button]}`);
-    } else {
-      await execAsync(`xdotool click ${buttonNum}`);
-    }
+    await this.backend.click(button);
   }
 
   /**
    * Double click
    */
   async doubleClick(button: 'left' | 'right' | 'middle' = 'left'): Promise<void> {
-    const buttonMap = { left: 1, middle: 2, right: 3 };
-    const buttonNum = buttonMap[button];
-
-    await execAsync(`xdotool click --repeat 2 --delay 50 ${buttonNum}`);
+    await this.backend.click(button, 2);
   }
 
   /**
    * Click at specific coordinates
    */
-  async clickAt(x: number, y: number, button: 'left' | 'right' | 'middle' = 'left'): Promise<void> {
-    await this.moveMouse(x, y);
+  async clickAt(x: number, y: number, button: 'left' | 'right' | 'middle' = 'left', motion?: MotionConfig): Promise<void> {
+    await this.moveMouse(x, y, motion);
     await this.delay(50);
     await this.clickMouse(button);
   }
@@ -235,8 +342,8 @@ export class UIController extends EventEmitter {
   /**
    * Click at coordinates within the game window
    */
-  async clickAtWindow(x: number, y: number, button: 'left' | 'right' | 'middle' = 'left'): Promise<void> {
-    await this.moveMouseToWindow(x, y);
+  async clickAtWindow(x: number, y: number, button: 'left' | 'right' | 'middle' = 'left', motion?: MotionConfig): Promise<void> {
+    await this.moveMouseToWindow(x, y, motion);
     await this.delay(50);
     await this.clickMouse(button);
   }
@@ -245,16 +352,26 @@ export class UIController extends EventEmitter {
    * Press and hold mouse button
    */
   async mouseDown(button: 'left' | 'right' | 'middle' = 'left'): Promise<void> {
-    const buttonMap = { left: 1, middle: 2, right: 3 };
-    await execAsync(`xdotool mousedown ${buttonMap[button]}`);
+    await this.backend.mouseDown(button);
   }
 
   /**
    * Release mouse button
    */
   async mouseUp(button: 'left' | 'right' | 'middle' = 'left'): Promise<void> {
-    const buttonMap = { left: 1, middle: 2, right: 3 };
-    await execAsync(`xdotool mouseup ${buttonMap[button]}`);
+    await this.backend.mouseUp(button);
+  }
+
+  /**
+   * Hold a mouse button for a duration; it is released even if waiting fails
+   */
+  async holdMouse(button: 'left' | 'right' | 'middle', durationMs: number): Promise<void> {
+    await this.mouseDown(button);
+    try {
+      await this.delay(durationMs);
+    } finally {
+      await this.mouseUp(button);
+    }
   }
 
   /**
@@ -265,13 +382,14 @@ export class UIController extends EventEmitter {
     startY: number,
     endX: number,
     endY: number,
-    button: 'left' | 'right' | 'middle' = 'left'
+    button: 'left' | 'right' | 'middle' = 'left',
+    motion?: MotionConfig
   ): Promise<void> {
     await this.moveMouse(startX, startY);
     await this.delay(50);
     await this.mouseDown(button);
     await this.delay(50);
-    await this.moveMouse(endX, endY);
+    await this.moveMouse(endX, endY, motion);
     await this.delay(50);
     await this.mouseUp(button);
   }
@@ -280,35 +398,21 @@ export class UIController extends EventEmitter {
    * Scroll mouse wheel
    */
   async scroll(direction: 'up' | 'down', clicks = 3): Promise<void> {
-    const button = direction === 'up' ? 4 : 5;
-    await execAsync(`xdotool click --repeat ${clicks} ${button}`);
+    await this.backend.scroll(direction, clicks);
   }
 
   /**
    * Type text using keyboard
    */
   async typeText(text: string, delay = 12): Promise<void> {
-    if (this.isWayland) {
-      await execAsync(`ydotool type --delay ${delay} "${text.replace(/"/g, '\\"')}"`);
-    } else {
-      // Escape special characters for xdotool
-      const escapedText = text.replace(/'/g, "'\\''");
-      await execAsync(`xdotool type --delay ${delay} '${escapedText}'`);
-    }
+    await this.backend.typeText(text, delay);
   }
 
   /**
    * Press a single key
    */
   async pressKey(key: string): Promise<void> {
-    const xdotoolKey = this.mapKey(key);
-
-    if (this.isWayland) {
-      const keycode = this.getKeycode(key);
-      await execAsync(`ydotool key ${keycode}`);
-    } else {
-      await execAsync(`xdotool key ${xdotoolKey}`);
-    }
+    await this.backend.pressKey(this.mapKey(key));
   }
 
   /**
@@ -318,29 +422,39 @@ export class UIController extends EventEmitter {
     key: string,
     modifiers: ('ctrl' | 'alt' | 'shift' | 'super')[]
   ): Promise<void> {
-    const modifierMap: Record<string, string> = {
-      ctrl: 'ctrl',
-      alt: 'alt',
-      shift: 'shift',
-      super: 'super',
-    };
-
-    const keyCombo = [...modifiers.map((m) => modifierMap[m]), this.mapKey(key)].join('+');
-    await execAsync(`xdotool key ${keyCombo}`);
+    await this.backend.pressCombo([...modifiers, this.mapKey(key)]);
   }
 
   /**
    * Hold key down
    */
   async keyDown(key: string): Promise<void> {
-    await execAsync(`xdotool keydown ${this.mapKey(key)}`);
+    await this.backend.keyDown(this.mapKey(key));
   }
 
   /**
    * Release key
    */
   async keyUp(key: string): Promise<void> {
-    await execAsync(`xdotool keyup ${this.mapKey(key)}`);
+    await this.backend.keyUp(this.mapKey(key));
+  }
+
+  /**
+   * Hold a key, with any modifiers, for a duration; everything held is released
+   * even if waiting fails
+   */
+  async holdKey(key: string, durationMs: number, modifiers: string[] = []): Promise<void> {
+    const keys = [...modifiers, key];
+    for (const k of keys) {
+      await this.keyDown(k);
+    }
+    try {
+      await this.delay(durationMs);
+    } finally {
+      for (const k of keys.reverse()) {
+        await this.keyUp(k);
+      }
+    }
   }
 
   /**
@@ -357,7 +471,7 @@ export class UIController extends EventEmitter {
    * Send key combination (e.g., "ctrl+c")
    */
   async sendKeyCombo(combo: string): Promise<void> {
-    await execAsync(`xdotool key ${combo}`);
+    await this.backend.pressCombo(combo.split('+'));
   }
 
   /**
@@ -366,7 +480,28 @@ export class UIController extends EventEmitter {
   async toggleConsole(): Promise<void> {
     await this.focusWindow();
     await this.delay(100);
-    await this.pressKey('grave'); // backtick
+    await this.pressConsoleKey();
+  }
+
+  /**
+   * Set the key the game has bound to toggleconsole, as named in its config
+   */
+  setConsoleKey(key: string): void {
+    this.consoleKey = key;
+  }
+
+  /**
+   * Get the console key
+   */
+  getConsoleKey(): string {
+    return this.consoleKey;
+  }
+
+  /**
+   * Get the keyboard layout keys and text are mapped through
+   */
+  getKeyboardLayout(): Promise<KeyboardLayout> {
+    return this.backend.getKeyboardLayout();
   }
 
   /**
@@ -377,7 +512,7 @@ export class UIController extends EventEmitter {
     await this.delay(100);
 
     // Toggle console open
-    await this.pressKey('grave');
+    await this.pressConsoleKey();
     await this.delay(200);
 
     // Type command
@@ -389,11 +524,241 @@ export class UIController extends EventEmitter {
     await this.delay(100);
 
     // Close console
-    await this.pressKey('grave');
+    await this.pressConsoleKey();
+  }
+
+  /**
+   * Press the console key. The default ` and ~ binds are the key left of 1, which
+   * prints other characters (^, ²) on many layouts, so it is pressed by position.
+   */
+  private async pressConsoleKey(): Promise<void> {
+    if (this.consoleKey === '`' || this.consoleKey === '~') {
+      await this.backend.pressKeycode({ keycode: CONSOLE_KEYCODE, shift: false, altgr: false });
+    } else {
+      await this.backend.pressKey(gameKeyToKeysym(this.consoleKey));
+    }
+  }
+
+  /**
+   * Start recording mouse and keyboard input aimed at the game window.
+   * Pointer events are kept while the pointer is over the window and keys while
+   * the window has focus; coordinates are window-relative. Needs xinput and xmodmap (X11).
+   */
+  async startRecording(options: { moveIntervalMs?: number } = {}): Promise<void> {
+    if (this.recording) {
+      throw new Error('Already recording');
+    }
+    if (!this.backend.getInfo().features.inputRecording) {
+      throw new Error('Input recording needs X11; Wayland does not let other clients see input');
+    }
+
+    const window = await this.findWindow();
+    if (!window) {
+      throw new Error('Game window not found');
+    }
+    const { stdout: keymap } = await this.exec('xmodmap -pke');
+
+    const child = spawn('xinput', ['test-xi2', '--root'], {
+      env: this.display ? { ...process.env, DISPLAY: this.display, WAYLAND_DISPLAY: undefined } : process.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+    });
+
+    const recording: Recording = {
+      process: child,
+      parser: new XinputEventParser(),
+      keymap: parseKeymap(keymap),
+      window,
+      startedAt: new Date(),
+      firstTime: null,
+      events: [],
+      heldButtons: new Set(),
+      focused: window.focused,
+      focusTimer: setInterval(() => {
+        this.backend.getActiveWindowId()
+          .then((id) => { recording.focused = id === window.id; })
+          .catch(() => {});
+      }, 250),
+      moveIntervalMs: options.moveIntervalMs ?? 20,
+      lastMoveAt: -Infinity,
+      error: null,
+    };
+
+    child.stdout?.on('data', (data: Buffer) => {
+      for (const event of recording.parser.push(data.toString())) {
+        this.recordEvent(recording, event);
+      }
+    });
+    child.on('error', (err) => {
+      recording.error = err.message;
+    });
+    child.on('exit', (code) => {
+      if (this.recording === recording && code !== null && code !== 0) {
+        recording.error = `xinput exited with code ${code}`;
+      }
+    });
+
+    this.recording = recording;
+    this.emit('recordingStarted', { window });
+  }
+
+  /**
+   * Stop recording and return the input as a macro
+   */
+  stopRecording(name: string): InputMacro {
+    const recording = this.recording;
+    if (!recording) {
+      throw new Error('Not recording');
+    }
+
+    this.recording = null;
+    clearInterval(recording.focusTimer);
+    recording.process.kill();
+    for (const event of recording.parser.end()) {
+      this.recordEvent(recording, event);
+    }
+
+    if (recording.error && recording.events.length === 0) {
+      throw new Error(`Recording failed: ${recording.error}`);
+    }
+
+    const events = compactEvents(recording.events);
+    const macro: InputMacro = {
+      name,
+      createdAt: recording.startedAt.toISOString(),
+      window: { width: recording.window.width, height: recording.window.height },
+      durationMs: events.length ? events[events.length - 1].t : 0,
+      events,
+    };
+    this.emit('recordingStopped', { name, events: events.length });
+    return macro;
+  }
+
+  /**
+   * Check if input is being recorded
+   */
+  isRecording(): boolean {
+    return this.recording !== null;
   }
 
   /**
-   * Map common key names to xdotool key names
+   * Replay a macro against the game window at `speed` times the recorded pace.
+   * Coordinates are scaled when the window size differs from the recording, and
+   * keys and buttons still held when the replay is aborted are released.
+   */
+  async replayMacro(
+    macro: InputMacro,
+    options: { speed?: number; signal?: AbortSignal; onEvent?: (index: number) => void } = {}
+  ): Promise<{ events: number; durationMs: number; aborted: boolean }> {
+    const speed = options.speed ?? 1;
+    const window = await this.findWindow();
+    const scaleX = window && macro.window?.width ? window.width / macro.window.width : 1;
+    const scaleY = window && macro.window?.height ? window.height / macro.window.height : 1;
+    const scale = (x: number, y: number): [number, number] => [Math.round(x * scaleX), Math.round(y * scaleY)];
+
+    const heldKeys = new Set<string>();
+    const heldButtons = new Set<'left' | 'right' | 'middle'>();
+    const start = Date.now();
+    let played = 0;
+
+    try {
+      for (const event of macro.events) {
+        await this.delay(Math.max(0, start + event.t / speed - Date.now()));
+        if (options.signal?.aborted) {
+          break;
+        }
+
+        switch (event.type) {
+          case 'move':
+            await this.moveMouseToWindow(...scale(event.x, event.y));
+            break;
+          case 'click':
+            await this.clickAtWindow(...scale(event.x, event.y), event.button);
+            break;
+          case 'mouse_down':
+            await this.moveMouseToWindow(...scale(event.x, event.y));
+            await this.mouseDown(event.button);
+            heldButtons.add(event.button);
+            break;
+          case 'mouse_up':
+            await this.moveMouseToWindow(...scale(event.x, event.y));
+            await this.mouseUp(event.button);
+            heldButtons.delete(event.button);
+            break;
+          case 'scroll':
+            await this.scroll(event.direction, event.clicks);
+            break;
+          case 'key':
+            await this.pressKey(event.key);
+            break;
+          case 'key_down':
+            await this.keyDown(event.key);
+            heldKeys.add(event.key);
+            break;
+          case 'key_up':
+            await this.keyUp(event.key);
+            heldKeys.delete(event.key);
+            break;
+        }
+        options.onEvent?.(played++);
+      }
+    } finally {
+      for (const key of heldKeys) {
+        await this.keyUp(key).catch(() => {});
+      }
+      for (const button of heldButtons) {
+        await this.mouseUp(button).catch(() => {});
+      }
+    }
+
+    return { events: played, durationMs: Date.now() - start, aborted: options.signal?.aborted ?? false };
+  }
+
+  /**
+   * Add a device event to a recording if it was aimed at the game window
+   */
+  private recordEvent(recording: Recording, raw: RawInputEvent): void {
+    recording.firstTime ??= raw.time;
+    const t = raw.time - recording.firstTime;
+    const { window } = recording;
+    const inside = raw.x >= window.x && raw.x < window.x + window.width
+      && raw.y >= window.y && raw.y < window.y + window.height;
+
+    switch (raw.type) {
+      case 'motion':
+        // Moves are thinned out, but a drag is always followed
+        if ((!inside && recording.heldButtons.size === 0) || t - recording.lastMoveAt < recording.moveIntervalMs) {
+          return;
+        }
+        recording.lastMoveAt = t;
+        break;
+      case 'button_down':
+        if (!inside) {
+          return;
+        }
+        recording.heldButtons.add(raw.detail);
+        break;
+      case 'button_up':
+        // A release belongs to the recording if its press did
+        if (!recording.heldButtons.delete(raw.detail) && !inside) {
+          return;
+        }
+        break;
+      case 'key_down':
+      case 'key_up':
+        if (!recording.focused) {
+          return;
+        }
+        break;
+    }
+
+    const event = toMacroEvent(raw, t, window, recording.keymap);
+    if (event) {
+      recording.events.push(event);
+    }
+  }
+
+  /**
+   * Map common key names to X keysym names, as xdotool and wtype expect
    */
   private mapKey(key: string): string {
     const keyMap: Record<string, string> = {
@@ -451,20 +816,35 @@ export class UIController extends EventEmitter {
   }
 
   /**
-   * Get keycode for ydotool (Wayland)
+   * Where the pointer is: read from the backend where it can, otherwise the last
+   * absolute position sent
    */
-  private getKeycode(key: string): string {
-    // Basic keycode mapping for ydotool
-    const keycodeMap: Record<string, string> = {
-      enter: '28:1 28:0',
-      escape: '1:1 1:0',
-      space: '57:1 57:0',
-      tab: '15:1 15:0',
-      backspace: '14:1 14:0',
-      grave: '41:1 41:0',
-    };
+  private async currentPointer(): Promise<MousePosition | null> {
+    if (this.backend.getInfo().features.pointerPosition) {
+      try {
+        return await this.backend.getMousePosition();
+      } catch {
+        // Fall back to the tracked position
+      }
+    }
+    return this.pointer;
+  }
 
-    return keycodeMap[key.toLowerCase()] || `${key}:1 ${key}:0`;
+  /**
+   * Send each point at its time offset from now, stopping early when aborted
+   */
+  private async followPath(points: PathPoint[], send: (point: PathPoint) => Promise<void>, signal?: AbortSignal): Promise<void> {
+    const start = Date.now();
+    for (const point of points) {
+      if (signal?.aborted) {
+        return;
+      }
+      const wait = start + point.t - Date.now();
+      if (wait > 0) {
+        await this.delay(wait);
+      }
+      await send(point);
+    }
   }
 
   /**
@@ -479,24 +859,56 @@ export class UIController extends EventEmitter {
    */
   setWindowTitle(title: string): void {
     this.windowTitle = title;
-    this.windowId = null;
+    this.window = null;
+  }
+
+  /**
+   * Bind to the window owned by a process, falling back to the title search
+   */
+  setWindowPid(pid: number | null): void {
+    this.windowPid = pid;
+    this.window = null;
+  }
+
+  /**
+   * Send input to a specific X display (e.g. a headless Xvfb) instead of the inherited one
+   */
+  setDisplay(display: string | null): void {
+    this.display = display;
+    this.displayServer = display ? 'x11' : detectDisplayServer();
+    this.backend = createDisplayBackend((command) => this.exec(command), display);
+    this.window = null;
+  }
+
+  /**
+   * Run a shell command against the bound display
+   */
+  private exec(command: string): Promise<{ stdout: string; stderr: string }> {
+    return this.display
+      ? execAsync(command, { env: { ...process.env, DISPLAY: this.display, WAYLAND_DISPLAY: undefined } })
+      : execAsync(command);
   }
 
   /**
    * Get display server type
    */
-  getDisplayServer(): 'x11' | 'wayland' | 'unknown' {
+  getDisplayServer(): DisplayServer {
     return this.displayServer;
   }
 
+  /**
+   * Get the display backend in use and what it supports
+   */
+  getBackendInfo(): DisplayBackendInfo {
+    return this.backend.getInfo();
+  }
+
   /**
    * Get screen resolution
    */
   async getScreenResolution(): Promise<{ width: number; height: number }> {
     try {
-      const { stdout } = await execAsync("xdpyinfo | grep dimensions | awk '{print $2}'");
-      const [width, height] = stdout.trim().split('x').map(Number);
-      return { width, height };
+      return await this.backend.getScreenResolution();
     } catch {
       return { width: 1920, height: 1080 };
     }
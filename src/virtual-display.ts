@@ -0,0 +1,153 @@
+/**
+ * OpenMOHAA MCP Server - Virtual Display Module
+ * Runs a private Xvfb server so the game can be driven without a desktop
+ */
+
+import { spawn, execSync, ChildProcess } from 'child_process';
+import { EventEmitter } from 'events';
+import type { Readable } from 'stream';
+import type { LogLevel } from './types.js';
+
+export class VirtualDisplay extends EventEmitter {
+  private process: ChildProcess | null = null;
+  private display: string | null = null;
+
+  /**
+   * Check if Xvfb is installed
+   */
+  static isAvailable(): boolean {
+    try {
+      execSync('which Xvfb', { stdio: 'pipe' });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Start Xvfb at the given resolution and return its DISPLAY value.
+   * Xvfb picks a free display number itself and reports it on -displayfd.
+   */
+  async start(width: number, height: number, depth = 24, timeout = 10000): Promise<string> {
+    if (this.display) {
+      return this.display;
+    }
+
+    const args = ['-displayfd', '3', '-screen', '0', `${width}x${height}x${depth}`, '-nolisten', 'tcp'];
+    this.log('info', `Starting Xvfb at ${width}x${height}x${depth}`);
+
+    const child = spawn('Xvfb', args, { stdio: ['ignore', 'ignore', 'pipe', 'pipe'] });
+    this.process = child;
+
+    const display = await new Promise<string>((resolve, reject) => {
+      let output = '';
+      let stderr = '';
+      let settled = false;
+
+      const settle = (error: Error | null, value = '') => {
+        if (settled) {
+          return;
+        }
+        settled = true;
+        clearTimeout(timer);
+        if (error) {
+          child.kill('SIGKILL');
+          reject(error);
+        } else {
+          resolve(value);
+        }
+      };
+
+      const timer = setTimeout(() => {
+        settle(new Error(`Xvfb did not report a display within ${timeout}ms`));
+      }, timeout);
+
+      child.stderr?.on('data', (data: Buffer) => {
+        stderr += data.toString();
+      });
+
+      (child.stdio[3] as Readable | null)?.on('data', (data: Buffer) => {
+        output += data.toString();
+        if (output.includes('\n')) {
+          settle(null, `:${output.trim()}`);
+        }
+      });
+
+      child.once('error', (err) => settle(new Error(`Failed to start Xvfb: ${err.message}`)));
+      child.once('exit', (code) => {
+        settle(new Error(`Xvfb exited with code ${code}${stderr ? `: ${stderr.trim()}` : ''}`));
+      });
+    }).catch((error) => {
+      this.process = null;
+      throw error;
+    });
+
+    this.display = display;
+    child.once('exit', () => {
+      if (this.process === child) {
+        this.log('warn', `Xvfb on ${display} exited`);
+        this.process = null;
+        this.display = null;
+      }
+    });
+
+    this.log('info', `Xvfb running on ${display}`);
+    return display;
+  }
+
+  /**
+   * Stop the Xvfb server
+   */
+  async stop(): Promise<void> {
+    const child = this.process;
+    if (!child) {
+      return;
+    }
+
+    this.process = null;
+    const display = this.display;
+    this.display = null;
+
+    if (child.exitCode !== null || child.signalCode !== null) {
+      return;
+    }
+
+    await new Promise<void>((resolve) => {
+      const timer = setTimeout(() => {
+        child.kill('SIGKILL');
+        resolve();
+      }, 3000);
+
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.kill('SIGTERM');
+    });
+
+    this.log('info', `Stopped Xvfb on ${display}`);
+  }
+
+  /**
+   * Get the DISPLAY value of the running server
+   */
+  getDisplay(): string | null {
+    return this.display;
+  }
+
+  /**
+   * Check if the server is running
+   */
+  isRunning(): boolean {
+    return this.process !== null;
+  }
+
+  /**
+   * Internal logging
+   */
+  private log(level: LogLevel, message: string): void {
+    this.emit('log', { level, message, timestamp: new Date() });
+  }
+}
+
+export default VirtualDisplay;
@@ -2,7 +2,7 @@
  * OpenMOHAA MCP Server - Unit Tests
  */
 
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { ProcessLauncher } from '../src/launcher.js';
 import { ConsoleManager } from '../src/console-manager.js';
 import { UIController } from '../src/ui-controller.js';
@@ -14,6 +14,39 @@ import { ConfigManager } from '../src/config-manager.js';
 import { ServerManager } from '../src/server-manager.js';
 import { PerformanceMonitor } from '../src/performance-monitor.js';
 import { LogAnalyzer } from '../src/log-analyzer.js';
+import { HttpTransport } from '../src/http-transport.js';
+import { ScriptValidator } from '../src/script-validator.js';
+import { ResourceManager, ResourceSubscriptions, RESOURCE_URIS } from '../src/resource-manager.js';
+import { PromptLibrary } from '../src/prompts.js';
+import { JobManager } from '../src/job-manager.js';
+import { SessionManager, DEFAULT_SESSION, type GameSession } from '../src/session-manager.js';
+import { VirtualDisplay } from '../src/virtual-display.js';
+import { CrashReporter, type CrashBundle } from '../src/crash-reporter.js';
+import { ConsoleInventory, parseCvarList, parseCmdList } from '../src/console-inventory.js';
+import { CvarSnapshotManager } from '../src/cvar-snapshots.js';
+import { CvarWatcher, compareCvar } from '../src/cvar-watcher.js';
+import { parseColorCodes, renderAnsi, renderHtml, stripColorCodes } from '../src/color-codes.js';
+import { ConsoleTranscript } from '../src/console-transcript.js';
+import { ConsoleCompleter, parseCommandsList } from '../src/console-completion.js';
+import { expandCommands, splitCommandLines, tokenizeCommand } from '../src/command-parser.js';
+import { LaunchProfileManager } from '../src/launch-profiles.js';
+import { DEFAULT_STARTUP_GRACE_MS, readinessSchema, waitUntilReady } from '../src/readiness.js';
+import { Supervisor } from '../src/supervisor.js';
+import { buildCommand, buildEnvironment } from '../src/sandbox.js';
+import { X11Backend, WaylandBackend, createDisplayBackend, detectDisplayServer } from '../src/display-backend.js';
+import { KeyboardLayout, gameKeyToKeysym } from '../src/keyboard-layout.js';
+import { interpolatePath, lookSteps, readLookScale } from '../src/mouse-paths.js';
+import { MacroLibrary, XinputEventParser, compactEvents, macroToAutomationScript, parseKeymap, toMacroEvent } from '../src/input-macros.js';
+import { runAsJob } from '../src/tools/job-tools.js';
+import { registerBuiltinTools, type ToolComponents } from '../src/tools/index.js';
+import { ToolRegistry, defineTool, textResult, type ToolExtra } from '../src/tool-registry.js';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { z } from 'zod';
+import { execFile, spawn, type ChildProcess } from 'child_process';
+import { appendFileSync, createReadStream, existsSync, readFileSync, readdirSync, renameSync, rmSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { EventEmitter } from 'events';
+import { Readable } from 'stream';
+import type { PathLike } from 'fs';
 
 // Mock child_process
 vi.mock('child_process', () => ({
@@ -29,21 +62,29 @@ vi.mock('child_process', () => ({
     if (callback) callback(null, { stdout: '', stderr: '' });
     return { stdout: '', stderr: '' };
   }),
+  execFile: vi.fn((...args: unknown[]) => {
+    const callback = args.find((arg): arg is (error: null, result: { stdout: string; stderr: string }) => void => typeof arg === 'function');
+    callback?.(null, { stdout: '', stderr: '' });
+  }),
   execSync: vi.fn(() => ''),
 }));
 
 // Mock fs
 vi.mock('fs', () => ({
   existsSync: vi.fn(() => true),
+  appendFileSync: vi.fn(),
   accessSync: vi.fn(),
   readFileSync: vi.fn(() => ''),
+  createReadStream: vi.fn(),
   writeFileSync: vi.fn(),
   unlinkSync: vi.fn(),
   mkdirSync: vi.fn(),
+  mkdtempSync: vi.fn((prefix: string) => `${prefix}abc123`),
   readdirSync: vi.fn(() => []),
   statSync: vi.fn(() => ({ size: 0, mtime: new Date() })),
   copyFileSync: vi.fn(),
   renameSync: vi.fn(),
+  rmSync: vi.fn(),
   watchFile: vi.fn(),
   unwatchFile: vi.fn(),
   openSync: vi.fn(() => 1),
@@ -52,6 +93,73 @@ vi.mock('fs', () => ({
   constants: { X_OK: 1 },
 }));
 
+/**
+ * The mocked readdirSync, typed as the overload that lists names, which is the one the code under test calls
+ */
+const readdirNames = vi.mocked<(path: PathLike) => string[]>(readdirSync);
+
+/**
+ * The mocked createReadStream, typed as a plain Readable so tests can stream in-memory files
+ */
+const readStreams = vi.mocked<(path: PathLike) => Readable>(createReadStream);
+
+/**
+ * A spawned process double with only the members the code under test touches
+ */
+function fakeChild(members: Partial<Record<keyof ChildProcess, unknown>>): ChildProcess {
+  return Object.assign(new EventEmitter(), members) as ChildProcess;
+}
+
+/**
+ * A request context for calling tools directly, with spies for what a tool may send back
+ */
+function toolExtra(overrides: Partial<ToolExtra> = {}): ToolExtra {
+  return {
+    signal: new AbortController().signal,
+    requestId: 1,
+    sendNotification: vi.fn(async () => {}),
+    sendRequest: vi.fn(),
+    ...overrides,
+  };
+}
+
+/**
+ * Everything the built-in tools need, with the default session's components taken from the given sessions
+ */
+function toolComponents(overrides: Partial<ToolComponents> = {}): ToolComponents {
+  const sessions = overrides.sessions ?? new SessionManager();
+  const { launcher, consoleManager, uiController, screenCapture, demoManager, performanceMonitor } = sessions.get();
+  const buildSystem = new BuildSystem();
+  const scriptValidator = new ScriptValidator();
+  const consoleInventory = new ConsoleInventory('/tmp/inventory');
+
+  return {
+    launcher,
+    consoleManager,
+    uiController,
+    screenCapture,
+    buildSystem,
+    demoManager,
+    configManager: new ConfigManager('/tmp/game'),
+    serverManager: new ServerManager(),
+    performanceMonitor,
+    logAnalyzer: new LogAnalyzer('/tmp/logs'),
+    scriptValidator,
+    jobManager: new JobManager(),
+    sessions,
+    crashReporter: new CrashReporter(buildSystem, '/tmp/crashes'),
+    consoleInventory,
+    cvarSnapshots: new CvarSnapshotManager(),
+    cvarWatcher: new CvarWatcher(),
+    transcripts: new ConsoleTranscript('/tmp/transcripts'),
+    consoleCompleter: new ConsoleCompleter(consoleInventory, scriptValidator),
+    launchProfiles: new LaunchProfileManager('/tmp/profiles'),
+    macros: new MacroLibrary('/tmp/macros'),
+    defaults: { execPath: '', gameDir: '', mfuseExecPath: '', commandsListPath: '', headless: true },
+    ...overrides,
+  };
+}
+
 describe('ProcessLauncher', () => {
   let launcher: ProcessLauncher;
 
@@ -85,6 +193,103 @@ describe('ProcessLauncher', () => {
     launcher.clearConsoleBuffer();
     expect(launcher.getConsoleBuffer()).toEqual([]);
   });
+
+  it('should split console lines into plain text and color segments', async () => {
+    const stdout = new EventEmitter();
+    vi.mocked(spawn).mockReturnValueOnce(fakeChild({
+      pid: 12345,
+      stdout,
+      stderr: new EventEmitter(),
+      stdin: { write: vi.fn() },
+      on: vi.fn(),
+      kill: vi.fn(),
+    }));
+
+    const launching = launcher.launch({ executablePath: '/opt/openmohaa/openmohaa' });
+    stdout.emit('data', Buffer.from('^1Allies^7 win\n^3Initializing^7 renderer\n'));
+    await launching;
+
+    expect(launcher.getConsoleBuffer()[0]).toMatchObject({
+      text: 'Allies win',
+      raw: '^1Allies^7 win',
+      segments: [{ text: 'Allies', color: 1 }, { text: ' win', color: 7 }],
+    });
+    expect(launcher.searchConsole('Allies win')).toHaveLength(1);
+  });
+
+  it('should remove a temporary HOME when the game exits but keep a given one', async () => {
+    const launchWithHome = async (privateHome: true | string) => {
+      const stdout = new EventEmitter();
+      const child = fakeChild({ pid: 12345, stdout, stderr: new EventEmitter(), stdin: { write: vi.fn() }, kill: vi.fn() });
+      vi.mocked(spawn).mockReturnValueOnce(child);
+      const launching = launcher.launch({ executablePath: '/opt/openmohaa/openmohaa', sandbox: { privateHome } });
+      stdout.emit('data', Buffer.from('Initializing renderer\n'));
+      const { home } = await launching;
+      child.emit('exit', 0, null);
+      return home;
+    };
+
+    const temporary = await launchWithHome(true);
+    expect(vi.mocked(rmSync)).toHaveBeenCalledWith(temporary, { recursive: true, force: true });
+
+    vi.mocked(rmSync).mockClear();
+    await launchWithHome('/tmp/tester-home');
+    expect(vi.mocked(rmSync)).not.toHaveBeenCalled();
+  });
+
+  it('should fail the launch with the probes that never passed and stop the game', async () => {
+    const child = fakeChild({ pid: 12345, stdout: new EventEmitter(), stderr: new EventEmitter(), stdin: { write: vi.fn() } });
+    const kill = vi.fn(() => child.emit('exit', null, 'SIGTERM'));
+    Object.assign(child, { kill });
+    vi.mocked(spawn).mockReturnValueOnce(child);
+
+    await expect(launcher.launch({
+      executablePath: '/opt/openmohaa/openmohaa',
+      readiness: { probes: [{ type: 'console', pattern: 'never printed' }], timeout: 50, interval: 10 },
+      sandbox: { privateHome: true },
+    })).rejects.toThrow('Startup not ready after 50ms (waiting on console /never printed/: no matching console line)');
+
+    expect(kill).toHaveBeenCalledWith('SIGTERM');
+    expect(launcher.isRunning()).toBe(false);
+    expect(vi.mocked(rmSync)).toHaveBeenCalledWith(expect.stringContaining('abc123'), { recursive: true, force: true });
+    expect(launcher.getState().readiness).toMatchObject({ ready: false, probes: [{ passed: false }] });
+  });
+
+  it('should not schedule a restart after a failed startup', async () => {
+    const child = fakeChild({ pid: 12345, stdout: new EventEmitter(), stderr: new EventEmitter(), stdin: { write: vi.fn() } });
+    Object.assign(child, { kill: vi.fn(() => child.emit('exit', null, 'SIGTERM')) });
+    vi.mocked(spawn).mockReturnValueOnce(child);
+    launcher.setRestartPolicy({ enabled: true, maxAttempts: 3 });
+
+    await expect(launcher.launch({
+      executablePath: '/opt/openmohaa/openmohaa',
+      readiness: { probes: [{ type: 'console', pattern: 'never printed' }], timeout: 50, interval: 10 },
+    })).rejects.toThrow('Startup not ready');
+
+    expect(launcher.getSupervisor().getStatus()).toMatchObject({ state: 'idle', nextRestartAt: null });
+    expect(launcher.getSupervisor().getHistory()).toMatchObject([{ type: 'exit', message: 'Stopped on request' }]);
+  });
+});
+
+describe('Color codes', () => {
+  it('should parse segments and strip codes', () => {
+    expect(parseColorCodes('plain ^2green^2 still ^^ ^xlast')).toEqual([
+      { text: 'plain ', color: null },
+      { text: 'green still ^^ ', color: 2 },
+      { text: 'last', color: 0 },
+    ]);
+    expect(stripColorCodes('^3Player^7 joined')).toBe('Player joined');
+  });
+
+  it('should render ANSI and escaped HTML', () => {
+    const segments = parseColorCodes('^1<red>^7 & white');
+
+    expect(renderAnsi(segments)).toBe('\x1b[31m<red>\x1b[37m & white\x1b[0m');
+    expect(renderHtml(segments)).toBe(
+      '<span style="color:#ff0000">&lt;red&gt;</span><span style="color:#ffffff"> &amp; white</span>'
+    );
+    expect(renderAnsi(parseColorCodes('no colors'))).toBe('no colors');
+  });
 });
 
 describe('ConsoleManager', () => {
@@ -116,6 +321,127 @@ describe('ConsoleManager', () => {
     const output = consoleManager.getRecentOutput(50);
     expect(Array.isArray(output)).toBe(true);
   });
+
+  describe('with a running game', () => {
+    let sent: string[];
+    let replies: Record<string, string[]>;
+
+    const print = (text: string) => launcher.emit('output', { timestamp: new Date(), text, type: 'stdout' });
+
+    beforeEach(() => {
+      sent = [];
+      replies = {};
+      vi.spyOn(launcher, 'isRunning').mockReturnValue(true);
+      vi.spyOn(launcher, 'sendInput').mockImplementation((line) => {
+        sent.push(line);
+        // Reply asynchronously like the real game, echoing sentinels
+        setTimeout(() => {
+          if (line.startsWith('echo ')) {
+            print(line.slice(5));
+          } else {
+            (replies[line] || []).forEach(print);
+          }
+        }, 0);
+        return true;
+      });
+    });
+
+    it('should return only the output between the sentinels', async () => {
+      replies['version'] = ['OpenMOHAA 0.80.0'];
+      print('unrelated spam');
+
+      const result = await consoleManager.sendCommand('version');
+
+      expect(result).toEqual({ success: true, status: 'ok', output: 'OpenMOHAA 0.80.0' });
+      expect(sent[1]).toBe('version');
+      expect(sent[0]).toMatch(/^echo __MCP_CMD_.*_BEGIN__$/);
+    });
+
+    it('should hand a command that never reached stdin to key simulation at once', async () => {
+      vi.mocked(launcher.sendInput).mockReturnValue(false);
+
+      const unhandled = await consoleManager.sendCommand('version', true, 10000);
+      expect(unhandled).toMatchObject({ success: false, status: 'error', error: 'Failed to write to game stdin and no key simulation is available' });
+
+      const simulated = vi.fn();
+      consoleManager.on('needKeySimulation', simulated);
+      const result = await consoleManager.sendCommand('version', true, 10000);
+
+      expect(simulated).toHaveBeenCalledWith({ command: 'version' });
+      expect(result).toMatchObject({ success: true, status: 'sent', output: '' });
+      expect(result.warning).toContain('typed into the console by key simulation');
+    });
+
+    it('should not type a command again when only the end sentinel fails', async () => {
+      vi.mocked(launcher.sendInput).mockImplementation((line) => !line.includes('_END__'));
+      const simulated = vi.fn();
+      consoleManager.on('needKeySimulation', simulated);
+
+      const result = await consoleManager.sendCommand('version', true, 10000);
+
+      expect(simulated).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ success: true, status: 'sent' });
+      expect(result.warning).toContain('end sentinel could not be written');
+    });
+
+    it('should report unknown commands', async () => {
+      replies['bogus'] = ['Unknown command "bogus"'];
+
+      const result = await consoleManager.sendCommand('bogus');
+
+      expect(result.success).toBe(false);
+      expect(result.status).toBe('unknown_command');
+      expect(result.error).toBe('Unknown command: bogus');
+    });
+
+    it('should time out when no reply arrives', async () => {
+      vi.mocked(launcher.sendInput).mockReturnValue(true);
+
+      const result = await consoleManager.sendCommand('map', true, 50);
+
+      expect(result.status).toBe('timeout');
+      expect(result.success).toBe(false);
+    });
+
+    it('should run queued commands one at a time', async () => {
+      replies['first'] = ['one'];
+      replies['second'] = ['two'];
+
+      const first = consoleManager.sendCommand('first');
+      const second = consoleManager.sendCommand('second');
+      expect(sent).toHaveLength(3);
+
+      expect((await first).output).toBe('one');
+      expect((await second).output).toBe('two');
+      expect(sent.filter((line) => !line.startsWith('echo'))).toEqual(['first', 'second']);
+    });
+
+    it('should parse printed cvar values and emit changes once', () => {
+      const changes: unknown[] = [];
+      consoleManager.on('cvarChange', (change) => changes.push(change));
+
+      print('"sv_cheats" is:"1" default:"0"');
+      print('"sv_cheats" is:"1" default:"0"');
+
+      expect(consoleManager.getCachedCvar('sv_cheats')?.value).toBe('1');
+      expect(changes).toEqual([{ name: 'sv_cheats', value: '1', previous: null }]);
+    });
+
+    it('should expand vstr from live cvar values and report cached fallbacks', async () => {
+      print('"rotation" is:"map dm/mohdm1"');
+      print('"fallback" is:"echo cached"');
+      replies['rotation'] = ['"rotation" is:"map dm/mohdm2; vstr extra"'];
+      replies['extra'] = ['"extra" is:"g_gametype 2"'];
+      vi.mocked(readFileSync).mockReturnValueOnce('vstr rotation\nvstr fallback');
+
+      const expansion = await consoleManager.expandConfigFile('/tmp/rotation.cfg');
+
+      expect(expansion.commands.map((command) => command.text)).toEqual(['map dm/mohdm2', 'g_gametype 2', 'echo cached']);
+      expect(expansion.errors).toEqual([
+        { line: 2, message: 'vstr of "fallback" used the cached value; the game did not report a live one' },
+      ]);
+    });
+  });
 });
 
 describe('UIController', () => {
@@ -488,3 +814,1690 @@ describe('LogAnalyzer', () => {
     expect(true).toBe(true);
   });
 });
+
+describe('HttpTransport', () => {
+  let transport: HttpTransport;
+  let baseUrl: string;
+
+  const initializeBody = {
+    jsonrpc: '2.0',
+    id: 1,
+    method: 'initialize',
+    params: {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'test-client', version: '1.0.0' },
+    },
+  };
+
+  const createServer = () => new Server(
+    { name: 'test', version: '1.0.0' },
+    { capabilities: { tools: {} } }
+  );
+
+  beforeEach(async () => {
+    transport = new HttpTransport({ host: '127.0.0.1', port: 0, token: 'secret' }, createServer);
+    const address = await transport.start();
+    baseUrl = `http://127.0.0.1:${address.port}/mcp`;
+  });
+
+  afterEach(async () => {
+    await transport.stop();
+  });
+
+  it('should reject requests without the bearer token', async () => {
+    const response = await fetch(baseUrl, { method: 'POST', body: '{}' });
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject non-initialize requests without a session', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: { Authorization: 'Bearer secret', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+    expect(response.status).toBe(400);
+  });
+
+  it('should open a session on initialize', async () => {
+    const response = await fetch(baseUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: 'Bearer secret',
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+      },
+      body: JSON.stringify(initializeBody),
+    });
+    expect(response.status).toBe(200);
+    expect(response.headers.get('mcp-session-id')).toBeTruthy();
+    await response.body?.cancel();
+    expect(transport.getSessionCount()).toBe(1);
+  });
+
+  it('should reject request bodies over the size limit', async () => {
+    const limited = new HttpTransport({ host: '127.0.0.1', port: 0, maxBodyBytes: 1024 }, createServer);
+    const { port } = await limited.start();
+    const url = `http://127.0.0.1:${port}/mcp`;
+    const body = JSON.stringify({ ...initializeBody, padding: 'x'.repeat(2048) });
+
+    try {
+      const sized = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+      expect(sized.status).toBe(413);
+      expect((await sized.json()).error.message).toBe('Request body too large');
+
+      const streamed = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: new Blob([body]).stream(),
+        duplex: 'half',
+      } as RequestInit);
+      expect(streamed.status).toBe(413);
+      await streamed.body?.cancel();
+      expect(limited.getSessionCount()).toBe(0);
+    } finally {
+      await limited.stop();
+    }
+  });
+});
+
+describe('ToolRegistry', () => {
+  let registry: ToolRegistry;
+  const extra = toolExtra();
+
+  beforeEach(() => {
+    registry = new ToolRegistry();
+    registry.register(defineTool({
+      name: 'echo',
+      description: 'Echo a message',
+      schema: z.object({
+        message: z.string().describe('Message to echo'),
+        repeat: z.number().default(1).describe('Repeat count'),
+      }),
+      async handler(args) {
+        return textResult(args.message.repeat(args.repeat));
+      },
+    }));
+  });
+
+  it('should list tools with JSON schemas generated from zod', () => {
+    const [tool] = registry.list();
+    expect(tool.name).toBe('echo');
+    expect(tool.inputSchema.type).toBe('object');
+    expect(tool.inputSchema.required).toEqual(['message']);
+    expect(tool.inputSchema.properties).toMatchObject({
+      message: { type: 'string', description: 'Message to echo' },
+      repeat: { type: 'number', default: 1 },
+    });
+  });
+
+  it('should apply defaults and run the handler', async () => {
+    const result = await registry.call('echo', { message: 'hi' }, extra);
+    expect(result.isError).toBeUndefined();
+    expect(result.content[0]).toEqual({ type: 'text', text: 'hi' });
+  });
+
+  it('should reject invalid arguments before running the handler', async () => {
+    const result = await registry.call('echo', { message: 42 }, extra);
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ text: expect.stringContaining('Invalid arguments for echo: message') });
+  });
+
+  it('should report unknown tools and reject duplicates', async () => {
+    const result = await registry.call('missing', {}, extra);
+    expect(result.isError).toBe(true);
+    expect(() => registry.register(defineTool({
+      name: 'echo',
+      description: 'Duplicate',
+      schema: z.object({}),
+      async handler() {
+        return textResult('');
+      },
+    }))).toThrow('Tool already registered: echo');
+  });
+});
+
+describe('ResourceManager', () => {
+  let sessions: SessionManager;
+  let launcher: ProcessLauncher;
+  let logAnalyzer: LogAnalyzer;
+  let resources: ResourceManager;
+
+  beforeEach(() => {
+    sessions = new SessionManager();
+    launcher = sessions.get().launcher;
+    logAnalyzer = new LogAnalyzer('/tmp/logs');
+    resources = new ResourceManager({
+      sessions,
+      serverManager: new ServerManager(),
+      buildSystem: new BuildSystem(),
+      logAnalyzer,
+      cvarWatcher: new CvarWatcher(),
+    }, 0);
+  });
+
+  afterEach(() => {
+    resources.dispose();
+    logAnalyzer.unwatchAll();
+  });
+
+  it('should list static resources and templates', () => {
+    const uris = resources.list().map((r) => r.uri);
+    expect(uris).toContain(RESOURCE_URIS.consoleOutput);
+    expect(uris).toContain(RESOURCE_URIS.serverOutput);
+    expect(uris).toContain(RESOURCE_URIS.buildOutput);
+    expect(resources.listTemplates().map((t) => t.uriTemplate)).toEqual([
+      'openmohaa://log/{name}',
+      'openmohaa://demo/{name}',
+      'openmohaa://session/{session}/console/output',
+      'openmohaa://session/{session}/console/output.ansi',
+      'openmohaa://session/{session}/console/output.html',
+      'openmohaa://session/{session}/game/status',
+      'openmohaa://session/{session}/demo/{name}',
+    ]);
+  });
+
+  it('should list watched logs as resources', () => {
+    logAnalyzer.watchLog('/tmp/logs/qconsole.log');
+    expect(resources.list().map((r) => r.uri)).toContain('openmohaa://log/qconsole.log');
+  });
+
+  it('should not throw when a watched log reports an error line', () => {
+    const entry = { timestamp: null, type: 'error', message: 'ERROR: bad map', raw: 'ERROR: bad map', lineNumber: 0 };
+
+    expect(() => logAnalyzer.emit('error', { filePath: '/tmp/logs/qconsole.log', entry })).not.toThrow();
+  });
+
+  it('should reject subscriptions to unknown resources', () => {
+    expect(() => resources.subscribe('openmohaa://nope')).toThrow('Unknown resource');
+    expect(() => resources.read('openmohaa://demo/missing')).toThrow('Demo not found');
+  });
+
+  it('should notify subscribers when console output arrives', async () => {
+    const updated = vi.fn();
+    resources.on('updated', updated);
+
+    launcher.emit('output', { timestamp: new Date(), text: 'ignored', type: 'stdout' });
+    resources.subscribe(RESOURCE_URIS.consoleOutput);
+    launcher.emit('output', { timestamp: new Date(), text: 'first', type: 'stdout' });
+    launcher.emit('output', { timestamp: new Date(), text: 'second', type: 'stdout' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(updated).toHaveBeenCalledTimes(1);
+    expect(updated).toHaveBeenCalledWith(RESOURCE_URIS.consoleOutput);
+  });
+
+  it('should serve and notify console output per game session', async () => {
+    const client = sessions.create('client');
+    vi.spyOn(client.launcher, 'getConsoleBuffer').mockReturnValue([
+      { timestamp: new Date(), text: 'connected', type: 'stdout' },
+    ]);
+    const updated = vi.fn();
+    resources.on('updated', updated);
+
+    resources.subscribe('openmohaa://session/client/console/output');
+    client.launcher.emit('output', { timestamp: new Date(), text: 'connected', type: 'stdout' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+
+    expect(updated).toHaveBeenCalledWith('openmohaa://session/client/console/output');
+    expect(updated).not.toHaveBeenCalledWith(RESOURCE_URIS.consoleOutput);
+    expect(resources.read('openmohaa://session/client/console/output').contents).toMatchObject([{ text: '[stdout] connected' }]);
+    expect(resources.read(RESOURCE_URIS.consoleOutput).contents).toMatchObject([{ text: '' }]);
+    expect(() => resources.read('openmohaa://session/missing/game/status')).toThrow('Unknown session');
+    expect(() => resources.subscribe('openmohaa://session/client/nope')).toThrow('Unknown resource');
+  });
+
+  it('should keep a log watched until every session has unsubscribed', () => {
+    readdirNames.mockReturnValueOnce(['qconsole.log']);
+    const first = new ResourceSubscriptions(resources);
+    const second = new ResourceSubscriptions(resources);
+
+    first.subscribe('openmohaa://log/qconsole.log');
+    first.subscribe('openmohaa://log/qconsole%2Elog');
+    second.subscribe('openmohaa://log/qconsole.log');
+    first.release();
+
+    expect(logAnalyzer.getWatchedLogs()).toEqual(['/tmp/logs/qconsole.log']);
+    expect(resources.getSubscriberCount('openmohaa://log/qconsole.log')).toBe(1);
+
+    second.unsubscribe('openmohaa://log/qconsole.log');
+
+    expect(logAnalyzer.getWatchedLogs()).toEqual([]);
+    expect(resources.getSubscriberCount('openmohaa://log/qconsole.log')).toBe(0);
+  });
+
+  it('should render console colors as HTML', () => {
+    vi.spyOn(launcher, 'getConsoleBuffer').mockReturnValue([
+      { timestamp: new Date(), text: 'Axis win', raw: '^4Axis^7 win', type: 'stdout' },
+    ]);
+
+    const [content] = resources.read(RESOURCE_URIS.consoleHtml).contents;
+
+    expect(content.mimeType).toBe('text/html');
+    expect(content.text).toContain('[stdout] <span style="color:#0000ff">Axis</span><span style="color:#ffffff"> win</span>');
+  });
+});
+
+describe('PromptLibrary', () => {
+  let prompts: PromptLibrary;
+
+  beforeEach(() => {
+    prompts = new PromptLibrary();
+  });
+
+  it('should list QA workflow prompts with arguments', () => {
+    const list = prompts.list();
+    expect(list.map((p) => p.name)).toContain('openmohaa_smoke_test_map');
+    const bisect = list.find((p) => p.name === 'openmohaa_bisect_crash');
+    expect(bisect?.arguments?.filter((a) => a.required).map((a) => a.name)).toEqual([
+      'goodCommit',
+      'badCommit',
+      'sourceDir',
+    ]);
+  });
+
+  it('should expand arguments into the prompt text', () => {
+    const result = prompts.get('openmohaa_benchmark_preset', { preset: 'ultra', map: 'obj/obj_team1' });
+    const content = result.messages[0].content;
+    expect(content.type).toBe('text');
+    expect(content.type === 'text' && content.text).toContain('preset "ultra"');
+    expect(content.type === 'text' && content.text).toContain('mapName "obj/obj_team1"');
+  });
+
+  it('should reject unknown prompts and missing arguments', () => {
+    expect(() => prompts.get('nope')).toThrow('Unknown prompt: nope');
+    expect(() => prompts.get('openmohaa_smoke_test_map', {})).toThrow('Missing required arguments for openmohaa_smoke_test_map: map');
+  });
+
+  it('should only reference registered tools', () => {
+    const registry = new ToolRegistry();
+    registerBuiltinTools(registry, toolComponents());
+
+    for (const prompt of prompts.list()) {
+      const args = Object.fromEntries((prompt.arguments || []).map((a) => [a.name, 'x']));
+      const message = prompts.get(prompt.name, args).messages[0].content;
+      const text = message.type === 'text' ? message.text : '';
+      for (const tool of text.match(/openmohaa_[a-z_]+/g) || []) {
+        expect(registry.has(tool), `${prompt.name} references ${tool}`).toBe(true);
+      }
+    }
+  });
+});
+
+describe('JobManager', () => {
+  let jobs: JobManager;
+
+  beforeEach(() => {
+    jobs = new JobManager();
+  });
+
+  it('should run a job and keep its result', async () => {
+    const job = jobs.start('test', async ({ reportProgress }) => {
+      reportProgress(1, 2, 'halfway');
+      return 42;
+    });
+    expect(job.status).toBe('running');
+
+    const info = await jobs.wait(job.id);
+    expect(info.status).toBe('completed');
+    expect(info.progress).toEqual({ progress: 1, total: 2, message: 'halfway' });
+    expect(jobs.getResult(job.id)).toBe(42);
+  });
+
+  it('should record failures', async () => {
+    const job = jobs.start('test', async () => {
+      throw new Error('boom');
+    });
+    const info = await jobs.wait(job.id);
+    expect(info.status).toBe('failed');
+    expect(info.error).toBe('boom');
+  });
+
+  it('should cancel a job and abort its signal', async () => {
+    let aborted = false;
+    const job = jobs.start('test', ({ signal }) => new Promise((resolve) => {
+      signal.addEventListener('abort', () => {
+        aborted = true;
+        resolve(null);
+      });
+    }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(jobs.cancel(job.id)).toBe(true);
+    expect(jobs.get(job.id)?.status).toBe('cancelled');
+    expect(aborted).toBe(true);
+    expect(jobs.cancel(job.id)).toBe(false);
+    expect(jobs.list('cancelled').map((j) => j.id)).toEqual([job.id]);
+  });
+
+  it('should cancel foreground jobs when the request is cancelled', async () => {
+    const controller = new AbortController();
+    const sendNotification = vi.fn<Parameters<ToolExtra['sendNotification']>, Promise<void>>(async () => {});
+    const extra = toolExtra({ signal: controller.signal, sendNotification, _meta: { progressToken: 'p1' } });
+
+    const pending = runAsJob(jobs, 'slow', extra, false, ({ signal, reportProgress }) => new Promise((resolve) => {
+      reportProgress(1, 10);
+      signal.addEventListener('abort', () => resolve(textResult('stopped')));
+    }));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    controller.abort();
+
+    const result = await pending;
+    expect(result.isError).toBe(true);
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'p1', progress: 1, total: 10, message: undefined },
+    });
+  });
+
+  it('should cancel only the automation script that belongs to the job', async () => {
+    const sessions = new SessionManager();
+    sessions.create('second');
+    const registry = new ToolRegistry();
+    registerBuiltinTools(registry, toolComponents({ sessions, jobManager: jobs }));
+    const scriptJson = JSON.stringify({ name: 'waits', steps: Array.from({ length: 4 }, () => ({ action: 'wait', params: { ms: 30 } })) });
+    const start = async (session: string) => {
+      const result = await registry.call('openmohaa_run_script', { scriptJson, background: true, session }, toolExtra());
+      return JSON.parse((result.content[0] as { text: string }).text).jobId as string;
+    };
+
+    const first = await start('default');
+    const second = await start('second');
+    await new Promise((resolve) => setTimeout(resolve, 40));
+    jobs.cancel(first);
+
+    expect((await jobs.wait(first)).status).toBe('cancelled');
+    expect((await jobs.wait(second)).status).toBe('completed');
+    const result = JSON.parse((jobs.getResult(second) as { content: Array<{ text: string }> }).content[0].text);
+    expect(result.passed).toBe(true);
+    expect(result.steps).toHaveLength(4);
+  });
+
+  it('should return a job ID for background jobs', async () => {
+    const result = await runAsJob(jobs, 'slow', toolExtra(), true, async () => textResult('done'));
+    const { jobId } = JSON.parse((result.content[0] as { text: string }).text);
+    expect((await jobs.wait(jobId)).status).toBe('completed');
+    expect(jobs.getResult(jobId)).toEqual(textResult('done'));
+  });
+});
+
+describe('SessionManager', () => {
+  let sessions: SessionManager;
+
+  beforeEach(() => {
+    sessions = new SessionManager();
+  });
+
+  it('should start with the default session', () => {
+    expect(sessions.has(DEFAULT_SESSION)).toBe(true);
+    expect(sessions.get().id).toBe(DEFAULT_SESSION);
+    expect(sessions.list()).toHaveLength(1);
+  });
+
+  it('should create sessions with their own components', () => {
+    const named = sessions.create('client-a');
+    const generated = sessions.create();
+
+    expect(generated.id).toBe('session-1');
+    expect(named.launcher).not.toBe(sessions.get().launcher);
+    expect(sessions.get('client-a')).toBe(named);
+    expect(() => sessions.create('client-a')).toThrow('Session already exists: client-a');
+    expect(() => sessions.get('nope')).toThrow('Unknown session: nope');
+    expect(sessions.getOrCreate('client-b').id).toBe('client-b');
+  });
+
+  it('should type commands that cannot be written to stdin into the session\'s window', async () => {
+    const session = sessions.create('client-a');
+    vi.spyOn(session.launcher, 'isRunning').mockReturnValue(true);
+    vi.spyOn(session.launcher, 'sendInput').mockReturnValue(false);
+    const typed = vi.spyOn(session.uiController, 'sendToConsole').mockResolvedValue();
+
+    const result = await session.consoleManager.sendCommand('map dm/mohdm1', false);
+
+    expect(typed).toHaveBeenCalledWith('map dm/mohdm1');
+    expect(result.status).toBe('sent');
+  });
+
+  it('should send demo commands to the named session', async () => {
+    const client = sessions.create('client-a');
+    const clientSend = vi.spyOn(client.consoleManager, 'sendCommand').mockResolvedValue({ success: true, status: 'ok', output: '' });
+    const defaultSend = vi.spyOn(sessions.get().consoleManager, 'sendCommand').mockResolvedValue({ success: true, status: 'ok', output: '' });
+    const registry = new ToolRegistry();
+    registerBuiltinTools(registry, toolComponents({ sessions }));
+
+    await registry.call('openmohaa_demo_start_recording', { demoName: 'client', session: 'client-a' }, toolExtra());
+
+    expect(clientSend).toHaveBeenCalledWith('record client');
+    expect(defaultSend).not.toHaveBeenCalled();
+    expect(client.demoManager.getState().isRecording).toBe(true);
+    expect(sessions.get().demoManager.getState().isRecording).toBe(false);
+  });
+
+  it('should reject session IDs that are not safe file names', async () => {
+    const registry = new ToolRegistry();
+    registerBuiltinTools(registry, toolComponents({ sessions }));
+
+    const result = await registry.call('openmohaa_session_create', { id: '../../tmp/x' }, toolExtra());
+
+    expect(result.isError).toBe(true);
+    expect(() => sessions.create('..')).toThrow('Invalid session ID ".."');
+    expect(() => sessions.getOrCreate('a/b')).toThrow('Invalid session ID "a/b"');
+    expect(sessions.list().map((session) => session.id)).toEqual([DEFAULT_SESSION]);
+  });
+
+  it('should bind window lookups to the game process', () => {
+    const session = sessions.create('client-a');
+    const uiSpy = vi.spyOn(session.uiController, 'setWindowPid');
+    const screenSpy = vi.spyOn(session.screenCapture, 'setWindowPid');
+
+    session.launcher.emit('spawned', { ...session.launcher.getState(), pid: 4242 });
+    expect(uiSpy).toHaveBeenCalledWith(4242);
+    expect(screenSpy).toHaveBeenCalledWith(4242);
+
+    session.launcher.emit('exit', { code: 0, signal: null });
+    expect(uiSpy).toHaveBeenLastCalledWith(null);
+  });
+
+  it('should remove closed sessions but keep the default one', async () => {
+    sessions.create('client-a');
+
+    expect(await sessions.close('client-a')).toBe(true);
+    expect(sessions.has('client-a')).toBe(false);
+    expect(await sessions.close(DEFAULT_SESSION)).toBe(true);
+    expect(sessions.has(DEFAULT_SESSION)).toBe(true);
+    expect(await sessions.close('nope')).toBe(false);
+  });
+});
+
+describe('VirtualDisplay', () => {
+  function fakeXvfb() {
+    const displayFd = new EventEmitter();
+    const child = fakeChild({
+      stdio: [null, null, new EventEmitter(), displayFd],
+      stderr: new EventEmitter(),
+      exitCode: null,
+      signalCode: null,
+      kill: vi.fn((signal: string) => {
+        setTimeout(() => child.emit('exit', null, signal), 0);
+        return true;
+      }),
+    });
+    vi.mocked(spawn).mockReturnValueOnce(child);
+    return { child, displayFd };
+  }
+
+  it('should start Xvfb and report the display it picked', async () => {
+    const { displayFd } = fakeXvfb();
+    const xvfb = new VirtualDisplay();
+
+    const started = xvfb.start(800, 600);
+    displayFd.emit('data', Buffer.from('42\n'));
+
+    expect(await started).toBe(':42');
+    expect(xvfb.getDisplay()).toBe(':42');
+    expect(vi.mocked(spawn)).toHaveBeenLastCalledWith(
+      'Xvfb',
+      expect.arrayContaining(['-displayfd', '3', '800x600x24']),
+      expect.anything()
+    );
+  });
+
+  it('should fail if Xvfb exits before reporting a display', async () => {
+    const { child } = fakeXvfb();
+    const xvfb = new VirtualDisplay();
+
+    const started = xvfb.start(800, 600);
+    child.emit('exit', 1, null);
+
+    await expect(started).rejects.toThrow('Xvfb exited with code 1');
+    expect(xvfb.isRunning()).toBe(false);
+  });
+
+  it('should stop the server', async () => {
+    const { child, displayFd } = fakeXvfb();
+    const xvfb = new VirtualDisplay();
+
+    const started = xvfb.start(800, 600);
+    displayFd.emit('data', Buffer.from('42\n'));
+    await started;
+    await xvfb.stop();
+
+    expect(child.kill).toHaveBeenCalledWith('SIGTERM');
+    expect(xvfb.getDisplay()).toBeNull();
+  });
+});
+
+describe('CrashReporter', () => {
+  const crash = {
+    pid: 4242,
+    exitCode: null,
+    signal: 'SIGSEGV',
+    executablePath: '/opt/openmohaa/openmohaa',
+    arguments: ['+set', 'fs_game', 'main', '+set', 'sv_cheats', '1'],
+    workingDirectory: '/opt/openmohaa',
+    startTime: new Date(Date.now() - 60000),
+    timestamp: new Date(),
+  };
+  let buildSystem: BuildSystem;
+  let reporter: CrashReporter;
+
+  beforeEach(() => {
+    buildSystem = new BuildSystem();
+    vi.spyOn(buildSystem, 'getGitInfo').mockResolvedValue({ commit: 'abc123' });
+    reporter = new CrashReporter(buildSystem, '/tmp/crashes', 200, 0);
+  });
+
+  it('should write a bundle with console lines, cvars and git info', async () => {
+    const bundle = await reporter.capture('default', crash, ['line 1', 'line 2'], { sv_cheats: '1' });
+
+    expect(bundle.session).toBe('default');
+    expect(bundle.signal).toBe('SIGSEGV');
+    expect(bundle.gitInfo).toEqual({ commit: 'abc123' });
+    expect(bundle.corePath).toBeNull();
+    expect(bundle.notes.some((note) => note.includes('No core dump found'))).toBe(true);
+    expect(vi.mocked(writeFileSync)).toHaveBeenCalledWith(
+      expect.stringContaining(`${bundle.id}/crash.json`),
+      expect.stringContaining('"sv_cheats": "1"')
+    );
+  });
+
+  it('should only read and write bundles inside the crash directory', async () => {
+    await expect(reporter.capture('../x', crash, [], {})).rejects.toThrow('Invalid session ID "../x"');
+    expect(reporter.get('../crash')).toBeNull();
+    expect(reporter.get('2026-01-01T00-00-00-000Z-a/b')).toBeNull();
+    expect(reporter.get('default')).toBeNull();
+    expect(vi.mocked(existsSync)).not.toHaveBeenCalledWith(expect.stringContaining('crash.json'));
+  });
+
+  it('should move the core named by core_pattern into the bundle', async () => {
+    vi.mocked(readFileSync).mockReturnValueOnce('core.%e.%p');
+    readdirNames.mockReturnValueOnce(['core.openmohaa.4242', 'core.other.1']);
+    reporter = new CrashReporter(buildSystem, '/tmp/crashes', 200, 1000);
+
+    const bundle = await reporter.capture('default', crash, [], {});
+
+    expect(bundle.corePath).toMatch(/\/core$/);
+    expect(vi.mocked(renameSync)).toHaveBeenCalledWith('/opt/openmohaa/core.openmohaa.4242', bundle.corePath);
+  });
+
+  it('should pass paths to the debugger as arguments, not through a shell', async () => {
+    const executablePath = '/opt/build "$(id)"/openmohaa';
+    vi.mocked(readFileSync).mockReturnValueOnce('core.%e.%p');
+    readdirNames.mockReturnValueOnce(['core.openmohaa.4242']);
+    reporter = new CrashReporter(buildSystem, '/tmp/crashes', 200, 1000);
+
+    const bundle = await reporter.capture('default', { ...crash, executablePath }, [], {});
+
+    expect(bundle.backtrace).toBe('');
+    expect(vi.mocked(execFile)).toHaveBeenCalledWith(
+      'gdb',
+      ['--batch', '-nx', '-ex', 'set pagination off', '-ex', 'directory /opt/build "$(id)"', '-ex', 'thread apply all bt full', executablePath, bundle.corePath],
+      expect.anything(),
+      expect.any(Function)
+    );
+  });
+
+  it('should capture crashes from an attached session', async () => {
+    const sessions = new SessionManager();
+    const bundle: CrashBundle = {
+      id: '2024-01-01T00-00-00-000Z-default',
+      session: 'default',
+      timestamp: crash.timestamp.toISOString(),
+      pid: crash.pid,
+      exitCode: crash.exitCode,
+      signal: crash.signal,
+      executablePath: crash.executablePath,
+      arguments: crash.arguments,
+      workingDirectory: crash.workingDirectory,
+      corePath: null,
+      backtrace: null,
+      consoleLines: [],
+      cvars: {},
+      gitInfo: {},
+      notes: [],
+    };
+    const capture = vi.spyOn(reporter, 'capture').mockResolvedValue(bundle);
+    reporter.attach(sessions.get());
+
+    sessions.get().launcher.emit('crashed', crash);
+
+    expect(capture).toHaveBeenCalledWith('default', crash, [], { fs_game: 'main', sv_cheats: '1' });
+  });
+});
+
+describe('ConsoleInventory', () => {
+  const cvarlist = [
+    'S     A  sv_hostname "My Server"',
+    '      A  name "UnnamedSoldier"',
+    '     L C g_gametype "1"',
+    '        r_mode "-1"',
+    '4 total cvars',
+  ].join('\n');
+  const cmdlist = ['map', 'devmap', 'cvarlist', '3 commands'].join('\n');
+
+  it('should parse cvarlist flags and values', () => {
+    expect(parseCvarList(cvarlist)).toEqual([
+      { name: 'sv_hostname', value: 'My Server', flags: ['serverinfo', 'archive'] },
+      { name: 'name', value: 'UnnamedSoldier', flags: ['archive'] },
+      { name: 'g_gametype', value: '1', flags: ['latched', 'cheat'] },
+      { name: 'r_mode', value: '-1', flags: [] },
+    ]);
+  });
+
+  it('should parse cmdlist into sorted names', () => {
+    expect(parseCmdList(cmdlist)).toEqual(['cvarlist', 'devmap', 'map']);
+  });
+
+  it('should list the inventory once per build and search it', async () => {
+    const launcher = new ProcessLauncher();
+    const consoleManager = new ConsoleManager(launcher);
+    vi.spyOn(launcher, 'isRunning').mockReturnValue(true);
+    vi.spyOn(launcher, 'getConfig').mockReturnValue({ executablePath: '/opt/openmohaa/openmohaa' });
+    const send = vi.spyOn(consoleManager, 'sendCommand').mockImplementation(async (command) => ({
+      success: true,
+      status: 'ok',
+      output: command === 'cvarlist' ? cvarlist : cmdlist,
+    }));
+    // A real Stats of any file, given the size and time the build key is made from
+    const actualFs = await vi.importActual<typeof import('fs')>('fs');
+    const build = Object.assign(actualFs.statSync(process.execPath), { size: 1024, mtime: new Date(0) });
+    vi.mocked(statSync).mockReturnValueOnce(build).mockReturnValueOnce(build);
+    const inventory = new ConsoleInventory('/tmp/inventory');
+
+    const first = await inventory.get(launcher, consoleManager);
+    const second = await inventory.get(launcher, consoleManager);
+
+    expect(second).toBe(first);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(consoleManager.getCachedCvar('g_gametype')?.flags).toEqual(['latched', 'cheat']);
+    expect(inventory.searchCvars(first, { flags: ['archive'] }).map((cvar) => cvar.name)).toEqual(['sv_hostname', 'name']);
+    expect(inventory.searchCvars(first, { query: 'SERVER' })).toHaveLength(1);
+    expect(inventory.searchCommands(first, { query: 'map' })).toEqual(['devmap', 'map']);
+  });
+
+  it('should not cache the inventory of a build it cannot identify', async () => {
+    const launcher = new ProcessLauncher();
+    const consoleManager = new ConsoleManager(launcher);
+    vi.spyOn(launcher, 'isRunning').mockReturnValue(true);
+    const send = vi.spyOn(consoleManager, 'sendCommand').mockImplementation(async (command) => ({
+      success: true,
+      status: 'ok',
+      output: command === 'cvarlist' ? cvarlist : cmdlist,
+    }));
+    const inventory = new ConsoleInventory('/tmp/inventory');
+
+    const first = await inventory.get(launcher, consoleManager);
+    await inventory.get(launcher, consoleManager);
+
+    expect(first.buildKey).toBeNull();
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(inventory.getCached(launcher)).toBeNull();
+  });
+});
+
+describe('CvarSnapshotManager', () => {
+  let values: Record<string, string>;
+  let consoleManager: ConsoleManager;
+  let snapshots: CvarSnapshotManager;
+
+  beforeEach(() => {
+    values = { sv_cheats: '0', g_gametype: '1', version: 'OpenMOHAA 0.80.0' };
+    consoleManager = new ConsoleManager(new ProcessLauncher());
+    vi.spyOn(consoleManager, 'sendCommand').mockImplementation(async () => ({
+      success: true,
+      status: 'ok',
+      output: Object.entries(values)
+        .map(([name, value]) => `${name === 'version' ? '  R    ' : '       '} ${name} "${value}"`)
+        .join('\n'),
+    }));
+    vi.spyOn(consoleManager, 'setCvar').mockImplementation(async (name, value) => {
+      values[name] = value;
+      return { success: true, status: 'ok', output: '' };
+    });
+    snapshots = new CvarSnapshotManager();
+  });
+
+  it('should diff two snapshots', async () => {
+    const before = await snapshots.capture(consoleManager);
+    values.sv_cheats = '1';
+    values.developer = '1';
+    delete values.g_gametype;
+    const after = await snapshots.capture(consoleManager);
+
+    expect(snapshots.diff(before, after)).toEqual({
+      added: [{ name: 'developer', value: '1' }],
+      removed: [{ name: 'g_gametype', value: '1' }],
+      changed: [{ name: 'sv_cheats', from: '0', to: '1' }],
+    });
+  });
+
+  it('should restore changed cvars and skip read-only ones', async () => {
+    const before = await snapshots.capture(consoleManager);
+    values.sv_cheats = '1';
+    values.version = 'patched';
+
+    const result = await snapshots.restore(consoleManager, before);
+
+    expect(result).toEqual({ success: true, restored: ['sv_cheats'], skipped: ['version'], failed: [] });
+    expect(values.sv_cheats).toBe('0');
+  });
+
+  it('should roll back a transaction even when the block fails', async () => {
+    await expect(snapshots.withTransaction(consoleManager, async () => {
+      values.sv_cheats = '1';
+      throw new Error('step failed');
+    })).rejects.toThrow('step failed');
+
+    expect(values.sv_cheats).toBe('0');
+    expect(snapshots.listTransactions()).toEqual([]);
+  });
+
+  it('should refuse to roll back a transaction whose snapshot was deleted', async () => {
+    const transaction = await snapshots.begin(consoleManager);
+    snapshots.delete(transaction.snapshotId);
+
+    await expect(snapshots.rollback(transaction.id)).rejects.toThrow(`Snapshot ${transaction.snapshotId} of transaction ${transaction.id} no longer exists`);
+  });
+
+  it('should restore cvars after an automation script with cvarTransaction', async () => {
+    const launcher = new ProcessLauncher();
+    const automation = new AutomationFramework({
+      launcher,
+      console: consoleManager,
+      ui: new UIController(),
+      screen: new ScreenCapture(),
+      snapshots,
+    });
+
+    const result = await automation.runScript({
+      name: 'cheats',
+      cvarTransaction: true,
+      steps: [
+        { action: 'set_cvar', params: { name: 'sv_cheats', value: '1' } },
+        { action: 'assert_running', params: {} },
+      ],
+    });
+
+    expect(result.passed).toBe(false);
+    expect(values.sv_cheats).toBe('0');
+    expect(result.steps.map((step) => step.action)).toEqual([
+      'begin_transaction',
+      'set_cvar',
+      'assert_running',
+      'error',
+      'rollback_transaction',
+    ]);
+  });
+
+  it('should snapshot after setup launches the game and restore before teardown quits it', async () => {
+    let running = false;
+    const launcher = new ProcessLauncher();
+    vi.spyOn(launcher, 'launch').mockImplementation(async () => {
+      running = true;
+      return launcher.getState();
+    });
+    vi.spyOn(launcher, 'stop').mockImplementation(async () => {
+      running = false;
+    });
+    const send = consoleManager.sendCommand;
+    vi.spyOn(consoleManager, 'sendCommand').mockImplementation(async (...args) =>
+      running ? send.apply(consoleManager, args) : { success: false, status: 'error', output: '', error: 'Game not running' });
+    const automation = new AutomationFramework({
+      launcher,
+      console: consoleManager,
+      ui: new UIController(),
+      screen: new ScreenCapture(),
+      snapshots,
+    });
+
+    const result = await automation.runScript({
+      name: 'cheats',
+      cvarTransaction: true,
+      setup: [{ action: 'launch', params: { executablePath: '/opt/openmohaa/openmohaa' } }],
+      steps: [{ action: 'set_cvar', params: { name: 'sv_cheats', value: '1' } }],
+      teardown: [{ action: 'stop', params: {} }],
+    });
+
+    expect(result.steps.map((step) => [step.action, step.success])).toEqual([
+      ['launch', true],
+      ['begin_transaction', true],
+      ['set_cvar', true],
+      ['rollback_transaction', true],
+      ['stop', true],
+    ]);
+    expect(values.sv_cheats).toBe('0');
+  });
+});
+
+describe('CvarWatcher', () => {
+  let consoleManager: ConsoleManager;
+  let watcher: CvarWatcher;
+
+  beforeEach(() => {
+    consoleManager = new ConsoleManager(new ProcessLauncher());
+    vi.spyOn(consoleManager, 'getCvar').mockResolvedValue({ name: 'sv_cheats', value: '0' });
+    watcher = new CvarWatcher(10);
+  });
+
+  afterEach(() => {
+    watcher.dispose();
+  });
+
+  it('should compare cvar values', () => {
+    expect(compareCvar('1', { op: 'equals', value: '1' }, null)).toBe(true);
+    expect(compareCvar('1', { op: 'not_equals', value: '1' }, null)).toBe(false);
+    expect(compareCvar('obj/obj_team1', { op: 'matches', pattern: '^obj/' }, null)).toBe(true);
+    expect(compareCvar('60', { op: 'between', min: 30, max: 144 }, null)).toBe(true);
+    expect(compareCvar('abc', { op: 'between', min: 0 }, null)).toBe(false);
+    expect(compareCvar('dm/mohdm1', { op: 'changed' }, 'dm/mohdm2')).toBe(true);
+  });
+
+  it('should pick up changes printed to the console', async () => {
+    const events: unknown[] = [];
+    watcher.on('change', (event) => events.push(event));
+    const info = watcher.watch(consoleManager, 'sv_cheats', { comparison: { op: 'equals', value: '1' } });
+    await vi.waitFor(() => expect(watcher.get(info.id)?.value).toBe('0'));
+
+    consoleManager.emit('cvarChange', { name: 'sv_cheats', value: '1', previous: '0' });
+
+    expect(watcher.get(info.id)?.matched).toBe(true);
+    expect(events).toMatchObject([{ name: 'sv_cheats', from: '0', to: '1', matched: true }]);
+  });
+
+  it('should resolve waits on a match and time out otherwise', async () => {
+    const waiting = watcher.waitFor(consoleManager, 'sv_cheats', { op: 'changed' }, 1000);
+    setTimeout(() => consoleManager.emit('cvarChange', { name: 'sv_cheats', value: '1', previous: '0' }), 20);
+
+    expect(await waiting).toBe(true);
+    expect(await watcher.waitFor(consoleManager, 'sv_cheats', { op: 'equals', value: '2' }, 30)).toBe(false);
+    expect(watcher.list()).toEqual([]);
+  });
+
+  it('should poll each console separately even when the session labels collide', async () => {
+    const other = new ConsoleManager(new ProcessLauncher());
+    vi.spyOn(other, 'getCvar').mockResolvedValue({ name: 'sv_cheats', value: '1' });
+
+    const first = watcher.watch(consoleManager, 'sv_cheats');
+    const second = watcher.watch(other, 'sv_cheats');
+
+    await vi.waitFor(() => expect(watcher.get(second.id)?.value).toBe('1'));
+    expect(watcher.get(first.id)?.value).toBe('0');
+  });
+
+  it('should reject invalid patterns instead of watching them', async () => {
+    const registry = new ToolRegistry();
+    registerBuiltinTools(registry, toolComponents({ cvarWatcher: watcher }));
+
+    const result = await registry.call('openmohaa_cvar_watch', { name: 'mapname', comparison: { op: 'matches', pattern: '(' } }, toolExtra());
+
+    expect(result.isError).toBe(true);
+    expect((result.content[0] as { text: string }).text).toContain('Invalid regular expression');
+    expect(() => watcher.watch(consoleManager, 'mapname', { comparison: { op: 'matches', pattern: '(' } })).toThrow();
+    expect(watcher.list()).toEqual([]);
+  });
+
+  it('should drop a watch that fails instead of breaking the console stream', () => {
+    const info = watcher.watch(consoleManager, 'sv_cheats');
+    watcher.on('change', () => {
+      throw new Error('listener failed');
+    });
+    const logs: Array<{ level: string }> = [];
+    watcher.on('log', (entry) => logs.push(entry));
+
+    consoleManager.emit('cvarChange', { name: 'sv_cheats', value: '1', previous: '0' });
+    consoleManager.emit('cvarChange', { name: 'sv_cheats', value: '2', previous: '1' });
+
+    expect(watcher.get(info.id)).toBeUndefined();
+    expect(logs).toMatchObject([{ level: 'error' }]);
+  });
+});
+
+describe('ConsoleTranscript', () => {
+  let files: Map<string, string>;
+  let sessions: SessionManager;
+  let transcripts: ConsoleTranscript;
+
+  const print = (session: string, text: string, type = 'stdout', timestamp = new Date()) =>
+    sessions.get(session).launcher.emit('output', { timestamp, text, raw: `^2${text}`, type });
+
+  beforeEach(() => {
+    files = new Map();
+    vi.mocked(appendFileSync).mockImplementation((path, data) => {
+      files.set(String(path), (files.get(String(path)) ?? '') + data);
+    });
+    vi.mocked(readFileSync).mockImplementation((path) => files.get(String(path)) ?? '');
+    readStreams.mockImplementation((path) => Readable.from([files.get(String(path)) ?? '']));
+    sessions = new SessionManager();
+    sessions.create('bot');
+    transcripts = new ConsoleTranscript('/tmp/transcripts', 100000, 2, 60000);
+    transcripts.attach(sessions.get());
+    transcripts.attach(sessions.get('bot'));
+  });
+
+  afterEach(() => {
+    transcripts.dispose();
+    vi.mocked(appendFileSync).mockReset();
+    vi.mocked(readFileSync).mockImplementation(() => '');
+    readStreams.mockReset();
+  });
+
+  it('should write each session to its own transcript and search across them', async () => {
+    print(DEFAULT_SESSION, 'Loading map dm/mohdm1');
+    print('bot', 'Bot connected', 'stdout');
+    print('bot', 'WARNING: missing shader', 'stderr');
+
+    expect((await transcripts.search({ pattern: 'warning', ignoreCase: true })).matches).toMatchObject([
+      { session: 'bot', type: 'stderr', text: 'WARNING: missing shader', raw: '^2WARNING: missing shader' },
+    ]);
+    expect((await transcripts.search({ session: 'bot', type: 'stdout' })).matches.map((line) => line.text)).toEqual(['Bot connected']);
+    expect(transcripts.list().map((file) => file.session).sort()).toEqual(['bot', DEFAULT_SESSION]);
+  });
+
+  it('should filter by time range and return the newest matches', async () => {
+    const start = Date.now();
+    for (let i = 0; i < 5; i++) {
+      print(DEFAULT_SESSION, `frame ${i}`, 'stdout', new Date(start + i * 1000));
+    }
+
+    const result = await transcripts.search({ from: new Date(start + 1000), to: new Date(start + 3000), limit: 2 });
+
+    expect(result.total).toBe(3);
+    expect(result.matches.map((line) => line.text)).toEqual(['frame 2', 'frame 3']);
+  });
+
+  it('should merge overlapping sessions by timestamp before keeping the newest matches', async () => {
+    const start = Date.now();
+    print(DEFAULT_SESSION, 'default 10:00', 'stdout', new Date(start));
+    print('bot', 'bot 10:30', 'stdout', new Date(start + 30 * 60000));
+    print('bot', 'bot 10:40', 'stdout', new Date(start + 40 * 60000));
+    print(DEFAULT_SESSION, 'default 12:00', 'stdout', new Date(start + 120 * 60000));
+
+    const result = await transcripts.search({ limit: 2 });
+
+    expect(result.total).toBe(4);
+    expect(result.matches.map((line) => line.text)).toEqual(['bot 10:40', 'default 12:00']);
+  });
+
+  it('should rotate full files and delete the oldest beyond the limit', async () => {
+    transcripts.dispose();
+    transcripts = new ConsoleTranscript('/tmp/transcripts', 200, 2, 60000);
+    transcripts.attach(sessions.get());
+    for (let i = 0; i < 8; i++) {
+      print(DEFAULT_SESSION, `line ${i}`);
+      transcripts.flush();
+    }
+
+    const kept = transcripts.list(DEFAULT_SESSION);
+    expect(kept).toHaveLength(2);
+    expect(kept[kept.length - 1].path).toMatch(/\.00\d\.jsonl$/);
+    expect(vi.mocked(unlinkSync)).toHaveBeenCalled();
+    expect((await transcripts.search()).matches.map((line) => line.text)).toContain('line 7');
+  });
+
+  it('should only open transcript files that overlap the time range', async () => {
+    transcripts.dispose();
+    transcripts = new ConsoleTranscript('/tmp/transcripts', 200, 5, 60000);
+    transcripts.attach(sessions.get());
+    const start = Date.now();
+    for (let i = 0; i < 4; i++) {
+      print(DEFAULT_SESSION, `frame ${i}`, 'stdout', new Date(start + i * 60000));
+      transcripts.flush();
+    }
+    const [, , third] = transcripts.list(DEFAULT_SESSION);
+
+    const result = await transcripts.search({ from: new Date(start + 120000), to: new Date(start + 150000) });
+
+    expect(result.matches.map((line) => line.text)).toEqual(['frame 2']);
+    expect(readStreams).toHaveBeenCalledTimes(1);
+    expect(readStreams).toHaveBeenCalledWith(`/tmp/transcripts/${third.path}`, expect.anything());
+  });
+});
+
+describe('ConsoleCompleter', () => {
+  let session: GameSession;
+  let completer: ConsoleCompleter;
+
+  beforeEach(() => {
+    const inventory = new ConsoleInventory('/tmp/inventory');
+    vi.spyOn(inventory, 'getCached').mockReturnValue({
+      buildKey: 'abc',
+      executablePath: '/opt/openmohaa/openmohaa',
+      capturedAt: new Date().toISOString(),
+      cvars: [
+        { name: 'g_gametype', value: '1', flags: ['latched'] },
+        { name: 'g_gravity', value: '800', flags: [] },
+      ],
+      commands: ['map', 'maplist', 'kill'],
+    });
+    session = new SessionManager().get();
+    completer = new ConsoleCompleter(inventory, new ScriptValidator());
+    completer.attach(session);
+  });
+
+  it('should complete commands, cvar arguments and show usage', async () => {
+    const commands = await completer.complete(session, 'ma');
+    expect(commands.completions.map((c) => c.text)).toEqual(['map', 'maplist']);
+
+    const cvars = await completer.complete(session, 'kill; set g_ga');
+    expect(cvars.completions).toEqual([{ text: 'g_gametype', line: 'kill; set g_gametype', kind: 'cvar', value: '1' }]);
+    expect(cvars.signature?.usage).toBe('set <cvar> <value>');
+  });
+
+  it('should warn about unknown commands before sending them', async () => {
+    vi.spyOn(session.launcher, 'isRunning').mockReturnValue(true);
+    vi.spyOn(session.launcher, 'sendInput').mockReturnValue(true);
+
+    const result = await session.consoleManager.sendCommand('mpa dm/mohdm1; g_gravity 400', false);
+
+    expect(result.status).toBe('sent');
+    expect(result.warning).toBe('Unknown command "mpa" (did you mean: map?)');
+    expect(completer.check(session, 'set "a;b" 1; kill')).toBeNull();
+  });
+
+  it('should parse commands.txt signatures', () => {
+    expect(parseCommandsList('anim( String animName )\n    Exec anim commands on server or client.\nhide\n')).toEqual([
+      { name: 'anim', usage: 'anim( String animName )', description: 'Exec anim commands on server or client.', source: 'commands_list' },
+      { name: 'hide', usage: 'hide', source: 'commands_list' },
+    ]);
+  });
+});
+
+describe('Command parser', () => {
+  it('should split and tokenize like the engine', () => {
+    expect(splitCommandLines('set a "x;y"; echo hi // comment; ignored\n/* block\n */bind k "+attack"')).toEqual([
+      { text: 'set a "x;y"', line: 1 },
+      { text: 'echo hi', line: 1 },
+      { text: 'bind k "+attack"', line: 3 },
+    ]);
+    expect(tokenizeCommand('say "hello world" again/*x*/ "" //rest')).toEqual(['say', 'hello world', 'again', '']);
+  });
+
+  it('should expand aliases and vstr with their origin', () => {
+    const result = expandCommands([
+      'set map1 "map dm/mohdm1; set nextmap vstr map2"',
+      'alias go "vstr map1"',
+      'go',
+    ].join('\n'));
+
+    expect(result.errors).toEqual([]);
+    expect(result.commands.slice(2).map(({ text, line, via }) => ({ text, line, via }))).toEqual([
+      { text: 'map dm/mohdm1', line: 3, via: ['go', 'vstr map1'] },
+      { text: 'set nextmap vstr map2', line: 3, via: ['go', 'vstr map1'] },
+    ]);
+  });
+
+  it('should report cycles and unknown vstr cvars', () => {
+    const result = expandCommands('alias a b; alias b "a"; a; vstr missing', { cvars: {} });
+
+    expect(result.errors).toEqual([
+      { line: 1, message: 'Cycle: a -> b -> a' },
+      { line: 1, message: 'vstr of unknown cvar "missing"; sent unexpanded' },
+    ]);
+    expect(result.commands.map((command) => command.text)).toEqual(['alias a b', 'alias b "a"', 'vstr missing']);
+  });
+
+  it('should match alias and cvar names case-insensitively', () => {
+    const result = expandCommands('set Loop "vstr LOOP"; alias Go "vstr loop"; GO; vstr Start', { cvars: { START: 'say hi' } });
+
+    expect(result.errors).toEqual([{ line: 1, message: 'Cycle: go -> vstr loop -> vstr loop' }]);
+    expect(result.commands.map(({ text, via }) => ({ text, via }))).toEqual([
+      { text: 'set Loop "vstr LOOP"', via: [] },
+      { text: 'alias Go "vstr loop"', via: [] },
+      { text: 'say hi', via: ['vstr start'] },
+    ]);
+    expect(result.inheritedReads).toEqual([{ name: 'start', line: 1 }]);
+  });
+});
+
+describe('LaunchProfileManager', () => {
+  let files: Map<string, string>;
+  let profiles: LaunchProfileManager;
+
+  beforeEach(() => {
+    files = new Map([
+      ['/profiles/base.yaml', 'executablePath: /opt/mohaa/openmohaa\nwindowedMode: true\nenv:\n  LANG: C\nexecConfigs: [base.cfg]\n'],
+      ['/profiles/dm.json', JSON.stringify({ extends: 'base', mod: 'mymod', env: { SDL_AUDIODRIVER: 'dummy' }, execConfigs: ['dm.cfg'], commands: ['map dm/mohdm1'] })],
+    ]);
+    vi.mocked(existsSync).mockImplementation((path) => String(path) === '/profiles' || files.has(String(path)));
+    vi.mocked(readFileSync).mockImplementation((path) => files.get(String(path)) ?? '');
+    readdirNames.mockImplementation(() => Array.from(files.keys()).map((path) => path.slice('/profiles/'.length)));
+    profiles = new LaunchProfileManager('/profiles');
+  });
+
+  afterEach(() => {
+    vi.mocked(existsSync).mockImplementation(() => true);
+    vi.mocked(readFileSync).mockImplementation(() => '');
+    readdirNames.mockImplementation(() => []);
+  });
+
+  it('should merge a profile over its parent, appending lists', () => {
+    const dm = profiles.resolve('dm');
+
+    expect(dm).toMatchObject({
+      name: 'dm',
+      executablePath: '/opt/mohaa/openmohaa',
+      windowedMode: true,
+      mod: 'mymod',
+      env: { LANG: 'C', SDL_AUDIODRIVER: 'dummy' },
+      execConfigs: ['base.cfg', 'dm.cfg'],
+      commands: ['map dm/mohdm1'],
+    });
+    expect(profiles.toGameConfig(dm)).toMatchObject({
+      executablePath: '/opt/mohaa/openmohaa',
+      arguments: ['+exec', 'base.cfg', '+exec', 'dm.cfg'],
+      gameDirectory: 'mymod',
+    });
+    expect(profiles.list().map((profile) => profile.name)).toEqual(['base', 'dm']);
+  });
+
+  it('should refuse profile names that leave the profile directory', () => {
+    files.set('/etc/secret.yaml', 'executablePath: /bin/sh\n');
+
+    expect(() => profiles.get('../etc/secret')).toThrow('Invalid profile name');
+    expect(() => profiles.delete('../etc/secret')).toThrow('Invalid profile name');
+    expect(unlinkSync).not.toHaveBeenCalledWith('/etc/secret.yaml');
+    expect(() => profiles.save({ name: 'evil', extends: '../etc/secret' })).toThrow('Profile names may only contain');
+
+    files.set('/profiles/evil.json', JSON.stringify({ extends: '../etc/secret' }));
+    expect(() => profiles.resolve('evil')).toThrow('Profile names may only contain');
+  });
+
+  it('should reject inheritance cycles and missing parents', () => {
+    files.set('/profiles/base.yaml', 'extends: dm\n');
+    expect(() => profiles.resolve('dm')).toThrow('Profile inheritance cycle: dm -> base -> dm');
+    expect(() => profiles.save({ name: 'orphan', extends: 'nothing' })).toThrow('Profile orphan extends missing profile nothing');
+    expect(() => profiles.resolve('nothing')).toThrow('Profile not found: nothing');
+  });
+});
+
+describe('Readiness probes', () => {
+  const launcher = (running = true) => {
+    const fake = new ProcessLauncher();
+    vi.spyOn(fake, 'isRunning').mockReturnValue(running);
+    vi.spyOn(fake, 'getState').mockReturnValue({ ...fake.getState(), exitCode: running ? null : 1 });
+    vi.spyOn(fake, 'getConsoleBuffer').mockReturnValue([{ timestamp: new Date(), text: '----- Server Initialization -----', type: 'stdout' }]);
+    return fake;
+  };
+
+  it('should wait until every probe passes', async () => {
+    const consoleManager = new ConsoleManager(new ProcessLauncher());
+    const getCvar = vi.spyOn(consoleManager, 'getCvar')
+      .mockResolvedValueOnce(null)
+      .mockResolvedValueOnce({ name: 'sv_running', value: '0' })
+      .mockResolvedValue({ name: 'sv_running', value: '1' });
+
+    const result = await waitUntilReady(
+      { launcher: launcher(), consoleManager },
+      { probes: [{ type: 'console', pattern: 'Initialization' }, { type: 'cvar', name: 'sv_running', expected: '1' }], interval: 1 },
+      new Date(0)
+    );
+
+    expect(result.ready).toBe(true);
+    expect(getCvar).toHaveBeenCalledTimes(3);
+    expect(result.probes.map((probe) => probe.detail)).toEqual(['matched "----- Server Initialization -----"', 'answered "1"']);
+  });
+
+  it('should explain why startup never completed', async () => {
+    const uiController = new UIController();
+    vi.spyOn(uiController, 'findWindow').mockResolvedValue(null);
+
+    const timedOut = await waitUntilReady({ launcher: launcher(), uiController }, { probes: [{ type: 'window' }], mode: 'any', timeout: 20, interval: 5 });
+    expect(timedOut).toMatchObject({ ready: false, reason: 'Startup not ready after 20ms (none of game window: window not found)' });
+
+    const exited = await waitUntilReady({ launcher: launcher(false), uiController }, { probes: [{ type: 'window' }] });
+    expect(exited.reason).toBe('Process exited during startup with code 1');
+  });
+
+  it('should reject invalid console patterns without waiting for the timeout', async () => {
+    const probes = [{ type: 'console' as const, pattern: '(' }];
+
+    expect(readinessSchema.safeParse({ probes }).success).toBe(false);
+    const result = await waitUntilReady({ launcher: launcher() }, { probes, timeout: 60000 });
+    expect(result).toMatchObject({ ready: false, reason: 'Invalid readiness probe console /(/', probes: [{ passed: false }] });
+    expect(result.probes[0].detail).toContain('invalid pattern');
+  });
+
+  it('should assume a running game started after the grace period when no probes are configured', async () => {
+    vi.useFakeTimers();
+    try {
+      const fake = launcher();
+      vi.spyOn(fake, 'getConsoleBuffer').mockReturnValue([]);
+
+      const waiting = waitUntilReady({ launcher: fake });
+      await vi.advanceTimersByTimeAsync(DEFAULT_STARTUP_GRACE_MS);
+
+      expect(await waiting).toMatchObject({ ready: true, fallback: true, probes: [{ passed: false }] });
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
+
+describe('Supervisor', () => {
+  let restart: ReturnType<typeof vi.fn>;
+  let supervisor: Supervisor;
+
+  const crash = () => supervisor.processExited({ code: null, signal: 'SIGSEGV', requested: false });
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    restart = vi.fn(async () => supervisor.processStarted());
+    supervisor = new Supervisor('game', restart, {
+      enabled: true,
+      initialDelayMs: 100,
+      multiplier: 2,
+      healthyUptimeMs: 1000,
+      crashLoopThreshold: 3,
+    });
+  });
+
+  afterEach(() => {
+    supervisor.dispose();
+    vi.useRealTimers();
+  });
+
+  it('should back off exponentially and stop on a crash loop', async () => {
+    const crashLoop = vi.fn();
+    supervisor.on('crashLoop', crashLoop);
+    supervisor.processStarted();
+
+    crash();
+    expect(supervisor.getStatus()).toMatchObject({ state: 'backoff', attempt: 1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(restart).toHaveBeenCalledTimes(1);
+
+    crash();
+    await vi.advanceTimersByTimeAsync(199);
+    expect(restart).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(restart).toHaveBeenCalledTimes(2);
+
+    crash();
+    expect(supervisor.getStatus().state).toBe('crash_loop');
+    expect(crashLoop).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(restart).toHaveBeenCalledTimes(2);
+    expect(supervisor.getHistory().map((event) => event.type)).toEqual([
+      'exit', 'restart', 'exit', 'restart', 'exit', 'crash_loop',
+    ]);
+  });
+
+  it('should reset the backoff after a healthy run and ignore requested stops', async () => {
+    supervisor.processStarted();
+    crash();
+    await vi.advanceTimersByTimeAsync(100);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(supervisor.getStatus()).toMatchObject({ state: 'running', attempt: 0 });
+
+    crash();
+    expect(supervisor.getStatus().nextRestartAt?.getTime()).toBe(Date.now() + 100);
+    await vi.advanceTimersByTimeAsync(100);
+
+    supervisor.processExited({ code: 0, signal: null, requested: true });
+    await vi.advanceTimersByTimeAsync(10000);
+    expect(restart).toHaveBeenCalledTimes(2);
+    expect(supervisor.getStatus().state).toBe('idle');
+  });
+});
+
+describe('Sandbox', () => {
+  it('should apply limits in a shell that execs the game', () => {
+    expect(buildCommand('/opt/mohaa/openmohaa', ['+map', 'dm/mohdm1'], { coreDumps: false })).toEqual(['/opt/mohaa/openmohaa', ['+map', 'dm/mohdm1']]);
+
+    const [command, args] = buildCommand('/opt/mohaa/openmohaa', ['+map', 'dm/mohdm1'], {
+      sandbox: { memoryMb: 2048, openFiles: 1024, cpuAffinity: [0, 1], nice: 10 },
+    });
+    expect(command).toBe('/bin/sh');
+    expect(args.slice(2)).toEqual(['/opt/mohaa/openmohaa', '+map', 'dm/mohdm1']);
+    expect(args[1]).toContain('ulimit -c unlimited 2>/dev/null; ulimit -v 2097152 ||');
+    expect(args[1]).toContain('ulimit -n 1024 ||');
+    expect(args[1]).toMatch(/exec 'taskset' '-c' '0,1' 'nice' '-n' '10' "\$0" "\$@"$/);
+  });
+
+  it('should pass only allowed variables in clean mode and isolate HOME', () => {
+    const parent = { PATH: '/usr/bin', HOME: '/home/dev', DISPLAY: ':0', AWS_SECRET_ACCESS_KEY: 'x', CI: '1' };
+
+    expect(buildEnvironment(parent).env).toEqual(parent);
+
+    const { env, home } = buildEnvironment(parent, { env: 'clean', envAllowlist: ['CI'], privateHome: true });
+    expect(home).toMatch(/openmohaa-home-abc123$/);
+    expect(env).toEqual({
+      PATH: '/usr/bin',
+      DISPLAY: ':0',
+      CI: '1',
+      HOME: home,
+      XDG_CONFIG_HOME: `${home}/.config`,
+      XDG_DATA_HOME: `${home}/.local/share`,
+      XDG_CACHE_HOME: `${home}/.cache`,
+    });
+  });
+});
+
+describe('Input macros', () => {
+  const xinputEvent = (type: number, detail: number, time: number, root: string, flags = '') =>
+    `EVENT type ${type} (Name)\n    device: 3 (11)\n    time: ${time}\n    detail: ${detail}\n    flags: ${flags}\n    root: ${root}\n    event: ${root}\n`;
+
+  it('should parse xinput events into window-relative macro events', () => {
+    const output = [
+      xinputEvent(6, 0, 1000, '150.40/120.00'),
+      xinputEvent(13, 38, 1001, '0.00/0.00'),
+      xinputEvent(4, 1, 1100, '150.00/120.00'),
+      xinputEvent(5, 1, 1180, '150.00/120.00'),
+      xinputEvent(2, 38, 1300, '150.00/120.00'),
+      xinputEvent(2, 38, 1330, '150.00/120.00', 'repeat'),
+      xinputEvent(3, 38, 1350, '150.00/120.00'),
+      xinputEvent(4, 5, 1400, '150.00/120.00'),
+      xinputEvent(4, 5, 1450, '150.00/120.00'),
+    ].join('');
+
+    const parser = new XinputEventParser();
+    const raw = [...parser.push(output.slice(0, 100)), ...parser.push(output.slice(100)), ...parser.end()];
+    expect(raw.map((event) => event.type)).toEqual([
+      'motion', 'button_down', 'button_up', 'key_down', 'key_up', 'button_down', 'button_down',
+    ]);
+
+    const keymap = parseKeymap('keycode  38 = a A a A\nkeycode  39 = s S s S');
+    const events = raw.map((event) => toMacroEvent(event, event.time - 1000, { x: 100, y: 100 }, keymap)!).filter(Boolean);
+    expect(compactEvents(events)).toEqual([
+      { t: 0, type: 'move', x: 50, y: 20 },
+      { t: 100, type: 'click', button: 'left', x: 50, y: 20 },
+      { t: 300, type: 'key', key: 'a' },
+      { t: 400, type: 'scroll', direction: 'down', clicks: 2 },
+    ]);
+  });
+
+  it('should export a macro as an automation script with its timing', () => {
+    const script = macroToAutomationScript({
+      name: 'open-menu',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      window: { width: 1280, height: 720 },
+      durationMs: 2000,
+      events: [
+        { t: 0, type: 'key', key: 'Escape' },
+        { t: 1000, type: 'key_down', key: 'w' },
+        { t: 2000, type: 'key_up', key: 'w' },
+      ],
+    }, 2);
+
+    expect(script.steps).toEqual([
+      { action: 'focus_window', params: {} },
+      { action: 'press_key', params: { key: 'Escape' }, waitAfter: 500 },
+      { action: 'key_down', params: { key: 'w' }, waitAfter: 500 },
+      { action: 'key_up', params: { key: 'w' } },
+    ]);
+  });
+});
+
+describe('Keyboard layouts', () => {
+  it('should place characters on the German layout', () => {
+    const layout = KeyboardLayout.builtin('de')!;
+
+    expect(layout.strokeFor('y')).toEqual({ keycode: 52, shift: false, altgr: false });
+    expect(layout.strokeFor('z')).toEqual({ keycode: 29, shift: false, altgr: false });
+    expect(layout.strokeFor('@')).toEqual({ keycode: 24, shift: false, altgr: true });
+    expect(layout.splitText('z☃')).toEqual([
+      { text: 'z', strokes: [{ keycode: 29, shift: false, altgr: false }] },
+      { text: '☃', strokes: null },
+    ]);
+  });
+
+  it('should read the keymap from xmodmap output', () => {
+    const layout = KeyboardLayout.fromXmodmap('fr', [
+      'keycode   8 =',
+      'keycode  24 = a A a A ae AE',
+      'keycode  11 = eacute 2 eacute 2 asciitilde',
+    ].join('\n'));
+
+    expect(layout.lookup('a')).toEqual({ keycode: 24, shift: false, altgr: false });
+    expect(layout.lookup('é')).toEqual({ keycode: 11, shift: false, altgr: false });
+    expect(layout.lookup('2')).toEqual({ keycode: 11, shift: true, altgr: false });
+    expect(layout.lookup('~')).toEqual({ keycode: 11, shift: false, altgr: true });
+  });
+
+  it('should type by keycode and fall back to xdotool type for other characters', async () => {
+    const commands: string[] = [];
+    const exec = vi.fn(async (command: string) => {
+      commands.push(command);
+      return { stdout: '', stderr: '' };
+    });
+    const backend = new X11Backend(exec, { OPENMOHAA_KEYBOARD_LAYOUT: 'de' });
+
+    await backend.typeText('y@☃', 10);
+
+    expect(commands).toEqual([
+      'xdotool key --delay 10 52 ISO_Level3_Shift+24',
+      "xdotool type --delay 10 -- '☃'",
+    ]);
+    await expect(new X11Backend(exec, { OPENMOHAA_KEYBOARD_LAYOUT: 'xx' }).getKeyboardLayout()).rejects.toThrow('Unknown OPENMOHAA_KEYBOARD_LAYOUT');
+  });
+
+  it('should map bind key names to keysyms', () => {
+    expect(gameKeyToKeysym('F12')).toBe('F12');
+    expect(gameKeyToKeysym('PGDN')).toBe('Next');
+    expect(gameKeyToKeysym('`')).toBe('grave');
+    expect(gameKeyToKeysym('C')).toBe('c');
+  });
+
+  it('should find the console key in the game configs', () => {
+    readdirNames.mockImplementation((dir) => (String(dir).endsWith('configs') ? ['unnamedsoldier.cfg'] : []));
+    vi.mocked(readFileSync).mockImplementation((path) =>
+      String(path).endsWith('unnamedsoldier.cfg') ? 'bind F1 "toggleconsole"\nbind c "+movedown"\n' : '');
+
+    try {
+      expect(new ConfigManager('/games/mohaa').findConsoleKey('/home/player')).toMatchObject({ key: 'F1' });
+    } finally {
+      vi.mocked(readdirSync).mockReturnValue([]);
+      vi.mocked(readFileSync).mockReturnValue('');
+    }
+  });
+});
+
+describe('Mouse paths', () => {
+  it('should interpolate linear and eased paths that end on the target', () => {
+    const linear = interpolatePath({ x: 0, y: 0 }, { x: 100, y: 50 }, { curve: 'linear', durationMs: 100, stepsPerSecond: 40 });
+    expect(linear).toEqual([
+      { x: 25, y: 13, t: 25 },
+      { x: 50, y: 25, t: 50 },
+      { x: 75, y: 38, t: 75 },
+      { x: 100, y: 50, t: 100 },
+    ]);
+
+    const eased = interpolatePath({ x: 0, y: 0 }, { x: 100, y: 0 }, { durationMs: 100, stepsPerSecond: 40 });
+    expect(eased.map((p) => p.x)).toEqual([15, 50, 85, 100]);
+  });
+
+  it('should bow bezier paths to one side within a fifth of the distance', () => {
+    const path = interpolatePath({ x: 0, y: 0 }, { x: 200, y: 0 }, { curve: 'bezier', durationMs: 500, stepsPerSecond: 60 }, () => 1);
+
+    expect(path[path.length - 1]).toEqual({ x: 200, y: 0, t: 500 });
+    expect(Math.max(...path.map((p) => p.y))).toBeGreaterThan(0);
+    expect(path.every((p) => p.y >= 0 && p.y <= 40)).toBe(true);
+  });
+
+  it('should split a look into relative steps that add up exactly', () => {
+    const steps = lookSteps(101, -7, { curve: 'linear', durationMs: 100, stepsPerSecond: 30 });
+
+    expect(steps.reduce((sum, s) => sum + s.x, 0)).toBe(101);
+    expect(steps.reduce((sum, s) => sum + s.y, 0)).toBe(-7);
+    expect(steps[steps.length - 1].t).toBe(100);
+  });
+
+  it('should convert degrees with the game\'s sensitivity and fall back to engine defaults', async () => {
+    const cvars: Record<string, string> = { sensitivity: '2.5', m_pitch: '-0.022' };
+    const console = { getCvar: vi.fn(async (name: string) => (name in cvars ? { name, value: cvars[name] } : null)) };
+
+    const scale = await readLookScale(console);
+    expect(scale.yaw).toBeCloseTo(0.055);
+    expect(scale.pitch).toBeCloseTo(-0.055);
+  });
+});
+
+describe('Display backends', () => {
+  const recorder = (outputs: Record<string, string> = {}) => {
+    const commands: string[] = [];
+    const exec = vi.fn(async (command: string) => {
+      commands.push(command);
+      return { stdout: outputs[command] ?? '', stderr: '' };
+    });
+    return { commands, exec };
+  };
+
+  it('should pick the backend from the session environment', () => {
+    expect(detectDisplayServer({ WAYLAND_DISPLAY: 'wayland-0', DISPLAY: ':0' })).toBe('wayland');
+    expect(detectDisplayServer({ XDG_SESSION_TYPE: 'x11' })).toBe('x11');
+    expect(detectDisplayServer({})).toBe('unknown');
+
+    const { exec } = recorder();
+    expect(createDisplayBackend(exec, null, { WAYLAND_DISPLAY: 'wayland-0' }).server).toBe('wayland');
+    // A bound Xvfb display is X11 even inside a Wayland session
+    expect(createDisplayBackend(exec, ':99', { WAYLAND_DISPLAY: 'wayland-0' }).server).toBe('x11');
+  });
+
+  it('should send X11 input and capture through xdotool and import', async () => {
+    const { commands, exec } = recorder();
+    const backend = new X11Backend(exec);
+
+    await backend.pressCombo(['ctrl', 'c']);
+    await backend.capture({ type: 'region', region: { x: 10, y: 20, width: 30, height: 40 } }, '/tmp/shot.jpeg', { format: 'jpeg', quality: 80 });
+
+    // Without a keymap from the server, keys are placed with the built-in US layout
+    expect(commands).toEqual([
+      'setxkbmap -query',
+      'xmodmap -pke',
+      "xdotool key 'ctrl+54'",
+      "import -window root -crop 30x40+10+20 -quality 80 '/tmp/shot.jpeg'",
+    ]);
+  });
+
+  it('should find X11 windows on a display without a window manager', async () => {
+    const exec = vi.fn(async (command: string) => {
+      if (command === 'xdotool getactivewindow') {
+        throw new Error('XGetWindowProperty[_NET_ACTIVE_WINDOW] failed');
+      }
+      return {
+        stdout: command.startsWith('xdotool search')
+          ? '4194306\n'
+          : '  Absolute upper-left X:  0\n  Absolute upper-left Y:  0\n  Width: 1024\n  Height: 768\n',
+        stderr: '',
+      };
+    });
+    const backend = new X11Backend(exec);
+
+    expect(await backend.findWindow({ pid: 4242, title: 'OpenMOHAA' })).toEqual({
+      id: '4194306', title: 'OpenMOHAA', x: 0, y: 0, width: 1024, height: 768, focused: false,
+    });
+  });
+
+  it('should quote window titles for the shell', async () => {
+    const { commands, exec } = recorder();
+
+    expect(await new X11Backend(exec).findWindow({ title: 'it\'s "$(id)" `x`' })).toBeNull();
+    expect(commands).toEqual([`xdotool search --name 'it'\\''s "$(id)" \`x\`' 2>/dev/null | head -1`]);
+  });
+
+  it('should focus X11 windows directly when there is no window manager to activate them', async () => {
+    const commands: string[] = [];
+    const exec = vi.fn(async (command: string) => {
+      commands.push(command);
+      if (command.startsWith('xdotool windowactivate')) {
+        throw new Error('Your windowmanager claims not to support _NET_ACTIVE_WINDOW');
+      }
+      return { stdout: '', stderr: '' };
+    });
+
+    await new X11Backend(exec).focusWindow('4194306');
+
+    expect(commands).toEqual(['xdotool windowactivate 4194306', 'xdotool windowraise 4194306 windowfocus 4194306']);
+  });
+
+  it('should find Wayland windows through sway IPC and offset window coordinates', async () => {
+    const tree = {
+      id: 1, type: 'root', name: 'root', focused: false, rect: { x: 0, y: 0, width: 3840, height: 1080 },
+      nodes: [{
+        id: 2, type: 'output', name: 'DP-1', focused: false, rect: { x: 0, y: 0, width: 1920, height: 1080 },
+        nodes: [
+          { id: 7, type: 'con', name: 'Terminal', pid: 100, focused: true, rect: { x: 0, y: 0, width: 960, height: 1080 } },
+          { id: 9, type: 'con', name: 'OpenMOHAA', pid: 4242, focused: false, rect: { x: 960, y: 30, width: 800, height: 600 } },
+        ],
+      }],
+    };
+    const { commands, exec } = recorder({ 'swaymsg -r -t get_tree': JSON.stringify(tree) });
+    const backend = new WaylandBackend(exec, { WAYLAND_DISPLAY: 'wayland-1', SWAYSOCK: '/run/sway.sock' });
+
+    const window = await backend.findWindow({ pid: 4242, title: 'missing' });
+    expect(window).toEqual({ id: '9', title: 'OpenMOHAA', x: 960, y: 30, width: 800, height: 600, focused: false });
+    expect(await backend.getActiveWindowId()).toBe('7');
+
+    await backend.moveMouseInWindow(window!, 100, 50);
+    await backend.focusWindow('9');
+    expect(commands.slice(-2)).toEqual([
+      'ydotool mousemove --absolute -x 1060 -y 80',
+      "swaymsg '[con_id=9] focus'",
+    ]);
+
+    expect(backend.getInfo()).toMatchObject({
+      compositor: 'sway',
+      features: { windowGeometry: true, pointerPosition: false, windowMinimize: false, inputRecording: false },
+    });
+  });
+
+  it('should list X11 monitors and place the client area inside the frame', async () => {
+    const { commands, exec } = recorder({
+      'xrandr --listmonitors': 'Monitors: 2\n 0: +*DP-1 1920/527x1080/296+0+0  DP-1\n 1: +HDMI-1 2560/597x1440/336+1920+0  HDMI-1\n',
+      'xprop -id 42 _NET_FRAME_EXTENTS': '_NET_FRAME_EXTENTS(CARDINAL) = 2, 2, 30, 2\n',
+    });
+    const backend = new X11Backend(exec);
+
+    expect(await backend.listMonitors()).toEqual([
+      { name: 'DP-1', x: 0, y: 0, width: 1920, height: 1080, primary: true },
+      { name: 'HDMI-1', x: 1920, y: 0, width: 2560, height: 1440, primary: false },
+    ]);
+
+    const window = { id: '42', title: 'OpenMOHAA', x: 100, y: 100, width: 800, height: 600, focused: true };
+    await backend.setWindowGeometry(window, { x: 2000, y: 50, width: 1280 });
+    expect(commands.slice(-3)).toEqual([
+      'xdotool windowsize 42 1280 600',
+      'xprop -id 42 _NET_FRAME_EXTENTS',
+      'xdotool windowmove 42 1998 20',
+    ]);
+  });
+
+  it('should move the Wayland pointer relative to the output layout origin', async () => {
+    const monitors = [
+      { name: 'DP-1', x: 0, y: 0, width: 3840, height: 2160, scale: 2, focused: true },
+      { name: 'HDMI-A-1', x: -1280, y: 0, width: 1280, height: 1024, scale: 1, focused: false },
+    ];
+    const { commands, exec } = recorder({ 'hyprctl monitors -j': JSON.stringify(monitors) });
+    const backend = new WaylandBackend(exec, { WAYLAND_DISPLAY: 'wayland-1', HYPRLAND_INSTANCE_SIGNATURE: 'abc' });
+
+    expect(await backend.listMonitors()).toEqual([
+      { name: 'DP-1', x: 0, y: 0, width: 1920, height: 1080, primary: true },
+      { name: 'HDMI-A-1', x: -1280, y: 0, width: 1280, height: 1024, primary: false },
+    ]);
+    await backend.moveMouse(-1000, 10);
+    expect(commands[commands.length - 1]).toBe('ydotool mousemove --absolute -x 280 -y 10');
+  });
+
+  it('should fail fullscreen switching straight away when the game is not running', async () => {
+    const registry = new ToolRegistry();
+    const sessions = new SessionManager();
+    const session = sessions.get();
+    registerBuiltinTools(registry, toolComponents({ sessions }));
+    const waitForWindow = vi.spyOn(session.uiController, 'waitForWindowMode');
+
+    const result = await registry.call('openmohaa_set_fullscreen', { enabled: true }, toolExtra());
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]).toMatchObject({ text: 'Failed to set r_fullscreen: Game is not running' });
+    expect(waitForWindow).not.toHaveBeenCalled();
+  });
+
+  it('should report what Wayland cannot do without compositor IPC', async () => {
+    const { exec } = recorder();
+    const backend = new WaylandBackend(exec, { WAYLAND_DISPLAY: 'wayland-0' });
+
+    expect(backend.getInfo().features).toMatchObject({ windowGeometry: false, windowFocus: false, windowCapture: false });
+    await expect(backend.findWindow({ title: 'OpenMOHAA' })).rejects.toThrow('needs compositor IPC');
+    await expect(backend.getMousePosition()).rejects.toThrow('not supported');
+  });
+});